@@ -0,0 +1,117 @@
+import { Command, Option } from 'commander';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { displayWithPagination } from '../utils/fileUtils';
+import { CliConfig, loadConfig } from '../utils/configLoader';
+import { ArchitectureReport, DEFAULT_ARCHITECTURE_RULES, lintArchitecture, toSarif } from '../utils/archLint';
+
+/**
+ * Human-readable report: the violations of each file, then a summary
+ */
+function formatReport(report: ArchitectureReport): string {
+  const errors = report.violations.filter(violation => violation.severity === 'error').length;
+  const warnings = report.violations.length - errors;
+  if (report.violations.length === 0) {
+    return `\x1b[32m✅ No architecture violations in ${report.checkedFiles} file(s)\x1b[0m\n`;
+  }
+
+  let output = '';
+  const files = [...new Set(report.violations.map(violation => violation.filePath))];
+  files.forEach(filePath => {
+    output += `\n\x1b[4m${filePath}\x1b[0m\n`;
+    report.violations.filter(violation => violation.filePath === filePath).forEach(violation => {
+      const severity = violation.severity === 'error' ? '\x1b[31merror  \x1b[0m' : '\x1b[33mwarning\x1b[0m';
+      output += `  ${`${violation.line}:${violation.column}`.padEnd(7)} ${severity}  ${violation.message}  \x1b[90m${violation.check}\x1b[0m\n`;
+    });
+  });
+  const color = errors > 0 ? '\x1b[31m' : '\x1b[33m';
+  output += `\n${color}✖ ${errors} error(s), ${warnings} warning(s) in ${report.checkedFiles} file(s)\x1b[0m\n`;
+  return output;
+}
+
+export function createArchLintCommand(): Command {
+    const command = new Command('arch:lint')
+        .alias('al')
+        .description('Check the imports between models, services, ports, adapters and handlers against the architecture rules.')
+        .addOption(new Option('--format <format>', 'Output format').choices(['text', 'json', 'sarif']).default('text'))
+        .option('-o, --output <file>', 'Write the report to a file instead of printing it')
+        .option('-p, --path <outputPath>', 'Specify a custom base path of the project')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Reads the imports of every model, service, port, adapter and handler of
+  the project and reports the ones that break the dependency rules of a
+  ports-and-adapters layout, such as a service importing an adapter. Files
+  are classified with the directories and filePatterns of the
+  configuration, like the list command does.
+
+  Imports between the models, services and ports of different domains are
+  reported too. The command exits with code 1 when it finds an error, so
+  it can fail a CI build.
+
+Default rules:
+${DEFAULT_ARCHITECTURE_RULES.map(rule => `  ${rule.from.padEnd(8)} may not import ${rule.disallow.join(', ')}${rule.severity === 'warning' ? ' (warning)' : ''}`).join('\n')}
+
+  domain is models, services and ports; infra is adapters. Set
+  "architecture": { "rules": [...], "crossDomain": "warning" } in
+  vss-api.config.json to change them.
+
+Examples:
+  $ vss-api-cli arch:lint
+  $ vss-api-cli arch:lint --format json
+  $ vss-api-cli arch:lint --format sarif -o arch-lint.sarif
+
+Options:
+  --format <format>        text, json or sarif (default: text)
+  -o, --output <file>      Write the report to a file instead of printing it
+  -p, --path <outputPath>  Specify a custom base path of the project
+  -h, --help               Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (options: { format: 'text' | 'json' | 'sarif', output?: string, path?: string }) => {
+            try {
+                const basePath = options.path || '.';
+
+                // loadConfig reports every step it takes; only its result matters here
+                const config: CliConfig = loadConfig(basePath, false, { quiet: true });
+
+                const report = lintArchitecture(config, basePath);
+                const hasErrors = report.violations.some(violation => violation.severity === 'error');
+
+                let output: string;
+                if (options.format === 'json') {
+                    output = `${JSON.stringify(report, null, 2)}\n`;
+                } else if (options.format === 'sarif') {
+                    output = `${JSON.stringify(toSarif(report), null, 2)}\n`;
+                } else {
+                    output = formatReport(report);
+                }
+
+                if (options.output) {
+                    const outputFile = path.resolve(basePath, options.output);
+                    await fs.ensureDir(path.dirname(outputFile));
+                    // Files get the report without colors
+                    await fs.writeFile(outputFile, output.replace(/\x1b\[[0-9;]*m/g, ''));
+                    console.log(`${hasErrors ? '\x1b[31m' : '\x1b[32m'}Wrote ${report.violations.length} violation(s) to ${outputFile}\x1b[0m`);
+                } else if (options.format === 'text') {
+                    await displayWithPagination(output);
+                } else {
+                    process.stdout.write(output);
+                }
+
+                if (hasErrors) {
+                    process.exitCode = 1;
+                }
+            } catch (error: any) {
+                console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                process.exitCode = 1;
+            }
+        });
+
+    return command;
+}
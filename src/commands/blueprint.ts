@@ -0,0 +1,206 @@
+import { Command, Option } from 'commander';
+import inquirer from 'inquirer';
+import * as path from 'path';
+import { displayWithPagination } from '../utils/fileUtils';
+import { runSchematic, previewSchematic } from '../schematics-cli';
+import { loadConfig } from '../utils/configLoader';
+import { ConfigValidationError } from '../utils/configSchema';
+import { CONFLICT_STRATEGIES } from '../utils/conflicts';
+import { renderFilePreview, getConflicts } from '../utils/filePreview';
+import { loadBlueprint, planBlueprint, Blueprint, BlueprintStep, DEFAULT_BLUEPRINT_FILE } from '../utils/blueprint';
+
+/**
+ * List the components of a blueprint run, grouped by domain
+ */
+function generateComponentSummary(steps: BlueprintStep[], existing: BlueprintStep[]): string {
+  let summary = `\n\x1b[1mComponents to be generated:\x1b[0m\n`;
+  const domains = [...new Set(steps.map(step => step.domain))];
+  domains.forEach(domainName => {
+    summary += `\x1b[1m  ${domainName}\x1b[0m\n`;
+    steps
+      .filter(step => step.domain === domainName)
+      .forEach(step => {
+        summary += `\x1b[32m    • ${step.label}\x1b[0m \x1b[90m(${step.kind === 'plugin' ? step.schematic : step.kind})\x1b[0m\n`;
+      });
+  });
+
+  if (existing.length > 0) {
+    summary += `\n\x1b[1mAlready generated (left untouched):\x1b[0m\n`;
+    existing.forEach(step => {
+      summary += `\x1b[90m  • ${step.label} (${step.kind === 'plugin' ? step.schematic : step.kind}, ${step.primaryFile})\x1b[0m\n`;
+    });
+  }
+
+  return summary;
+}
+
+function createBlueprintApplyCommand(): Command {
+    return new Command('apply')
+        .description('Generate every component of a blueprint that does not exist yet.')
+        .argument('[file]', 'Blueprint file (YAML or JSON)', DEFAULT_BLUEPRINT_FILE)
+        .option('-p, --path <outputPath>', 'Specify a custom base output path')
+        .option('-y, --yes', 'Skip prompts and use default options')
+        .option('--dry-run', 'Show the files that would be written without writing them')
+        .option('--force', 'Overwrite files that already exist')
+        .addOption(new Option('--on-conflict <strategy>', 'What to do with files that already exist').choices(CONFLICT_STRATEGIES))
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Reads a blueprint that declares the domains of a service and their models,
+  ports, adapters, services and handlers, and runs the matching generators in
+  one go: models first, then ports, adapters, services and handlers.
+
+  Components whose file already exists are left untouched, so applying the
+  same blueprint again only generates what was added to it. The plugins list
+  of a domain runs schematics of the plugin collections in the config; give
+  a component's file to leave it untouched once it exists. --force and
+  --on-conflict only apply to the other files of a new component, such as
+  the DTO file of a new handler.
+
+Blueprint Format:
+  domains:
+    - name: user
+      models:
+        - name: User
+          fields: "id:uuid,email:email,name?:string"
+          schema: true
+      ports:
+        - name: UserRepository
+          adapterType: repository
+          methods:
+            - "findByEmail(email: string): Promise<User | null>"
+      adapters:
+        - name: UserDynamo
+          port: UserRepository
+      services:
+        - name: User
+      handlers:
+        - name: createUser
+          service: User
+          requestDto: true
+          responseDto: true
+        - name: userCreatedNotifier
+          trigger: sqs
+      plugins:
+        - name: UserAudit
+          schematic: audit-log
+          file: src/infra/audit/UserAuditLogAdapter.ts
+
+Examples:
+  $ vss-api-cli blueprint apply
+  $ vss-api-cli blueprint apply service.blueprint.json -y
+  $ vss-api-cli blueprint apply --dry-run
+
+Options:
+  [file]                     Blueprint file (default: ${DEFAULT_BLUEPRINT_FILE})
+  -p, --path <outputPath>    Specify a custom base output path
+  -y, --yes                  Skip prompts and use default options
+  --dry-run                  Show the files that would be written without writing them
+  --force                    Overwrite files that already exist
+  --on-conflict <strategy>   What to do with existing files: skip, overwrite, rename or prompt
+  -h, --help                 Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (file: string, options) => {
+            try {
+                let proceed = options.yes;
+                const basePath = options.path || '.';
+
+                let blueprint: Blueprint;
+                let plan: ReturnType<typeof planBlueprint>;
+                try {
+                    blueprint = loadBlueprint(file);
+                    plan = planBlueprint(blueprint, loadConfig(basePath), basePath);
+                } catch (error: any) {
+                    console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                    process.exitCode = 1;
+                    return;
+                }
+
+                const { steps, existing } = plan;
+                if (steps.length === 0) {
+                    console.log(`\x1b[32m✅ All ${existing.length} components of the blueprint already exist. Nothing to do.\x1b[0m`);
+                    return;
+                }
+
+                // Every component runs in one workflow, so the whole blueprint is written or nothing is
+                const schematicOptions = {
+                    path: basePath,
+                    steps: steps.map(step => ({ schematic: step.schematic, collection: step.collection, options: step.options }))
+                };
+
+                // Preview from a dry run of the schematics, so it shows exactly what will be written
+                const plannedFiles = await previewSchematic('blueprint', schematicOptions, options.force, options.onConflict);
+                await displayWithPagination(`\n🔹 Apply blueprint: ${path.basename(file)}\n${generateComponentSummary(steps, existing)}${renderFilePreview(plannedFiles, basePath)}`);
+
+                if (options.dryRun) {
+                    console.log('\x1b[36mDry run complete. No files were written.\x1b[0m');
+                    return;
+                }
+
+                // A component's main file is missing but another of its files is there
+                const conflicts = getConflicts(plannedFiles);
+                if (conflicts.length > 0) {
+                    console.error('\n\x1b[33m⚠️  File conflict detected!\x1b[0m');
+                    console.error('\x1b[33mThese files exist but were not generated with their component:\x1b[0m');
+                    conflicts.forEach(conflict => console.error(`\x1b[33m  • ${path.join(basePath, conflict.path)}\x1b[0m`));
+                    console.log('\n\x1b[36mSuggestions:\x1b[0m');
+                    console.log('  • Remove or move these files and apply the blueprint again');
+                    console.log('  • Use a different output path with -p option');
+                    console.log('  • Use --force to overwrite existing files');
+                    console.log('  • Use --on-conflict skip, rename or prompt to keep or compare them');
+                    process.exitCode = 1;
+                    return;
+                }
+
+                // Ask for confirmation unless --yes flag is used
+                if (!options.yes) {
+                    const confirmAnswer = await inquirer.prompt([
+                        {
+                            type: 'confirm',
+                            name: 'proceed',
+                            message: 'Do you want to create these files?',
+                            default: true,
+                        }
+                    ]);
+                    proceed = confirmAnswer.proceed;
+                }
+
+                if (!proceed) {
+                    console.log('\nOperation cancelled. No files were created.');
+                    return;
+                }
+
+                try {
+                    console.log(`Generating ${steps.length} component(s)...`);
+                    await runSchematic('blueprint', schematicOptions, false, options.force, options.onConflict);
+                    console.log(`\x1b[32m✅ Blueprint applied: ${steps.length} component(s) generated! 🏗️\x1b[0m`);
+                } catch (error: any) {
+                    console.error('Error applying blueprint:', error);
+                    process.exitCode = 1;
+                }
+            } catch (error: any) {
+                if (error && error.name === 'ExitPromptError') {
+                    console.log('\n👋 Mission aborted! The user yeeted the command into the void. Farewell, brave keystroke warrior! 🫡💥');
+                    process.exit(0);
+                } else if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                    process.exit(1);
+                } else {
+                    console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
+                    process.exit(1);
+                }
+            }
+        });
+}
+
+export function createBlueprintCommand(): Command {
+    return new Command('blueprint')
+        .description('Generate a service skeleton from a declarative blueprint file.')
+        .addCommand(createBlueprintApplyCommand());
+}
@@ -0,0 +1,544 @@
+import { Command, Option } from 'commander';
+import inquirer from 'inquirer';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { applyFileNameCase, applyFilePatterns, displayWithPagination, toCamelCase, toDasherize, toPascalCase, toSnakeCase } from '../utils/fileUtils';
+import { CliConfig, defaultConfig, findConfigFiles, loadResolvedConfig, ResolvedConfig } from '../utils/configLoader';
+import { CONFIG_SCHEMA_REF, writeConfigSchema, DIRECTORY_KEYS, FILE_PATTERN_KEYS, formatConfigIssues, TEMPLATE_VARIABLES, validateConfig } from '../utils/configSchema';
+import { CONFIG_PRESETS, PRESET_PREFIX } from '../utils/configPresets';
+
+/**
+ * Name each component's paths are shown for when --name is not given
+ */
+const SAMPLE_NAMES: Record<string, string> = {
+  handler: 'createUser',
+  domain: 'user',
+  service: 'userCreator',
+  port: 'userRepository',
+  adapter: 'userRepository'
+};
+
+/**
+ * Path each file of each component resolves to with applyFilePatterns, as the generators place them
+ *
+ * @returns Paths by component and file type, e.g. `paths.handler.handlerFile`
+ */
+function resolveComponentPaths(
+  config: CliConfig,
+  components: string[],
+  sample: { name?: string, domain: string }
+): Record<string, Record<string, string>> {
+  const paths: Record<string, Record<string, string>> = {};
+  components.forEach(component => {
+    const name = sample.name || SAMPLE_NAMES[component] || 'example';
+    const templateVars = {
+      name,
+      pascalName: toPascalCase(name),
+      camelName: toCamelCase(name),
+      dashName: toDasherize(name),
+      snakeName: toSnakeCase(name),
+      domainName: sample.domain,
+      serviceName: toPascalCase(name),
+      adapterType: 'repository'
+    };
+    paths[component] = {};
+    (FILE_PATTERN_KEYS[component] || []).forEach(fileType => {
+      paths[component]![fileType] = applyFilePatterns(component, fileType, config, { ...templateVars }, '.').filePath;
+    });
+  });
+  return paths;
+}
+
+/**
+ * Tell whether a setting matters to the paths of a component
+ */
+function isComponentSetting(setting: string, component: string): boolean {
+  return setting === 'basePath'
+    || setting === 'fileNameCase'
+    || setting.startsWith(`filePatterns.${component}.`)
+    || setting.startsWith(`directories.${component}.`);
+}
+
+/**
+ * Value of a setting, e.g. `directories.handler.base`
+ */
+function settingValue(config: CliConfig, setting: string): unknown {
+  return setting.split('.').reduce<any>((value, key) => value?.[key], config);
+}
+
+function createConfigShowCommand(): Command {
+    return new Command('show')
+        .description('Print the resolved configuration, where each setting comes from, and the paths files resolve to.')
+        .addOption(new Option('-c, --component <type>', 'Only show the settings and paths of one component').choices(Object.keys(FILE_PATTERN_KEYS)))
+        .option('-n, --name <name>', 'Sample name the paths are resolved for (default: createUser for handlers, user for domains, ...)')
+        .option('-d, --domain <domainName>', 'Sample domain the paths are resolved for', 'user')
+        .option('--json', 'Print the configuration, sources and paths as JSON')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Prints the configuration the generators use, after merging the defaults,
+  the presets and config files it extends, and the config files of the
+  project. Each setting shows where it comes from: default, a preset such
+  as vss:clean-architecture, or a config file.
+
+  It then resolves the path of each file of each component for a sample
+  name, combining basePath, directories and filePatterns exactly as the
+  generators do, to see where a file will be created before creating it.
+
+Examples:
+  $ vss-api-cli config show
+  $ vss-api-cli config show --component handler --name createUser
+  $ vss-api-cli config show -c domain -n order -d sales
+  $ vss-api-cli config show --json
+
+Options:
+  -c, --component <type>     Only show one component: ${Object.keys(FILE_PATTERN_KEYS).join(', ')}
+  -n, --name <name>          Sample name the paths are resolved for
+  -d, --domain <domainName>  Sample domain the paths are resolved for (default: user)
+  --json                     Print the configuration, sources and paths as JSON
+  -h, --help                 Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (options: { component?: string, name?: string, domain: string, json?: boolean }) => {
+            try {
+                // loadConfig reports every step it takes; only its result matters here
+                const resolved: ResolvedConfig = loadResolvedConfig('.', false, { quiet: true });
+
+                const { config, origins } = resolved;
+                const components = options.component ? [options.component] : Object.keys(FILE_PATTERN_KEYS);
+                const sources = Object.fromEntries(
+                    Object.entries(resolved.sources).filter(([setting]) => !options.component || isComponentSetting(setting, options.component))
+                );
+                const paths = resolveComponentPaths(config, components, options);
+
+                if (options.json) {
+                    console.log(JSON.stringify({ origins, config, sources, paths }, null, 2));
+                    return;
+                }
+
+                let output = '\n\x1b[36m⚙️  Configuration sources\x1b[0m \x1b[90m(later ones override earlier ones)\x1b[0m\n';
+                origins.forEach((origin, index) => {
+                    output += `  ${index + 1}. ${origin}\n`;
+                });
+
+                output += '\n\x1b[36m📋 Settings\x1b[0m\n';
+                const settingWidth = Math.max(...Object.keys(sources).map(setting => setting.length)) + 2;
+                Object.entries(sources).forEach(([setting, origin]) => {
+                    const value = settingValue(config, setting);
+                    const shown = typeof value === 'string' ? value : JSON.stringify(value);
+                    const originColor = origin === 'default' ? '\x1b[90m' : '\x1b[33m';
+                    output += `  ${setting.padEnd(settingWidth)}${shown.padEnd(40)} ${originColor}${origin}\x1b[0m\n`;
+                });
+
+                output += `\n\x1b[36m📁 Paths\x1b[0m \x1b[90m(domain ${options.domain}, adapter type repository)\x1b[0m\n`;
+                Object.entries(paths).forEach(([component, files]) => {
+                    const name = options.name || SAMPLE_NAMES[component];
+                    output += `  \x1b[1m${component}\x1b[0m \x1b[90m${name}\x1b[0m\n`;
+                    Object.entries(files).forEach(([fileType, filePath]) => {
+                        output += `    ${fileType.padEnd(14)} \x1b[32m${filePath}\x1b[0m\n`;
+                    });
+                });
+
+                await displayWithPagination(output);
+            } catch (error: any) {
+                console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                process.exitCode = 1;
+            }
+        });
+}
+
+/**
+ * Name variable of each file name case
+ */
+const CASE_VARIABLES: Record<CliConfig['fileNameCase'], string> = {
+  pascal: 'pascalName',
+  camel: 'camelName',
+  kebab: 'dashName',
+  snake: 'snakeName'
+};
+
+/**
+ * How a suffix is added to a file name: `create-user.handler.ts` or `CreateUserHandler.ts`.
+ * `preset` keeps the file patterns of the preset.
+ */
+type SuffixStyle = 'preset' | 'dot' | 'joined';
+
+/**
+ * Answers of the config init wizard, also the defaults when it asks again
+ */
+interface ConfigInitAnswers {
+  preset: string;
+  basePath: string;
+  fileNameCase: CliConfig['fileNameCase'];
+  suffixStyle: SuffixStyle;
+  /**
+   * Suffix of each file type, e.g. `handler` for handlerFile; empty for none
+   */
+  suffixes: Record<string, string>;
+  /**
+   * Directories of every component, starting from the preset's
+   */
+  directories: CliConfig['directories'];
+}
+
+/**
+ * Defaults, settings of a preset and the directories and file patterns they resolve to
+ */
+function presetLayout(preset: string): CliConfig {
+  const { config } = CONFIG_PRESETS[preset]!;
+  const merge = (defaults: Record<string, Record<string, string>>, overrides: Record<string, Record<string, string>> = {}) =>
+    Object.fromEntries(Object.keys({ ...defaults, ...overrides }).map(component => [component, { ...defaults[component], ...overrides[component] }]));
+  return {
+    ...defaultConfig,
+    ...config,
+    filePatterns: merge(defaultConfig.filePatterns, config.filePatterns),
+    directories: merge(defaultConfig.directories, config.directories)
+  };
+}
+
+/**
+ * Suffix of each file type in the file patterns of a layout, from the first component
+ * that has the file: `handler` for `{{dashName}}.handler.ts`, `useCase` for `{{pascalName}}UseCase.ts`
+ */
+function suffixesOf(layout: CliConfig): Record<string, string> {
+  const suffixes: Record<string, string> = {};
+  Object.entries(FILE_PATTERN_KEYS).forEach(([component, fileTypes]) => {
+    fileTypes.forEach(fileType => {
+      const pattern = layout.filePatterns[component]?.[fileType];
+      if (pattern === undefined || fileType in suffixes) return;
+      const suffix = pattern.replace(/\{\{[^}]*\}\}/g, '').replace(/\.ts$/, '').split(/[.\-_]/).filter(Boolean).pop() || '';
+      suffixes[fileType] = suffix.charAt(0).toLowerCase() + suffix.slice(1);
+    });
+  });
+  return suffixes;
+}
+
+/**
+ * File pattern of a file type for a case and suffix style, e.g. `{{dashName}}.handler.ts`,
+ * `{{pascalName}}Handler.ts`, or `{{snakeName}}_{{adapterType}}_port.ts` for domain ports
+ */
+function filePattern(fileNameCase: CliConfig['fileNameCase'], suffixStyle: SuffixStyle, suffix: string, withAdapterType: boolean): string {
+  const parts = [`{{${CASE_VARIABLES[fileNameCase]}}}`, ...(withAdapterType ? ['{{adapterType}}'] : [])];
+  if (suffixStyle === 'dot') {
+    return `${[...parts, suffix].filter(Boolean).join('.')}.ts`;
+  }
+  const separator = fileNameCase === 'kebab' ? '-' : fileNameCase === 'snake' ? '_' : '';
+  const joinedSuffix = separator ? suffix : suffix.charAt(0).toUpperCase() + suffix.slice(1);
+  return `${[...parts, joinedSuffix].filter(Boolean).join(separator)}.ts`;
+}
+
+/**
+ * Layout the answers resolve to, as the generators see it
+ */
+function layoutOf(answers: ConfigInitAnswers): CliConfig {
+  const layout = presetLayout(answers.preset);
+  const filePatterns = answers.suffixStyle === 'preset'
+    ? layout.filePatterns
+    : Object.fromEntries(Object.entries(layout.filePatterns).map(([component, patterns]) => [
+      component,
+      Object.fromEntries(Object.keys(patterns).map(fileType => [
+        fileType,
+        filePattern(answers.fileNameCase, answers.suffixStyle, answers.suffixes[fileType] || '',
+          component === 'domain' && (fileType === 'portFile' || fileType === 'adapterFile'))
+      ]))
+    ]));
+  return { ...layout, basePath: answers.basePath, fileNameCase: answers.fileNameCase, filePatterns, directories: answers.directories };
+}
+
+/**
+ * Content of the config file for the answers: the preset it extends, and only the
+ * file patterns and directories that differ from the preset
+ */
+function configFileOf(answers: ConfigInitAnswers): Record<string, unknown> {
+  const preset = presetLayout(answers.preset);
+  const layout = layoutOf(answers);
+  const changes = (section: 'filePatterns' | 'directories') => Object.fromEntries(
+    Object.entries(layout[section])
+      .map(([component, entries]) => [
+        component,
+        Object.fromEntries(Object.entries(entries).filter(([key, value]) => preset[section][component]?.[key] !== value))
+      ] as const)
+      .filter(([, entries]) => Object.keys(entries).length > 0)
+  );
+
+  const config: Record<string, unknown> = { $schema: CONFIG_SCHEMA_REF };
+  if (answers.preset !== 'default') {
+    config.extends = `${PRESET_PREFIX}${answers.preset}`;
+  }
+  config.basePath = answers.basePath;
+  config.fileNameCase = answers.fileNameCase;
+  const filePatterns = changes('filePatterns');
+  if (Object.keys(filePatterns).length > 0) config.filePatterns = filePatterns;
+  const directories = changes('directories');
+  if (Object.keys(directories).length > 0) config.directories = directories;
+  return config;
+}
+
+/**
+ * Answers of `config init --yes`: the default layout
+ */
+function defaultAnswers(): ConfigInitAnswers {
+  const layout = presetLayout('default');
+  return {
+    preset: 'default',
+    basePath: layout.basePath,
+    fileNameCase: layout.fileNameCase,
+    suffixStyle: 'preset',
+    suffixes: suffixesOf(layout),
+    directories: layout.directories
+  };
+}
+
+/**
+ * Tell whether a directory or file pattern only uses known `{{variables}}`
+ *
+ * @returns true, or the problem to show under the prompt
+ */
+function validateTemplate(value: string): true | string {
+  const unknown = [...value.matchAll(/\{\{([^}]*)\}\}/g)].map(match => match[1]!).filter(variable => !TEMPLATE_VARIABLES.includes(variable));
+  return unknown.length === 0 || `Unknown variable {{${unknown[0]}}}. Use any of: ${TEMPLATE_VARIABLES.map(variable => `{{${variable}}}`).join(', ')}`;
+}
+
+/**
+ * Ask the wizard questions, defaulting to the previous answers
+ */
+async function askConfigQuestions(previous: ConfigInitAnswers): Promise<ConfigInitAnswers> {
+  const { preset } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'preset',
+      message: 'Which layout do you want to start from?',
+      choices: Object.entries(CONFIG_PRESETS).map(([name, { description }]) => ({ name: `${name.padEnd(20)} ${description}`, value: name, short: name })),
+      default: previous.preset
+    }
+  ]);
+  // Another preset brings its own layout; keep the answers otherwise
+  const layout = presetLayout(preset);
+  const start = preset === previous.preset
+    ? previous
+    : { ...previous, preset, fileNameCase: layout.fileNameCase, suffixStyle: 'preset' as SuffixStyle, suffixes: suffixesOf(layout), directories: layout.directories };
+
+  const naming = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'basePath',
+      message: 'Base path of the generated code:',
+      default: start.basePath,
+      validate: (input: string) => input.trim() !== '' || 'Please enter a path, e.g. src'
+    },
+    {
+      type: 'list',
+      name: 'fileNameCase',
+      message: 'Case of file names:',
+      choices: [
+        { name: 'pascal  CreateUser', value: 'pascal', short: 'pascal' },
+        { name: 'camel   createUser', value: 'camel', short: 'camel' },
+        { name: 'kebab   create-user', value: 'kebab', short: 'kebab' },
+        { name: 'snake   create_user', value: 'snake', short: 'snake' }
+      ],
+      default: start.fileNameCase
+    }
+  ]);
+
+  const sample = toPascalCase(SAMPLE_NAMES.handler!);
+  const casedSample = applyFileNameCase(sample, naming.fileNameCase);
+  const { suffixStyle } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'suffixStyle',
+      message: 'How should file names end?',
+      choices: [
+        { name: `Keep the file names of the ${preset} layout`, value: 'preset', short: 'preset' },
+        { name: `Dotted suffix    ${casedSample}.handler.ts`, value: 'dot', short: 'dotted' },
+        { name: `Joined suffix    ${filePattern(naming.fileNameCase, 'joined', 'handler', false).replace(/\{\{[^}]*\}\}/, casedSample)}`, value: 'joined', short: 'joined' }
+      ],
+      default: start.suffixStyle
+    }
+  ]);
+
+  let suffixes = start.suffixes;
+  if (suffixStyle !== 'preset') {
+    const { editSuffixes } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'editSuffixes',
+        message: `Change the suffixes (${Object.entries(suffixes).map(([fileType, suffix]) => `${fileType}: ${suffix || 'none'}`).join(', ')})?`,
+        default: false
+      }
+    ]);
+    if (editSuffixes) {
+      suffixes = await inquirer.prompt(Object.entries(suffixes).map(([fileType, suffix]) => ({
+        type: 'input' as const,
+        name: fileType,
+        message: `Suffix of ${fileType} (empty for none):`,
+        default: suffix,
+        validate: (input: string) => /^[A-Za-z0-9]*$/.test(input.trim()) || 'Use letters and digits only'
+      })));
+    }
+  }
+
+  const { components } = await inquirer.prompt([
+    {
+      type: 'checkbox',
+      name: 'components',
+      message: 'Which components should go in other directories?',
+      choices: Object.keys(DIRECTORY_KEYS).map(component => ({
+        name: `${component.padEnd(8)} ${start.directories[component]?.base}`,
+        value: component,
+        short: component
+      }))
+    }
+  ]);
+
+  const directories = { ...start.directories };
+  for (const component of components as string[]) {
+    directories[component] = await inquirer.prompt(DIRECTORY_KEYS[component]!.map(key => ({
+      type: 'input' as const,
+      name: key,
+      message: `${component} ${key} directory:`,
+      default: start.directories[component]?.[key] ?? start.directories[component]?.base,
+      validate: validateTemplate
+    })));
+  }
+
+  return { preset, basePath: naming.basePath.trim(), fileNameCase: naming.fileNameCase, suffixStyle, suffixes, directories };
+}
+
+/**
+ * Sample of where each file goes with a layout
+ */
+function describeLayout(layout: CliConfig): string {
+  let output = '\n\x1b[36m📁 Files will be created at\x1b[0m \x1b[90m(domain user, adapter type repository)\x1b[0m\n';
+  Object.entries(resolveComponentPaths(layout, Object.keys(FILE_PATTERN_KEYS), { domain: 'user' })).forEach(([component, files]) => {
+    output += `  \x1b[1m${component}\x1b[0m \x1b[90m${SAMPLE_NAMES[component]}\x1b[0m\n`;
+    Object.entries(files).forEach(([fileType, filePath]) => {
+      output += `    ${fileType.padEnd(14)} \x1b[32m${filePath}\x1b[0m\n`;
+    });
+  });
+  return output;
+}
+
+function createConfigInitCommand(): Command {
+    return new Command('init')
+        .description('Create vss-api.config.json with an interactive wizard.')
+        .option('-y, --yes', 'Write the default configuration without asking')
+        .option('--force', 'Overwrite an existing vss-api.config.json without asking')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Creates vss-api.config.json in the current directory by asking for the
+  layout to start from, the base path, the case of file names, how file
+  names end (create-user.handler.ts or CreateUserHandler.ts) and the
+  directories of each component.
+
+  Before writing, it shows where each file of each component would be
+  created, to write the file, change the answers or cancel. The file is
+  validated against the config schema before it is written.
+
+  An existing vss-api.config.json is only overwritten after confirming, or
+  with --force.
+
+Examples:
+  $ vss-api-cli config init
+  $ vss-api-cli config init --yes
+  $ vss-api-cli config init --force
+
+Options:
+  -y, --yes    Write the default configuration without asking
+  --force      Overwrite an existing vss-api.config.json without asking
+  -h, --help   Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (options: { yes?: boolean, force?: boolean }) => {
+            try {
+                const configPath = path.join(process.cwd(), 'vss-api.config.json');
+                if (fs.existsSync(configPath) && !options.force) {
+                    if (options.yes) {
+                        console.error(`\x1b[31mError: ${configPath} already exists. Use --force to overwrite it.\x1b[0m`);
+                        process.exitCode = 1;
+                        return;
+                    }
+                    const { overwrite } = await inquirer.prompt([
+                        {
+                            type: 'confirm',
+                            name: 'overwrite',
+                            message: 'vss-api.config.json already exists. Do you want to overwrite it?',
+                            default: false
+                        }
+                    ]);
+                    if (!overwrite) {
+                        console.log('\nOperation cancelled. vss-api.config.json was left unchanged.');
+                        return;
+                    }
+                }
+
+                const otherConfigs = findConfigFiles(process.cwd()).filter(filePath => filePath !== configPath);
+                if (otherConfigs.length > 0) {
+                    console.log(`\x1b[33m⚠️  Also found ${otherConfigs.map(filePath => path.basename(filePath)).join(', ')}: their settings are merged with the new file.\x1b[0m`);
+                }
+
+                let answers = defaultAnswers();
+                if (!options.yes) {
+                    while (true) {
+                        answers = await askConfigQuestions(answers);
+                        console.log(describeLayout(layoutOf(answers)));
+                        const { next } = await inquirer.prompt([
+                            {
+                                type: 'list',
+                                name: 'next',
+                                message: 'Write this configuration?',
+                                choices: [
+                                    { name: 'Write vss-api.config.json', value: 'write' },
+                                    { name: 'Change the answers', value: 'edit' },
+                                    { name: 'Cancel', value: 'cancel' }
+                                ]
+                            }
+                        ]);
+                        if (next === 'cancel') {
+                            console.log('\nOperation cancelled. No files were written.');
+                            return;
+                        }
+                        if (next === 'write') break;
+                    }
+                }
+
+                const config = configFileOf(answers);
+                const issues = validateConfig(config);
+                if (issues.length > 0) {
+                    console.error(`\x1b[31mError: ${formatConfigIssues(configPath, issues)}\x1b[0m`);
+                    process.exitCode = 1;
+                    return;
+                }
+
+                await fs.writeJson(configPath, config, { spaces: 2 });
+                await writeConfigSchema(path.dirname(configPath));
+                console.log(`\x1b[32m✅ Configuration written to ${configPath}\x1b[0m`);
+                console.log('\x1b[36mRun vss-api-cli config show to see every setting and where files go.\x1b[0m');
+            } catch (error: any) {
+                if (error && error.name === 'ExitPromptError') {
+                    console.log('\n👋 Mission aborted! The user yeeted the command into the void. Farewell, brave keystroke warrior! 🫡💥');
+                    process.exit(0);
+                } else {
+                    console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                    process.exitCode = 1;
+                }
+            }
+        });
+}
+
+export function createConfigCommand(): Command {
+    return new Command('config')
+        .description('Create and inspect the configuration of the project.')
+        .addCommand(createConfigInitCommand())
+        .addCommand(createConfigShowCommand());
+}
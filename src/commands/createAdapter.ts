@@ -1,54 +1,43 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import inquirer from 'inquirer';
 import * as path from 'path';
-import * as fs from 'fs-extra';
 import { toPascalCase, toDasherize, displayWithPagination, applyFilePatterns } from '../utils/fileUtils';
-import { runSchematic } from '../schematics-cli';
-import { createDomainInteractively } from '../utils/domainUtils';
+import { runSchematic, previewSchematic } from '../schematics-cli';
+import { createDomainInteractively, findExistingDomains, findExistingPorts, findPortFile } from '../utils/domainUtils';
 import { loadConfig } from '../utils/configLoader';
+import { ConfigValidationError } from '../utils/configSchema';
+import { CONFLICT_STRATEGIES, isFileConflictError } from '../utils/conflicts';
+import { renderFilePreview, getConflicts } from '../utils/filePreview';
+import { parsePortFile, renderTypeImports, toAdapterMethodStubs, toAdapterPropertyStubs, AdapterMethodStub } from '../utils/portParser';
 
-// Helper function to find existing domains
-async function findExistingDomains(): Promise<string[]> {
-    const srcDir = path.join(process.cwd(), 'src');
-    try {
-        const entries = await fs.readdir(srcDir, { withFileTypes: true });
-        return entries
-            .filter(entry => entry.isDirectory() && entry.name !== 'handlers' && entry.name !== 'infra')
-            .map(entry => entry.name);
-    } catch (error) {
-        console.warn(`Warning: Could not read src directory. ${(error as Error).message}`);
-        return [];
+// Helper function to read the port methods and properties and the imports an adapter needs to implement them
+async function readPortContract(domain: string, portName: string, adapterFile: string): Promise<{
+    interfaceName: string,
+    portMethods: AdapterMethodStub[],
+    portProperties: string[],
+    typeImports: string[]
+} | null> {
+    const portFile = await findPortFile(domain, portName);
+    if (!portFile) {
+        console.warn(`\x1b[33mCould not locate ${portName}.ts; generating an empty adapter.\x1b[0m`);
+        return null;
     }
-}
 
-// Helper function to find ports in a specific domain
-async function findPortsInDomain(domain: string): Promise<string[]> {
-    // Look in multiple possible locations for the ports
-    const possibleDirs = [
-        path.join(process.cwd(), 'src', domain, 'ports'),
-        path.join(process.cwd(), 'test-outcome', 'src', domain, 'ports')
-    ];
-    
-    let allPorts: string[] = [];
-    
-    for (const dir of possibleDirs) {
-        try {
-            if (await fs.pathExists(dir)) {
-                const entries = await fs.readdir(dir);
-                console.log(`Found ${entries.length} files in ${dir}: ${entries.join(', ')}`);
-                
-                const ports = entries
-                    .filter(entry => entry.endsWith('Port.ts'))
-                    .map(entry => entry.replace('.ts', ''));
-                
-                allPorts = [...allPorts, ...ports];
-            }
-        } catch (error) {
-            console.warn(`Warning: Could not read ports in ${dir}. ${(error as Error).message}`);
+    try {
+        const parsed = parsePortFile(portFile, portName);
+        if (parsed.unresolved.length > 0) {
+            console.warn(`\x1b[33mThese types are not exported from their files and cannot be imported: ${parsed.unresolved.join(', ')}\x1b[0m`);
         }
+        return {
+            interfaceName: parsed.interfaceName,
+            portMethods: toAdapterMethodStubs(parsed.methods),
+            portProperties: toAdapterPropertyStubs(parsed.properties),
+            typeImports: renderTypeImports(parsed.references, adapterFile)
+        };
+    } catch (error) {
+        console.warn(`\x1b[33mCould not parse ${portFile}: ${(error as Error).message}\x1b[0m`);
+        return null;
     }
-    
-    return allPorts;
 }
 
 export function createAdapterCommand(): Command {
@@ -65,6 +54,9 @@ export function createAdapterCommand(): Command {
         .option('--model', 'Generate a domain model for this adapter')
         .option('--port <portName>', 'Name of the port interface this adapter implements')
         .option('-y, --yes', 'Skip prompts and use default options')
+        .option('--dry-run', 'Show the files that would be written without writing them')
+        .option('--force', 'Overwrite files that already exist')
+        .addOption(new Option('--on-conflict <strategy>', 'What to do with files that already exist').choices(CONFLICT_STRATEGIES))
         .hook('preAction', async () => {
             // Show detailed help with pagination when --help is used
             if (process.argv.includes('--help')) {
@@ -95,6 +87,7 @@ Examples:
   $ vss-api-cli ca ProductElastic -d product --port ProductSearchPort -t graphql
   $ vss-api-cli create:adapter S3Document -d document --port DocumentStoragePort -t storage
   $ vss-api-cli create:adapter RedisCache -d user --port UserCachePort -t cache
+  $ vss-api-cli create:adapter UserMongo -d user --port UserRepositoryPort --force
 
 Adapter Type Patterns:
   • repository: Database access implementations (MongoDB, PostgreSQL, DynamoDB)
@@ -117,6 +110,9 @@ Options:
   -t, --type <adapterType>     Type of adapter (repository, rest, graphql, queue, storage)
   -p, --path <outputPath>      Specify a custom output path
   -y, --yes                    Skip prompts and use default options
+  --dry-run                    Show the files that would be written without writing them
+  --force                      Overwrite files that already exist
+  --on-conflict <strategy>     What to do with existing files: skip, overwrite, rename or prompt
   -h, --help                   Display this help message
 `;
                 await displayWithPagination(helpContent);
@@ -189,7 +185,7 @@ Options:
                 // Find available ports in selected domain
                 let availablePorts: string[] = [];
                 if (options.domain) {
-                    availablePorts = await findPortsInDomain(options.domain);
+                    availablePorts = await findExistingPorts(options.domain);
                 }
 
                 if (availablePorts.length === 0) {
@@ -211,7 +207,10 @@ Options:
                                     name,
                                     domain: options.domain,
                                     ...(options.path && { path: options.path })
-                                }
+                                },
+                                options.dryRun,
+                                options.force,
+                                options.onConflict
                             );
                             return;
                         } else {
@@ -276,39 +275,80 @@ Options:
                     name: finalAdapterName
                 }, basePath);
                 
-                // Run schematic with parsed options
-                await runSchematic(
-                    'adapter',
-                    {
-                        name,
-                        domain: options.domain,
-                        port: options.port || availablePorts[0],
-                        adapterType: options.type || 'repository',
-                        fileNameCase: config.fileNameCase || 'pascal',
-                        _config: config,
-                        ...(options.path && { path: options.path }),
-                        
-                        // Pass file paths to schematic
-                        adapterFilePath: adapterFileInfo.filePath,
-                        adapterFileName: adapterFileInfo.fileName,
-                        portName: finalPortName
-                    }
+                // Read the port contract so the adapter gets a stub for every method
+                const portContract = await readPortContract(
+                    domainName,
+                    finalPortName,
+                    path.resolve(process.cwd(), adapterFileInfo.filePath)
                 );
+                
+                const schematicOptions = {
+                    name,
+                    domain: options.domain,
+                    port: options.port || availablePorts[0],
+                    adapterType: options.type || 'repository',
+                    fileNameCase: config.fileNameCase || 'pascal',
+                    _config: config,
+                    ...(options.path && { path: options.path }),
+
+                    // Pass file paths to schematic
+                    adapterFilePath: adapterFileInfo.filePath,
+                    adapterFileName: adapterFileInfo.fileName,
+                    portName: portContract?.interfaceName || finalPortName,
+                    portMethods: portContract?.portMethods || [],
+                    portProperties: portContract?.portProperties || [],
+                    typeImports: portContract?.typeImports || []
+                };
+
+                // Preview from a dry run of the schematic, so it shows exactly what will be written
+                const plannedFiles = await previewSchematic('adapter', schematicOptions, options.force, options.onConflict);
+                await displayWithPagination(`\n🔹 Create an Adapter: ${finalAdapterName} implementing ${finalPortName}\n${renderFilePreview(plannedFiles, basePath)}`);
+
+                if (options.dryRun) {
+                    console.log('\x1b[36mDry run complete. No files were written.\x1b[0m');
+                    return;
+                }
+                if (getConflicts(plannedFiles).length > 0) {
+                    console.error('\n\x1b[31mError: Files already exist. No files were created.\x1b[0m');
+                    process.exitCode = 1;
+                    return;
+                }
+
+                // Ask for confirmation unless --yes flag is used
+                if (!options.yes) {
+                    const { proceed } = await inquirer.prompt([{
+                        type: 'confirm',
+                        name: 'proceed',
+                        message: 'Do you want to create these files?',
+                        default: true
+                    }]);
+                    if (!proceed) {
+                        console.log('\nOperation cancelled. No files were created.');
+                        return;
+                    }
+                }
+
+                // Run schematic with parsed options
+                await runSchematic('adapter', schematicOptions, false, options.force, options.onConflict);
 
                 console.log(`\n\x1b[32m✅ Adapter '${toPascalCase(name)}${toPascalCase(options.type || 'repository')}Adapter' created successfully! 🔌\x1b[0m`);
             } catch (error: any) {
                 if (error && error.name === 'ExitPromptError') {
                     console.log('\n👋 Adapter creation cancelled! Time to implement another day! 🔧');
                     process.exit(0);
-                } else if (error && error.message && error.message.includes('already exist')) {
+                } else if (isFileConflictError(error)) {
                     // Handle file already exists error with a nicer message
-                    const filePath = error.message.match(/Path "([^"]+)"/)?.[1] || '';
+                    const filePath = error.message.match(/[Pp]ath "([^"]+)"/)?.[1] || '';
                     console.error('\n\x1b[33m⚠️  File conflict detected!\x1b[0m');
                     console.error(`\x1b[33mIt looks like a file or directory already exists: ${filePath}\x1b[0m`);
                     console.log('\n\x1b[36mSuggestions:\x1b[0m');
                     console.log('  • Try a different adapter name');
                     console.log('  • Use a different output path with -p option');
-                    console.log('  • Use --force option to overwrite existing files (coming soon)');
+                    console.log('  • Use --force to overwrite existing files');
+                    console.log('  • Use --on-conflict skip, rename or prompt to keep or compare them');
+                } else if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                    process.exit(1);
                 } else {
                     console.error('\n\x1b[31mError creating adapter:', (error as Error).message, '\x1b[0m');
                     process.exit(1);
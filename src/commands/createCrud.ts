@@ -0,0 +1,344 @@
+import { Command, Option } from 'commander';
+import inquirer from 'inquirer';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {
+  toCamelCase, toPascalCase, toDasherize, capitalizeFirstLetter, displayWithPagination, applyFilePatterns, applyFileNameCase, toImportPath
+} from '../utils/fileUtils';
+import { runSchematic, previewSchematic } from '../schematics-cli';
+import { findExistingDomains } from '../utils/domainUtils';
+import { loadConfig } from '../utils/configLoader';
+import { ConfigValidationError } from '../utils/configSchema';
+import { CONFLICT_STRATEGIES } from '../utils/conflicts';
+import { renderFilePreview, getConflicts, PlannedFile } from '../utils/filePreview';
+import { parseFieldSpec, ModelField } from '../utils/fieldSpec';
+
+type CrudOperation = 'list' | 'get' | 'create' | 'update' | 'delete';
+
+/**
+ * Handler generated for one CRUD operation
+ */
+interface CrudHandler {
+  operation: CrudOperation;
+  name: string;
+  handlerFilePath: string;
+  dtoFilePath: string;
+  createRequestDto: boolean;
+  createResponseDto: boolean;
+}
+
+/**
+ * Naive English plural, good enough for entity names (User -> Users, Category -> Categories)
+ */
+function toPlural(name: string): string {
+  if (/[^aeiou]y$/i.test(name)) return `${name.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/i.test(name)) return `${name}es`;
+  return `${name}s`;
+}
+
+/**
+ * Name of the handler (and of the service method it calls) for a CRUD operation
+ */
+function operationName(operation: CrudOperation, entityName: string, pluralName: string): string {
+  return operation === 'list' ? `list${pluralName}` : `${operation}${entityName}`;
+}
+
+/**
+ * REST route of a CRUD operation, written as the handler's @route annotation
+ */
+function operationRoute(operation: CrudOperation, pluralName: string): { method: string, path: string } {
+  const collection = `/${toDasherize(pluralName)}`;
+  switch (operation) {
+    case 'list': return { method: 'GET', path: collection };
+    case 'create': return { method: 'POST', path: collection };
+    case 'get': return { method: 'GET', path: `${collection}/{id}` };
+    case 'update': return { method: 'PUT', path: `${collection}/{id}` };
+    case 'delete': return { method: 'DELETE', path: `${collection}/{id}` };
+  }
+}
+
+export function createCrudCommand(): Command {
+    const command = new Command('create:crud')
+        .alias('cc')
+        .description('Generate list/get/create/update/delete handlers, service and repository port for an entity.')
+        .argument('<entity>', 'Entity name (e.g., User, Product)')
+        .option('-d, --domain <domainName>', 'Specify the domain name')
+        .option('-f, --fields <spec>', 'Entity fields, e.g. "id:uuid,email:string,age?:number"')
+        .option('--plural <name>', 'Plural entity name used by the list handler (default: {Entity}s)')
+        .option('--adapter-type <type>', 'Type of adapter to implement the port (repository, rest, graphql)', 'repository')
+        .option('-p, --path <outputPath>', 'Specify a custom base output path')
+        .option('-y, --yes', 'Skip prompts and use default options')
+        .option('--dry-run', 'Show the files that would be written without writing them')
+        .option('--force', 'Overwrite files that already exist')
+        .addOption(new Option('--on-conflict <strategy>', 'What to do with files that already exist').choices(CONFLICT_STRATEGIES))
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Generates the full REST handler set for an entity: list, get, create,
+  update and delete handlers with Zod request/response DTOs, a service
+  with one method per handler, a repository port and its adapter.
+  Each handler calls its own service method, on a service it gets from a
+  factory that wires it to the adapter.
+
+Structure Generated:
+  └── src/
+      ├── handlers/
+      │   ├── list-{entities}.handler.ts
+      │   ├── get-{entity}.handler.ts
+      │   ├── create-{entity}.handler.ts
+      │   ├── update-{entity}.handler.ts
+      │   ├── delete-{entity}.handler.ts
+      │   └── schemas/               # Request/response DTOs
+      ├── {domainName}/
+      │   ├── models/{Entity}.ts     # Reused when it already exists
+      │   ├── services/{Entity}Service.ts
+      │   └── ports/{Entity}{AdapterType}Port.ts
+      ├── config/{Entity}ServiceFactory.ts  # Creates the service with its adapter
+      └── infra/{adapterType}/{Entity}Adapter.ts
+
+Examples:
+  $ vss-api-cli create:crud User -d user
+  $ vss-api-cli create:crud User -d user --fields "id:uuid,email:email,age?:number"
+  $ vss-api-cli cc Category -d catalog --plural Categories -y
+  $ vss-api-cli create:crud User -d user --on-conflict skip -y
+
+Options:
+  -d, --domain <domainName>  Specify the domain name
+  -f, --fields <spec>        Entity fields used for the model and DTOs
+  --plural <name>            Plural entity name used by the list handler
+  --adapter-type <type>      Adapter type (repository, rest, graphql)
+  -p, --path <outputPath>    Specify a custom output path
+  -y, --yes                  Skip prompts and use default options
+  --dry-run                  Show the files that would be written without writing them
+  --force                    Overwrite files that already exist
+  --on-conflict <strategy>   What to do with existing files: skip, overwrite, rename or prompt
+  -h, --help                 Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (entity, options) => {
+            try {
+                let domainName = options.domain;
+                let proceed = options.yes;
+                const basePath = options.path || '.';
+                const adapterType: string = options.adapterType || 'repository';
+
+                if (adapterType === 'none') {
+                    console.error('\x1b[31mError: create:crud needs an adapter to wire the handlers; --adapter-type none is not supported.\x1b[0m');
+                    process.exitCode = 1;
+                    return;
+                }
+
+                // Validate the fields spec up front so a typo fails before any prompt
+                let fields: ModelField[] = [];
+                if (options.fields) {
+                    try {
+                        fields = parseFieldSpec(options.fields);
+                    } catch (error: any) {
+                        console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                        process.exitCode = 1;
+                        return;
+                    }
+                }
+
+                // Prompt for domain if not provided
+                if (!domainName) {
+                    const existingDomains = await findExistingDomains(basePath);
+                    const domainAnswer = existingDomains.length > 0
+                        ? await inquirer.prompt({
+                            type: 'list',
+                            name: 'domainName',
+                            message: 'Which domain does this entity belong to?',
+                            choices: existingDomains,
+                        })
+                        : await inquirer.prompt({
+                            type: 'input',
+                            name: 'domainName',
+                            message: 'Enter the domain name for this entity (e.g., user, order, product):',
+                            validate: (input: string) => input.trim() !== '' || 'Domain name cannot be empty.',
+                        });
+                    domainName = domainAnswer.domainName;
+                }
+
+                domainName = toCamelCase(domainName);
+                const entityName = toPascalCase(entity);
+                const pluralName = toPascalCase(options.plural || toPlural(entityName));
+                const serviceName = `${entityName}Service`;
+                const portName = `I${entityName}${capitalizeFirstLetter(adapterType)}Port`;
+                const adapterName = `${entityName}${capitalizeFirstLetter(adapterType)}Adapter`;
+
+                // Load config to get file pattern settings
+                const config = loadConfig(basePath);
+
+                // Resolve domain files through the same patterns create:domain uses
+                const dashName = toDasherize(entityName);
+                const domainVars = {
+                    name: entityName,
+                    pascalName: entityName,
+                    dashName,
+                    camelName: toCamelCase(entityName),
+                    snakeName: dashName.replace(/-/g, '_'),
+                    domainName,
+                    adapterType,
+                    serviceName
+                };
+                const modelFileInfo = applyFilePatterns('domain', 'modelFile', config, { ...domainVars }, basePath);
+                const serviceFileInfo = applyFilePatterns('domain', 'serviceFile', config, { ...domainVars, name: serviceName }, basePath);
+                const portFileInfo = applyFilePatterns('domain', 'portFile', config, { ...domainVars, name: portName }, basePath);
+                const adapterFileInfo = applyFilePatterns('adapter', 'adapterFile', config, { ...domainVars, name: adapterName }, basePath);
+                // The handlers get their service from a factory, so only the factory depends on the adapter
+                const factoryFileName = `${applyFileNameCase(`${serviceName}Factory`, config.fileNameCase || 'pascal')}.ts`;
+                const factoryFilePath = path.join(basePath, config.basePath, 'config', factoryFileName);
+
+                // Reuse an existing model; its constructor takes the DTO only if it was generated from fields
+                const modelExists = await fs.pathExists(modelFileInfo.filePath);
+                const mapRequestToModel = fields.length > 0 && (!modelExists
+                    || (await fs.readFile(modelFileInfo.filePath, 'utf8')).includes(`${entityName}Props`));
+                if (modelExists) {
+                    console.log(`\x1b[33mℹ️  Reusing existing model: ${modelFileInfo.filePath}\x1b[0m`);
+                }
+
+                // Resolve one handler (and its DTO file) per CRUD operation
+                const operations: CrudOperation[] = ['list', 'get', 'create', 'update', 'delete'];
+                const handlers: CrudHandler[] = operations.map(operation => {
+                    const name = operationName(operation, entityName, pluralName);
+                    const handlerDashName = toDasherize(name);
+                    const handlerVars = {
+                        name,
+                        pascalName: toPascalCase(name),
+                        dashName: handlerDashName,
+                        camelName: toCamelCase(name),
+                        domainName,
+                        serviceName
+                    };
+                    return {
+                        operation,
+                        name,
+                        handlerFilePath: applyFilePatterns('handler', 'handlerFile', config, { ...handlerVars }, basePath).filePath,
+                        dtoFilePath: applyFilePatterns('handler', 'dtoFile', config, { ...handlerVars }, basePath).filePath,
+                        createRequestDto: operation === 'create' || operation === 'update',
+                        createResponseDto: operation !== 'delete'
+                    };
+                });
+
+                // Model, service, port and adapter through the domain schematic
+                const domainOptions = {
+                    name: entityName,
+                    path: basePath,
+                    model: !modelExists,
+                    service: true,
+                    port: true,
+                    crud: true,
+                    pluralName,
+                    adapterType,
+                    modelFields: fields,
+                    _config: config,
+                    modelFilePath: modelFileInfo.filePath,
+                    serviceFilePath: serviceFileInfo.filePath,
+                    portFilePath: portFileInfo.filePath,
+                    adapterFilePath: adapterFileInfo.filePath,
+                    factoryFilePath
+                };
+
+                // One handler per operation, each wired to its service method
+                const handlerOptions = handlers.map(handler => ({
+                    name: handler.name,
+                    path: basePath,
+                    noValidation: true,
+                    fileNameCase: config.fileNameCase || 'pascal',
+                    _config: config,
+                    operation: handler.operation,
+                    route: operationRoute(handler.operation, pluralName),
+                    serviceName,
+                    serviceDomain: domainName,
+                    serviceMethod: handler.name,
+                    serviceImportPath: toImportPath(handler.handlerFilePath, serviceFileInfo.filePath),
+                    serviceFactoryImportPath: toImportPath(handler.handlerFilePath, factoryFilePath),
+                    modelName: entityName,
+                    modelImportPath: toImportPath(handler.handlerFilePath, modelFileInfo.filePath),
+                    mapRequestToModel,
+                    createRequestDto: handler.createRequestDto,
+                    createResponseDto: handler.createResponseDto,
+                    requestDtoFields: fields,
+                    responseDtoFields: fields,
+                    responseDtoIsList: handler.operation === 'list',
+                    dtoImportPath: toImportPath(handler.handlerFilePath, handler.dtoFilePath),
+                    handlerFilePath: handler.handlerFilePath,
+                    dtoFilePath: handler.dtoFilePath
+                }));
+
+                // Preview from a dry run of every schematic, so it shows exactly what will be written
+                const plannedFiles: PlannedFile[] = await previewSchematic('domain', domainOptions, options.force, options.onConflict);
+                for (const schematicOptions of handlerOptions) {
+                    plannedFiles.push(...await previewSchematic('handler', schematicOptions, options.force, options.onConflict));
+                }
+                await displayWithPagination(`\n🔹 Create CRUD handlers: ${entityName} for domain ${domainName}\n${renderFilePreview(plannedFiles, basePath)}`);
+
+                if (options.dryRun) {
+                    console.log('\x1b[36mDry run complete. No files were written.\x1b[0m');
+                    return;
+                }
+
+                // Refuse to overwrite anything but the model, unless a conflict strategy is given
+                if (getConflicts(plannedFiles).length > 0) {
+                    console.error('\n\x1b[31mError: Files already exist. No files were created.\x1b[0m');
+                    console.log('\n\x1b[36mSuggestions:\x1b[0m');
+                    console.log('  • Try a different entity name');
+                    console.log('  • Use a different output path with -p option');
+                    console.log('  • Use --force to overwrite existing files');
+                    console.log('  • Use --on-conflict skip, rename or prompt to keep or compare them');
+                    process.exitCode = 1;
+                    return;
+                }
+
+                // Ask for confirmation unless --yes flag is used
+                if (!options.yes) {
+                    const confirmAnswer = await inquirer.prompt([
+                        {
+                            type: 'confirm',
+                            name: 'proceed',
+                            message: 'Do you want to create these files?',
+                            default: true,
+                        }
+                    ]);
+                    proceed = confirmAnswer.proceed;
+                }
+
+                if (!proceed) {
+                    console.log('\nOperation cancelled. No files were created.');
+                    return;
+                }
+
+                try {
+                    console.log(`Generating ${entityName} service, port and adapter...`);
+                    await runSchematic('domain', domainOptions, false, options.force, options.onConflict);
+
+                    for (const [index, handler] of handlers.entries()) {
+                        console.log(`Generating handler ${toDasherize(handler.name)}...`);
+                        await runSchematic('handler', handlerOptions[index], false, options.force, options.onConflict);
+                    }
+
+                    console.log('\x1b[32m✅ CRUD handlers created successfully! 🚀\x1b[0m');
+                } catch (error: any) {
+                    console.error('Error generating CRUD handlers:', error);
+                }
+            } catch (error: any) {
+                if (error && error.name === 'ExitPromptError') {
+                    console.log('\n👋 Mission aborted! The user yeeted the command into the void. Farewell, brave keystroke warrior! 🫡💥');
+                    process.exit(0);
+                } else if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                    process.exit(1);
+                } else {
+                    console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
+                    process.exit(1);
+                }
+            }
+        });
+
+    return command;
+}
@@ -1,129 +1,12 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import inquirer from 'inquirer';
 import { toCamelCase, toPascalCase, toDasherize, capitalizeFirstLetter, displayWithPagination, applyFilePatterns } from '../utils/fileUtils';
-import { runSchematic } from '../schematics-cli';
+import { runSchematic, previewSchematic } from '../schematics-cli';
 import { loadConfig } from '../utils/configLoader';
-import * as path from 'path';
-
-/**
- * Generate a preview tree of files that will be created
- * @param options Domain options including name, path, and components to create
- * @returns A formatted string representing the file tree
- */
-function generateFilePreview(options: {
-  name: string;
-  path?: string;
-  model?: boolean;
-  service?: boolean;
-  port?: boolean;
-  modelName?: string;
-  serviceName?: string;
-  portName?: string;
-  adapterType?: string;
-  adapterName?: string;
-}): string {
-  const {
-    name,
-    path: out = '',
-    model = true,
-    service = true,
-    port = true,
-    modelName,
-    serviceName,
-    portName,
-    adapterType = 'repository',
-    adapterName,
-  } = options;
-  
-  // Setup domain name and config
-  const domainName = toCamelCase(name);
-  const pascalName = toPascalCase(name);
-  const dashName = toDasherize(name);
-  const config = loadConfig(out);
-  
-  // Final names based on provided custom names or defaults
-  const finalModelName = modelName || pascalName;
-  const finalServiceName = serviceName || `${pascalName}Service`;
-  const finalPortName = portName || `${pascalName}${capitalizeFirstLetter(adapterType)}Port`;
-  const finalAdapterName = adapterName || `${pascalName}${capitalizeFirstLetter(adapterType)}Adapter`;
-  
-  // Template variables for file pattern processing
-  const templateVars = {
-    name,
-    pascalName,
-    dashName,
-    camelName: domainName,
-    snakeName: dashName.replace(/-/g, '_'),
-    domainName,
-    adapterType,
-    serviceName: finalServiceName
-  };
-  
-  // Apply file patterns from config using our new utility
-  const modelFileInfo = model ? applyFilePatterns('domain', 'modelFile', config, {...templateVars, name: finalModelName}, out) : null;
-  const serviceFileInfo = service ? applyFilePatterns('domain', 'serviceFile', config, {...templateVars, name: finalServiceName}, out) : null;
-  const portFileInfo = port ? applyFilePatterns('domain', 'portFile', config, {...templateVars, name: finalPortName}, out) : null;
-  const adapterFileInfo = (port && adapterType !== 'none') ? 
-    applyFilePatterns('adapter', 'adapterFile', config, {...templateVars, name: finalAdapterName}, out) : null;
-  
-  // Extract paths for display
-  const srcPath = path.join(out || '.', config.basePath);
-  
-  // Start building preview output
-  let pv = `\n\x1b[1mFiles to be created:\x1b[0m\n`;
-  
-  // Show domain files
-  if (model || service || port) {
-    // Extract domain directory structure
-    const domainDirPath = path.dirname(model ? modelFileInfo!.filePath : service ? serviceFileInfo!.filePath : portFileInfo!.filePath)
-      .replace(srcPath + '/', '')
-      .split('/')[0]; // Get top level domain directory
-      
-    pv += `\x1b[36m${srcPath}/\x1b[0m\n`;
-    pv += `\x1b[36m├── ${domainDirPath}/\x1b[0m\n`;
-    
-    // Show model file
-    if (model && modelFileInfo) {
-      const modelDir = path.dirname(modelFileInfo.filePath).replace(srcPath + '/', '').split('/');
-      modelDir.shift(); // Remove domain name
-      pv += `\x1b[36m│   ├── ${modelDir.join('/')}/\x1b[0m\n`;
-      pv += `\x1b[32m│   │   └── ${modelFileInfo.fileName}\x1b[0m \x1b[90m- Domain model\x1b[0m\n`;
-    }
-    
-    // Show port file
-    if (port && portFileInfo) {
-      const portDir = path.dirname(portFileInfo.filePath).replace(srcPath + '/', '').split('/');
-      portDir.shift(); // Remove domain name
-      pv += `\x1b[36m│   ├── ${portDir.join('/')}/\x1b[0m\n`;
-      pv += `\x1b[32m│   │   └── ${portFileInfo.fileName}\x1b[0m \x1b[90m- Port interface\x1b[0m\n`;
-    }
-    
-    // Show service file
-    if (service && serviceFileInfo) {
-      const serviceDir = path.dirname(serviceFileInfo.filePath).replace(srcPath + '/', '').split('/');
-      serviceDir.shift(); // Remove domain name
-      pv += `\x1b[36m│   └── ${serviceDir.join('/')}/\x1b[0m\n`;
-      pv += `\x1b[32m│       └── ${serviceFileInfo.fileName}\x1b[0m \x1b[90m- Domain service implementation\x1b[0m\n`;
-    }
-  }
-  
-  // Show adapter implementation
-  if (port && adapterType !== 'none' && adapterFileInfo) {
-    const adapterDirParts = path.dirname(adapterFileInfo.filePath).replace(srcPath + '/', '').split('/');
-    
-    pv += `\x1b[36m└── ${adapterDirParts[0]}/\x1b[0m\n`;
-    if (adapterDirParts.length > 1) {
-      pv += `\x1b[36m    └── ${adapterDirParts[1]}/\x1b[0m\n`;
-      if (adapterDirParts.length > 2) {
-        const remainingDirs = adapterDirParts.slice(2).join('/');
-        pv += `\x1b[36m        └── ${remainingDirs}/\x1b[0m\n`;
-      }
-    }
-    pv += `\x1b[32m        └── ${adapterFileInfo.fileName}\x1b[0m \x1b[90m- Adapter implementation\x1b[0m\n`;
-  }
-  
-  return pv;
-}
+import { ConfigValidationError } from '../utils/configSchema';
+import { CONFLICT_STRATEGIES, isFileConflictError } from '../utils/conflicts';
+import { renderFilePreview, getConflicts } from '../utils/filePreview';
+import { parseFieldSpec, ModelField } from '../utils/fieldSpec';
 
 export function createDomainCommand(): Command {
     const command = new Command('create:domain')
@@ -144,6 +27,11 @@ export function createDomainCommand(): Command {
         .option('--service-name <name>', 'Custom name for the service')
         .option('--port-name <name>', 'Custom name for the port interface')
         .option('--adapter-name <name>', 'Custom name for the adapter implementation')
+        .option('--fields <spec>', 'Model fields, e.g. "id:uuid,email:string,age?:number,status:enum(active|blocked)"')
+        .option('--schema', 'Generate a Zod schema for the model fields')
+        .option('--dry-run', 'Show the files that would be written without writing them')
+        .option('--force', 'Overwrite files that already exist')
+        .addOption(new Option('--on-conflict <strategy>', 'What to do with files that already exist').choices(CONFLICT_STRATEGIES))
         .action(async (inputDomainName, cmdOptions) => {
             try { // Add top-level try block for the action
                 const camelName = toCamelCase(inputDomainName);
@@ -156,6 +44,18 @@ export function createDomainCommand(): Command {
                 
                 // Ensure cmdOptions.yes is explicitly set to true, not just truthy
                 const skipPrompts = cmdOptions.yes === true;
+
+                // Validate the fields spec up front so a typo fails before any prompt
+                let modelFields: ModelField[] = [];
+                if (cmdOptions.fields) {
+                    try {
+                        modelFields = parseFieldSpec(cmdOptions.fields);
+                    } catch (error: any) {
+                        console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                        process.exitCode = 1;
+                        return;
+                    }
+                }
                 
                 if (!skipPrompts) {
                     const nameConfirmation = await inquirer.prompt([
@@ -195,7 +95,9 @@ export function createDomainCommand(): Command {
                         modelName: cmdOptions.modelName,
                         serviceName: cmdOptions.serviceName,
                         portName: cmdOptions.portName,
-                        adapterName: cmdOptions.adapterName // Get adapterName from options
+                        adapterName: cmdOptions.adapterName, // Get adapterName from options
+                        fields: cmdOptions.fields,
+                        modelSchema: cmdOptions.schema === true
                     };
                     console.log('Using default options:');
                     console.log(`- Create model: ${answers.createModel ? 'Yes' : 'No'}`);
@@ -206,6 +108,8 @@ export function createDomainCommand(): Command {
                     if (answers.serviceName) console.log(`- Custom service name: ${answers.serviceName}`);
                     if (answers.portName) console.log(`- Custom port name: ${answers.portName}`);
                     if (answers.adapterName) console.log(`- Custom adapter name: ${answers.adapterName}`); // Log adapterName
+                    if (modelFields.length > 0) console.log(`- Model fields: ${modelFields.map(field => field.name).join(', ')}`);
+                    if (answers.modelSchema) console.log('- Generate Zod schema: Yes');
                 } else {
                     // Interactive mode with prompts
                     answers = await inquirer.prompt([
@@ -221,6 +125,28 @@ export function createDomainCommand(): Command {
                             message: () => `Enter a custom name for the model or leave empty to use ${toPascalCase(toCamelCase(finalDomainName))}:`,
                             when: (ans) => ans.createModel && !cmdOptions.modelName,
                         },
+                        {
+                            type: 'input',
+                            name: 'fields',
+                            message: 'Enter the model fields (e.g., id:uuid,email:string,age?:number) or leave empty to skip:',
+                            when: (ans) => ans.createModel && !cmdOptions.fields,
+                            validate: (input: string) => {
+                                if (!input.trim()) return true;
+                                try {
+                                    parseFieldSpec(input);
+                                    return true;
+                                } catch (error: any) {
+                                    return error.message;
+                                }
+                            }
+                        },
+                        {
+                            type: 'confirm',
+                            name: 'modelSchema',
+                            message: 'Generate a Zod schema for the model fields?',
+                            default: true,
+                            when: (ans) => ans.createModel && !!(ans.fields || cmdOptions.fields) && !cmdOptions.schema,
+                        },
                         {
                             type: 'confirm',
                             name: 'createService',
@@ -269,6 +195,8 @@ export function createDomainCommand(): Command {
                 if (cmdOptions.serviceName) answers.serviceName = cmdOptions.serviceName;
                 if (cmdOptions.portName) answers.portName = cmdOptions.portName;
                 if (cmdOptions.adapterName) answers.adapterName = cmdOptions.adapterName; // Apply adapterName from options
+                if (cmdOptions.schema) answers.modelSchema = true;
+                if (!cmdOptions.fields && answers.fields) modelFields = parseFieldSpec(answers.fields);
 
                 // Load configuration
                 const config = loadConfig(cmdOptions.path || '');
@@ -300,6 +228,8 @@ export function createDomainCommand(): Command {
                 const basePath = cmdOptions.path || '';
                 const modelFileInfo = answers.createModel ? 
                     applyFilePatterns('domain', 'modelFile', config, {...templateVars, name: finalModelName}, basePath) : null;
+                const modelSchemaFileInfo = (answers.createModel && answers.modelSchema && modelFields.length > 0) ?
+                    applyFilePatterns('domain', 'schemaFile', config, {...templateVars, name: finalModelName}, basePath) : null;
                 const serviceFileInfo = answers.createService ? 
                     applyFilePatterns('domain', 'serviceFile', config, {...templateVars, name: finalServiceName}, basePath) : null;
                 const portFileInfo = answers.createPort ? 
@@ -319,11 +249,14 @@ export function createDomainCommand(): Command {
                     serviceName: answers.serviceName || '',
                     portName: answers.portName || '',
                     adapterName: answers.adapterName || '', // Pass adapterName to schematic options
+                    modelFields,
+                    modelSchema: !!modelSchemaFileInfo,
                     
                     // Pass file paths to schematic
                     _config: config,
                     modelFilePath: modelFileInfo?.filePath,
                     modelFileName: modelFileInfo?.fileName,
+                    modelSchemaFilePath: modelSchemaFileInfo?.filePath,
                     serviceFilePath: serviceFileInfo?.filePath,
                     serviceFileName: serviceFileInfo?.fileName,
                     portFilePath: portFileInfo?.filePath,
@@ -332,9 +265,19 @@ export function createDomainCommand(): Command {
                     adapterFileName: adapterFileInfo?.fileName
                 };
 
-                // Generate and show file preview
-                const filePreview = generateFilePreview(schematicOptions);
-                await displayWithPagination(`\n🔹 Create a Domain: ${finalDomainName}\n${filePreview}`);
+                // Preview from a dry run of the schematic, so it shows exactly what will be written
+                const plannedFiles = await previewSchematic('domain', schematicOptions, cmdOptions.force, cmdOptions.onConflict);
+                await displayWithPagination(`\n🔹 Create a Domain: ${finalDomainName}\n${renderFilePreview(plannedFiles, cmdOptions.path || '.')}`);
+
+                if (cmdOptions.dryRun) {
+                    console.log('\x1b[36mDry run complete. No files were written.\x1b[0m');
+                    return;
+                }
+                if (getConflicts(plannedFiles).length > 0) {
+                    console.error('\n\x1b[31mError: Files already exist. No files were created.\x1b[0m');
+                    process.exitCode = 1;
+                    return;
+                }
 
                 // Ask for confirmation unless --yes flag is used
                 let proceed = skipPrompts;
@@ -354,10 +297,22 @@ export function createDomainCommand(): Command {
                 if (proceed) {
                     try {
                         console.log(`\nGenerating domain ${finalDomainName}...`);
-                        await runSchematic('domain', schematicOptions, cmdOptions.dryRun, cmdOptions.force); 
+                        await runSchematic('domain', schematicOptions, false, cmdOptions.force, cmdOptions.onConflict); 
                         console.log('\x1b[32m✅ Domain created successfully! 🎯\x1b[0m');
-                    } catch (error) {
-                        console.error('\x1b[31m✗\x1b[0m We tried. The domain said “nah.”:', error);
+                    } catch (error: any) {
+                        if (isFileConflictError(error)) {
+                            // Handle file already exists error with a nicer message
+                            const filePath = error.message.match(/[Pp]ath "([^"]+)"/)?.[1] || '';
+                            console.error('\n\x1b[33m⚠️  File conflict detected!\x1b[0m');
+                            console.error(`\x1b[33mIt looks like a file or directory already exists: ${filePath}\x1b[0m`);
+                            console.log('\n\x1b[36mSuggestions:\x1b[0m');
+                            console.log('  • Try a different domain name');
+                            console.log('  • Use a different output path with -p option');
+                            console.log('  • Use --force to overwrite existing files');
+                            console.log('  • Use --on-conflict skip, rename or prompt to keep or compare them');
+                        } else {
+                            console.error('\x1b[31m✗\x1b[0m We tried. The domain said “nah.”:', error);
+                        }
                     }
                 } else {
                     console.log('\nOperation cancelled. No files were created.');
@@ -368,6 +323,9 @@ export function createDomainCommand(): Command {
                 if (error && error.name === 'ExitPromptError') { 
                     console.log('\nMission aborted! The user yeeted the command into the void. Farewell, brave keystroke warrior! 🫡💥');
                     process.exit(0); // Exit gracefully
+                } else if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                    process.exit(1);
                 } else {
                     // For any other error, log it and exit with an error code
                     console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
@@ -1,89 +1,25 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import inquirer from 'inquirer';
-import { toPascalCase, toDasherize, displayWithPagination, applyFilePatterns } from '../utils/fileUtils';
+import { toPascalCase, toDasherize, displayWithPagination, applyFilePatterns, toImportPath } from '../utils/fileUtils';
 import { findExistingServices } from '../utils/domainUtils';
-import { runSchematic } from '../schematics-cli';
+import { runSchematic, previewSchematic } from '../schematics-cli';
 import { loadConfig } from '../utils/configLoader';
-import * as path from 'path';
+import { ConfigValidationError } from '../utils/configSchema';
+import { CONFLICT_STRATEGIES, isFileConflictError } from '../utils/conflicts';
+import { renderFilePreview, getConflicts } from '../utils/filePreview';
 
 /**
- * Generate a preview tree of files that will be created for a handler
+ * Event sources a handler can be generated for, with a short description for prompts
  */
-function generateFilePreview(options: {
-  name: string,
-  path?: string,
-  schema?: boolean,
-  createRequestDto?: boolean,
-  createResponseDto?: boolean,
-  serviceDomain?: string,
-  serviceName?: string
-}): string {
-  const { 
-    name, 
-    path: basePath = '.', 
-    schema, 
-    createRequestDto, 
-    createResponseDto, 
-    serviceDomain, 
-    serviceName 
-  } = options;
-  
-  // Load configuration
-  const config = loadConfig(basePath);
-  
-  // Generate template variables
-  const handlerName = toDasherize(name);
-  const pascalName = toPascalCase(name);
-  const previewBasePath = basePath === '.' ? '' : `${basePath}/`;
-  
-  // Template variables for path and filename processing
-  const templateVars = {
-    name,
-    pascalName,
-    dashName: handlerName,
-    camelName: handlerName.replace(/-([a-z])/g, (_, c) => c.toUpperCase()),
-    snakeName: handlerName.replace(/-/g, '_'),
-    domainName: serviceDomain || '',
-    serviceName: serviceName || ''
-  };
-  
-  // Get file paths using the utility function
-  const handlerFilePath = applyFilePatterns('handler', 'handlerFile', config, templateVars, basePath);
-  const schemaFilePath = applyFilePatterns('handler', 'schemaFile', config, templateVars, basePath);
-  const dtoFilePath = applyFilePatterns('handler', 'dtoFile', config, templateVars, basePath);
-  
-  // Extract directory paths for display
-  const srcPath = path.join(previewBasePath, config.basePath);
-  const handlerDir = path.dirname(handlerFilePath.filePath.replace(path.join(basePath, config.basePath) + '/', ''));
-  const schemaDir = path.dirname(dtoFilePath.filePath.replace(path.join(basePath, config.basePath) + '/', ''));
-  
-  // Generate preview text
-  let preview = `\n\x1b[1mFiles to be created:\x1b[0m\n`;
-  preview += `\x1b[36m${srcPath}/${handlerDir}/\x1b[0m\n`;
-  preview += `\x1b[32m├── ${handlerFilePath.fileName}\x1b[0m \x1b[90m- Handler function`;
-  
-  if (serviceDomain && serviceName) {
-    preview += ` (using ${serviceName} from ${serviceDomain})`;
-  }
-  preview += `\x1b[0m\n`;
-  
-  if (schema) {
-    preview += `\x1b[32m├── ${schemaFilePath.fileName}\x1b[0m \x1b[90m- JSON Schema validation\x1b[0m\n`;
-  }
-
-  if (createRequestDto || createResponseDto) {
-    preview += `\x1b[36m${srcPath}/${schemaDir}/\x1b[0m\n`;
-    preview += `\x1b[32m└── ${dtoFilePath.fileName}\x1b[0m \x1b[90m- Zod DTO schema`;
-    
-    const dtos = [];
-    if (createRequestDto) dtos.push('Request');
-    if (createResponseDto) dtos.push('Response');
-    
-    preview += ` (${dtos.join(' & ')})\x1b[0m\n`;
-  }
-  
-  return preview;
-}
+const HANDLER_TRIGGERS: Record<string, string> = {
+  http: 'API Gateway HTTP request',
+  sqs: 'SQS queue messages (with partial batch failure reporting)',
+  sns: 'SNS topic notifications',
+  eventbridge: 'EventBridge events',
+  s3: 'S3 object notifications',
+  'dynamodb-stream': 'DynamoDB stream records',
+  schedule: 'Scheduled (cron/rate) events'
+};
 
 export function createHandlerCommand(): Command {
     const command = new Command('create:handler')
@@ -91,11 +27,16 @@ export function createHandlerCommand(): Command {
         .description('Generate a new API handler.')
         .argument('<n>', 'Handler name (e.g., createUser, getProduct)')
         .option('-p, --path <outputPath>', 'Specify a custom base output path')
+        .option('-d, --domain <domainName>', 'Domain the handler belongs to, for handler directories that use {{domainName}}')
         .option('-s, --schema', 'Generate schema validation files')
+        .option('-t, --trigger <type>', `Event source that invokes the handler (${Object.keys(HANDLER_TRIGGERS).join(', ')})`)
         .option('--no-validation', 'Skip schema validation setup')
         .option('--request-dto', 'Generate request DTO schema with Zod')
         .option('--response-dto', 'Generate response DTO schema with Zod')
         .option('-y, --yes', 'Skip prompts and use default options')
+        .option('--dry-run', 'Show the files that would be written without writing them')
+        .option('--force', 'Overwrite files that already exist')
+        .addOption(new Option('--on-conflict <strategy>', 'What to do with files that already exist').choices(CONFLICT_STRATEGIES))
         .hook('preAction', async () => {
             // Show detailed help with pagination when --help is used
             if (process.argv.includes('--help')) {
@@ -105,6 +46,16 @@ Description:
   Includes optional request/response schema validation using Zod or JSON Schema,
   error handling, and proper TypeScript types.
 
+  Use --trigger for non-HTTP handlers. Each trigger gets its aws-lambda event
+  types and Middy middleware; the Zod message DTO validates every record.
+    http             APIGatewayProxyEvent, JSON body parser, HTTP error handler
+    sqs              SQSEvent, event normalizer, partial batch failure reporting
+    sns              SNSEvent, event normalizer
+    eventbridge      EventBridgeEvent, DTO validates event.detail
+    s3               S3Event, event normalizer
+    dynamodb-stream  DynamoDBStreamEvent, event normalizer (unmarshalled NewImage)
+    schedule         ScheduledEvent
+
 Structure Generated:
   \`\`\`
   src/
@@ -130,6 +81,11 @@ Examples:
   $ vss-api-cli create:handler updateOrder --schema
   $ vss-api-cli create:handler getProduct --path src/functions
   $ vss-api-cli ch deleteUser --no-validation
+  $ vss-api-cli create:handler processOrder --trigger sqs --request-dto -y
+  $ vss-api-cli create:handler nightlyCleanup --trigger schedule -y
+  $ vss-api-cli create:handler createOrder --domain order -y
+  $ vss-api-cli create:handler createUser --dry-run
+  $ vss-api-cli create:handler createUser --on-conflict prompt
 
 Additional Information:
   • Handlers are created with proper AWS Lambda types
@@ -138,11 +94,20 @@ Additional Information:
   • All generated code includes JSDoc documentation
   • Follows AWS Lambda best practices
   • Includes error handling patterns
+  • With handler directories that use {{domainName}}, such as those of
+    vss:feature-sliced, the domain comes from --domain or the chosen service
 
 Options:
   -p, --path <outputPath>     Specify a custom output path for the handler
+  -d, --domain <domainName>   Domain of the handler; only its services are offered
   -s, --schema               Generate JSON schema validation files
   --no-validation           Skip schema validation setup
+  -t, --trigger <type>      Event source (http, sqs, sns, eventbridge, s3, dynamodb-stream, schedule)
+  --request-dto             Generate the request DTO (the message DTO for event triggers)
+  --response-dto            Generate the response DTO (HTTP handlers only)
+  --dry-run                 Show the files that would be written without writing them
+  --force                   Overwrite files that already exist
+  --on-conflict <strategy>  What to do with existing files: skip, overwrite, rename or prompt
   -h, --help                Display this help message
 `;
                 await displayWithPagination(helpContent);
@@ -154,16 +119,38 @@ Options:
                 const basePath = options.path || '.'; // Get base path or default
                 let proceed = options.yes;
                 const schemaRequested = options.schema && !options.noValidation;
+                let trigger: string | undefined = options.trigger;
+
+                if (trigger && !HANDLER_TRIGGERS[trigger]) {
+                    console.error(`\x1b[31mError: Unknown trigger "${trigger}". Supported triggers: ${Object.keys(HANDLER_TRIGGERS).join(', ')}\x1b[0m`);
+                    process.exitCode = 1;
+                    return;
+                }
 
                 // Initialize service and DTO options
-                let selectedService: { domain: string; service: string; name: string } | null = null;
-                let createRequestDto = false;
-                let createResponseDto = false;
+                let selectedService: { domain: string; service: string; name: string; filePath: string } | null = null;
+                let createRequestDto = !!options.requestDto;
+                let createResponseDto = !!options.responseDto;
 
                 // Only ask for these options in interactive mode
                 if (!options.yes) {
-                    // Find existing services
-                    const services = await findExistingServices(basePath);
+                    // Ask which event source invokes the handler
+                    if (!trigger) {
+                        const triggerAnswer = await inquirer.prompt([
+                            {
+                                type: 'list',
+                                name: 'trigger',
+                                message: 'What triggers this handler?',
+                                choices: Object.entries(HANDLER_TRIGGERS).map(([value, name]) => ({ name: `${value} - ${name}`, value })),
+                                default: 'http'
+                            }
+                        ]);
+                        trigger = triggerAnswer.trigger;
+                    }
+
+                    // Find existing services, of the given domain only when there is one
+                    const services = (await findExistingServices(basePath))
+                        .filter(s => !options.domain || s.domain === options.domain);
                     
                     // Ask user to select a service if any found
                     if (services.length > 0) {
@@ -189,24 +176,50 @@ Options:
                     }
                     
                     // Ask about Zod DTO schemas
-                    const dtoAnswer = await inquirer.prompt([
-                        {
-                            type: 'checkbox',
-                            name: 'dtos',
-                            message: 'Would you like to create Zod schema DTOs?',
-                            choices: [
-                                { name: 'Request DTO', value: 'request', checked: false },
-                                { name: 'Response DTO', value: 'response', checked: false }
-                            ]
-                        }
-                    ]);
-                    
-                    createRequestDto = dtoAnswer.dtos.includes('request');
-                    createResponseDto = dtoAnswer.dtos.includes('response');
+                    if (trigger && trigger !== 'http') {
+                        // Event handlers validate each message or record payload with one DTO
+                        const messageDtoAnswer = await inquirer.prompt([
+                            {
+                                type: 'confirm',
+                                name: 'messageDto',
+                                message: 'Would you like to create a Zod DTO for each message payload?',
+                                default: createRequestDto || trigger !== 'schedule'
+                            }
+                        ]);
+                        createRequestDto = messageDtoAnswer.messageDto;
+                    } else {
+                        const dtoAnswer = await inquirer.prompt([
+                            {
+                                type: 'checkbox',
+                                name: 'dtos',
+                                message: 'Would you like to create Zod schema DTOs?',
+                                choices: [
+                                    { name: 'Request DTO', value: 'request', checked: createRequestDto },
+                                    { name: 'Response DTO', value: 'response', checked: createResponseDto }
+                                ]
+                            }
+                        ]);
+
+                        createRequestDto = dtoAnswer.dtos.includes('request');
+                        createResponseDto = dtoAnswer.dtos.includes('response');
+                    }
+                }
+
+                // Event handlers return no HTTP response, so they never get a response DTO
+                if (trigger && trigger !== 'http') {
+                    createResponseDto = false;
                 }
 
                 // Load config to get fileNameCase and file pattern settings
                 const config = loadConfig(basePath);
+
+                const domainName: string = options.domain || selectedService?.domain || '';
+                const handlerDirectories = Object.values(config.directories.handler || {});
+                if (!domainName && handlerDirectories.some(directory => directory.includes('{{domainName}}'))) {
+                    console.error('\x1b[31mError: The handler directories of the config are per domain. Pass the domain with --domain, or choose a service of it.\x1b[0m');
+                    process.exitCode = 1;
+                    return;
+                }
                 
                 // Generate template variables for the schematic
                 const handlerName = toDasherize(name);
@@ -216,7 +229,7 @@ Options:
                     pascalName,
                     dashName: handlerName,
                     camelName: handlerName.replace(/-([a-z])/g, (_, c) => c.toUpperCase()),
-                    domainName: selectedService?.domain || '',
+                    domainName,
                     serviceName: selectedService?.service || ''
                 };
                 
@@ -233,6 +246,8 @@ Options:
                     noValidation: !schemaRequested,
                     serviceDomain: selectedService?.domain || null,
                     serviceName: selectedService?.service || null,
+                    serviceImportPath: selectedService ? toImportPath(handlerFilePath.filePath, selectedService.filePath) : null,
+                    trigger: trigger || 'http',
                     createRequestDto: createRequestDto,
                     createResponseDto: createResponseDto,
                     fileNameCase: config.fileNameCase || 'pascal',
@@ -244,20 +259,23 @@ Options:
                     schemaFilePath: schemaFilePath.filePath,
                     schemaFileName: schemaFilePath.fileName,
                     dtoFilePath: dtoFilePath.filePath,
-                    dtoFileName: dtoFilePath.fileName
+                    dtoFileName: dtoFilePath.fileName,
+                    dtoImportPath: toImportPath(handlerFilePath.filePath, dtoFilePath.filePath)
                 };
 
-                // Generate and show file preview
-                const filePreview = generateFilePreview({
-                    name: name,
-                    path: basePath,
-                    schema: schemaRequested,
-                    createRequestDto,
-                    createResponseDto,
-                    serviceDomain: selectedService?.domain,
-                    serviceName: selectedService?.service
-                });
-                await displayWithPagination(`\n🔹 Create a Handler: ${toDasherize(name)}\n${filePreview}`);
+                // Preview from a dry run of the schematic, so it shows exactly what will be written
+                const plannedFiles = await previewSchematic('handler', schematicOptions, options.force, options.onConflict);
+                await displayWithPagination(`\n🔹 Create a Handler: ${toDasherize(name)}${trigger && trigger !== 'http' ? ` (${trigger})` : ''}\n${renderFilePreview(plannedFiles, basePath)}`);
+
+                if (options.dryRun) {
+                    console.log('\x1b[36mDry run complete. No files were written.\x1b[0m');
+                    return;
+                }
+                if (getConflicts(plannedFiles).length > 0) {
+                    console.error('\n\x1b[31mError: Files already exist. No files were created.\x1b[0m');
+                    process.exitCode = 1;
+                    return;
+                }
 
                 // Ask for confirmation unless --yes flag is used
                 if (!options.yes) {
@@ -276,18 +294,19 @@ Options:
                 if (proceed) {
                     try {
                         console.log(`Generating handler ${toDasherize(name)}...`);
-                        await runSchematic('handler', schematicOptions);
+                        await runSchematic('handler', schematicOptions, false, options.force, options.onConflict);
                         console.log('\x1b[32m✅ Handler created successfully! 🚀\x1b[0m');
                     } catch (error: any) {
-                        if (error && error.message && error.message.includes('already exist')) {
+                        if (isFileConflictError(error)) {
                             // Handle file already exists error with a nicer message
-                            const filePath = error.message.match(/Path \"([^\"]+)\"/)?.[1] || '';
+                            const filePath = error.message.match(/[Pp]ath "([^"]+)"/)?.[1] || '';
                             console.error('\n\x1b[33m⚠️  File conflict detected!\x1b[0m');
                             console.error(`\x1b[33mIt looks like a file or directory already exists: ${filePath}\x1b[0m`);
                             console.log('\n\x1b[36mSuggestions:\x1b[0m');
                             console.log('  • Try a different handler name');
                             console.log('  • Use a different output path with -p option');
-                            console.log('  • Use --force option to overwrite existing files (coming soon)');
+                            console.log('  • Use --force to overwrite existing files');
+                            console.log('  • Use --on-conflict skip, rename or prompt to keep or compare them');
                         } else {
                             console.error('Error generating handler:', error);
                         }
@@ -299,6 +318,9 @@ Options:
                 if (error && error.name === 'ExitPromptError') {
                     console.log('\n👋 Mission aborted! The user yeeted the command into the void. Farewell, brave keystroke warrior! 🫡💥');
                     process.exit(0);
+                } else if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                    process.exit(1);
                 } else {
                     console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
                     process.exit(1);
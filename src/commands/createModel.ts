@@ -0,0 +1,239 @@
+import { Command, Option } from 'commander';
+import inquirer from 'inquirer';
+import { toCamelCase, toPascalCase, toDasherize, displayWithPagination, applyFilePatterns } from '../utils/fileUtils';
+import { runSchematic, previewSchematic } from '../schematics-cli';
+import { findExistingDomains } from '../utils/domainUtils';
+import { loadConfig } from '../utils/configLoader';
+import { ConfigValidationError } from '../utils/configSchema';
+import { CONFLICT_STRATEGIES, isFileConflictError } from '../utils/conflicts';
+import { renderFilePreview, getConflicts } from '../utils/filePreview';
+import { parseFieldSpec, ModelField, SUPPORTED_FIELD_TYPES } from '../utils/fieldSpec';
+
+export function createModelCommand(): Command {
+    const command = new Command('create:model')
+        .alias('cm')
+        .description('Generate a domain model with typed fields and an optional Zod schema.')
+        .argument('<name>', 'Model name (e.g., User, OrderLine)')
+        .option('-d, --domain <domainName>', 'Specify the domain name')
+        .option('-f, --fields <spec>', 'Model fields, e.g. "id:uuid,email:string,age?:number,status:enum(active|blocked)"')
+        .option('-s, --schema', 'Generate a Zod schema for the model fields')
+        .option('-p, --path <outputPath>', 'Specify a custom base output path')
+        .option('-y, --yes', 'Skip prompts and use default options')
+        .option('--dry-run', 'Show the files that would be written without writing them')
+        .option('--force', 'Overwrite files that already exist')
+        .addOption(new Option('--on-conflict <strategy>', 'What to do with files that already exist').choices(CONFLICT_STRATEGIES))
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Generates a domain model whose readonly properties and constructor are
+  built from a fields spec, plus an optional <Model>Schema Zod validator
+  in the same domain.
+
+Structure Generated:
+  └── src/
+      └── {domainName}/
+          ├── models/
+          │   └── {Name}.ts            # Model class and {Name}Props
+          └── schemas/
+              └── {Name}Schema.ts      # Zod schema (with --schema)
+
+Fields Spec:
+  Comma-separated name:type pairs. Add ? after the name for optional fields
+  and [] after the type for arrays.
+  Types: ${SUPPORTED_FIELD_TYPES.join(', ')}
+
+Examples:
+  $ vss-api-cli create:model User -d user --fields "id:uuid,email:email,age?:number"
+  $ vss-api-cli create:model User -d user --fields "id:uuid,status:enum(active|blocked)" --schema
+  $ vss-api-cli cm OrderLine -d order -f "sku:string,quantity:int,tags?:string[]" -s
+  $ vss-api-cli create:model User -d user --fields "id:uuid,email:email" --on-conflict prompt
+
+Options:
+  -d, --domain <domainName>  Specify the domain name
+  -f, --fields <spec>        Model fields
+  -s, --schema               Generate a Zod schema for the model fields
+  -p, --path <outputPath>    Specify a custom output path
+  -y, --yes                  Skip prompts and use default options
+  --dry-run                  Show the files that would be written without writing them
+  --force                    Overwrite files that already exist
+  --on-conflict <strategy>   What to do with existing files: skip, overwrite, rename or prompt
+  -h, --help                 Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (name, options) => {
+            try {
+                let domainName = options.domain;
+                let fieldSpec: string | undefined = options.fields;
+                let generateSchema = options.schema === true;
+                let proceed = options.yes;
+                const basePath = options.path || '.';
+
+                // Validate the fields spec up front so a typo fails before any prompt
+                let fields: ModelField[] = [];
+                if (fieldSpec) {
+                    try {
+                        fields = parseFieldSpec(fieldSpec);
+                    } catch (error: any) {
+                        console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                        process.exitCode = 1;
+                        return;
+                    }
+                }
+
+                // Prompt for domain if not provided
+                if (!domainName) {
+                    const existingDomains = await findExistingDomains(basePath);
+                    const domainAnswer = existingDomains.length > 0
+                        ? await inquirer.prompt({
+                            type: 'list',
+                            name: 'domainName',
+                            message: 'Which domain does this model belong to?',
+                            choices: existingDomains,
+                        })
+                        : await inquirer.prompt({
+                            type: 'input',
+                            name: 'domainName',
+                            message: 'Enter the domain name for this model (e.g., user, order, product):',
+                            validate: (input: string) => input.trim() !== '' || 'Domain name cannot be empty.',
+                        });
+                    domainName = domainAnswer.domainName;
+                }
+
+                // Prompt for fields and schema unless given or --yes is used
+                if (!fieldSpec && !options.yes) {
+                    const fieldAnswers = await inquirer.prompt([
+                        {
+                            type: 'input',
+                            name: 'fields',
+                            message: 'Enter the model fields (e.g., id:uuid,email:string,age?:number) or leave empty to skip:',
+                            validate: (input: string) => {
+                                if (!input.trim()) return true;
+                                try {
+                                    parseFieldSpec(input);
+                                    return true;
+                                } catch (error: any) {
+                                    return error.message;
+                                }
+                            }
+                        },
+                        {
+                            type: 'confirm',
+                            name: 'schema',
+                            message: 'Generate a Zod schema for the model fields?',
+                            default: true,
+                            when: (ans) => !!ans.fields.trim() && !generateSchema,
+                        }
+                    ]);
+                    fieldSpec = fieldAnswers.fields.trim() || undefined;
+                    if (fieldSpec) fields = parseFieldSpec(fieldSpec);
+                    if (fieldAnswers.schema) generateSchema = true;
+                }
+
+                if (generateSchema && fields.length === 0) {
+                    console.warn('\x1b[33m⚠️  --schema needs --fields; skipping the Zod schema.\x1b[0m');
+                    generateSchema = false;
+                }
+
+                domainName = toCamelCase(domainName);
+                const modelName = toPascalCase(name);
+
+                // Load config to get file pattern settings
+                const config = loadConfig(basePath);
+
+                // Template variables for file pattern processing
+                const dashName = toDasherize(name);
+                const templateVars = {
+                    name,
+                    pascalName: modelName,
+                    dashName,
+                    camelName: toCamelCase(name),
+                    domainName
+                };
+
+                // Apply file patterns to get the model and schema file paths
+                const modelFileInfo = applyFilePatterns('domain', 'modelFile', config, { ...templateVars }, basePath);
+                const schemaFileInfo = generateSchema
+                    ? applyFilePatterns('domain', 'schemaFile', config, { ...templateVars }, basePath)
+                    : null;
+
+                const schematicOptions = {
+                    name: modelName,
+                    domain: domainName,
+                    path: basePath,
+                    modelFields: fields,
+                    modelSchema: generateSchema,
+                    _config: config,
+                    modelFilePath: modelFileInfo.filePath,
+                    modelSchemaFilePath: schemaFileInfo?.filePath
+                };
+
+                // Preview from a dry run of the schematic, so it shows exactly what will be written
+                const plannedFiles = await previewSchematic('model', schematicOptions, options.force, options.onConflict);
+                await displayWithPagination(`\n🔹 Create a Model: ${modelName} for domain ${domainName}\n${renderFilePreview(plannedFiles, basePath)}`);
+
+                if (options.dryRun) {
+                    console.log('\x1b[36mDry run complete. No files were written.\x1b[0m');
+                    return;
+                }
+                if (getConflicts(plannedFiles).length > 0) {
+                    console.error('\n\x1b[31mError: Files already exist. No files were created.\x1b[0m');
+                    process.exitCode = 1;
+                    return;
+                }
+
+                // Ask for confirmation unless --yes flag is used
+                if (!options.yes) {
+                    const confirmAnswer = await inquirer.prompt([
+                        {
+                            type: 'confirm',
+                            name: 'proceed',
+                            message: 'Do you want to create these files?',
+                            default: true,
+                        }
+                    ]);
+                    proceed = confirmAnswer.proceed;
+                }
+
+                if (proceed) {
+                    try {
+                        console.log(`Generating model ${modelName}...`);
+                        await runSchematic('model', schematicOptions, false, options.force, options.onConflict);
+                        console.log('\x1b[32m✅ Model created successfully! 🧩\x1b[0m');
+                    } catch (error: any) {
+                        if (isFileConflictError(error)) {
+                            const filePath = error.message.match(/[Pp]ath "([^"]+)"/)?.[1] || '';
+                            console.error('\n\x1b[33m⚠️  File conflict detected!\x1b[0m');
+                            console.error(`\x1b[33mIt looks like a file or directory already exists: ${filePath}\x1b[0m`);
+                            console.log('\n\x1b[36mSuggestions:\x1b[0m');
+                            console.log('  • Try a different model name');
+                            console.log('  • Use a different output path with -p option');
+                            console.log('  • Use --force to overwrite existing files');
+                            console.log('  • Use --on-conflict skip, rename or prompt to keep or compare them');
+                        } else {
+                            console.error('Error generating model:', error);
+                        }
+                    }
+                } else {
+                    console.log('\nOperation cancelled. No files were created.');
+                }
+            } catch (error: any) {
+                if (error && error.name === 'ExitPromptError') {
+                    console.log('\n👋 Mission aborted! The user yeeted the command into the void. Farewell, brave keystroke warrior! 🫡💥');
+                    process.exit(0);
+                } else if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                    process.exit(1);
+                } else {
+                    console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
+                    process.exit(1);
+                }
+            }
+        });
+
+    return command;
+}
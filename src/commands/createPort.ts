@@ -1,73 +1,22 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import inquirer from 'inquirer';
 import * as path from 'path';
-import * as fs from 'fs-extra';
 import { toCamelCase, toPascalCase, toDasherize, displayWithPagination, applyFilePatterns } from '../utils/fileUtils';
-import { runSchematic } from '../schematics-cli';
-import { createDomainInteractively } from '../utils/domainUtils';
+import { runSchematic, previewSchematic } from '../schematics-cli';
+import { createDomainInteractively, findExistingDomains } from '../utils/domainUtils';
 import { loadConfig } from '../utils/configLoader';
-
-// Helper function to find existing domains
-async function findExistingDomains(): Promise<string[]> {
-    const srcDir = path.join(process.cwd(), 'src');
-    try {
-        const entries = await fs.readdir(srcDir, { withFileTypes: true });
-        return entries
-            .filter(dirent => dirent.isDirectory() && !['handlers', 'infra', 'config', 'shared', 'templates', 'commands', 'utils'].includes(dirent.name))
-            .map(dirent => dirent.name);
-    } catch (error) {
-        console.warn('Could not automatically find existing domains.');
-        return [];
-    }
-}
+import { ConfigValidationError } from '../utils/configSchema';
+import { CONFLICT_STRATEGIES, isFileConflictError } from '../utils/conflicts';
+import { renderFilePreview, getConflicts } from '../utils/filePreview';
+import {
+  parseMethodSignature, findExportedTypes, renderTypeImports, toAdapterMethodStubs, ParsedMethodSignature
+} from '../utils/portParser';
 
 // Helper function to ensure suffix (copied from schematic for consistency)
 function ensureSuffix(name: string, suffix: string): string {
   return name.endsWith(suffix) ? name : name + suffix;
 }
 
-/**
- * Generate a preview tree of files that will be created for a port
- */
-function generateFilePreview(options: {
-  name: string, // Raw name like PaymentsV3
-  domain: string,
-  path?: string,
-  adapterType: string,
-  portInterfaceName?: string // Optional custom name
-}): string {
-  const { name: rawName, domain, path: outputPath = '', adapterType, portInterfaceName: customPortName } = options;
-  
-  // Determine final port name (ensure suffix, NO adapter type)
-  let finalPortName: string;
-  if (customPortName) {
-    finalPortName = ensureSuffix(toPascalCase(customPortName), 'Port');
-  } else {
-    finalPortName = `${toPascalCase(rawName)}Port`; // Default naming: <Name>Port
-  }
-
-  // Determine final adapter name (include type)
-  const finalAdapterName = `${toPascalCase(rawName)}${toPascalCase(adapterType)}Adapter`;
-
-  const domainName = toCamelCase(domain);
-  const basePath = outputPath ? `${outputPath}/` : '';
-  
-  let preview = `\n\x1b[1mFiles to be created:\x1b[0m\n`;
-  preview += `\x1b[36m${basePath}src/\x1b[0m\n`;
-  
-  // Port interface
-  preview += `\x1b[36m├── ${domainName}/ports/\x1b[0m\n`;
-  preview += `\x1b[32m│   └── ${finalPortName}.ts\x1b[0m \x1b[90m- Port interface\x1b[0m\n`;
-  
-  // Adapter implementation
-  if (adapterType !== 'none') { // Assuming 'none' might be an option later
-    preview += `\x1b[36m└── infra/${adapterType}/\x1b[0m\n`;
-    preview += `\x1b[32m    └── ${finalAdapterName}.ts\x1b[0m \x1b[90m- Adapter implementation\x1b[0m\n`;
-  }
-  
-  return preview;
-}
-
 // Helper function to create a new domain and return its name
 async function createNewDomain(options: { portName: string, path?: string }): Promise<string | null> {
   try {
@@ -106,6 +55,43 @@ async function createNewDomain(options: { portName: string, path?: string }): Pr
   }
 }
 
+// Collect repeated --method options into an array
+function collectMethod(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Helper function to ask for port methods one at a time until an empty answer
+async function promptForMethods(): Promise<string[]> {
+  const methods: string[] = [];
+  console.log('\n\x1b[36mDefine the port methods, e.g. findByEmail(email: string): Promise<User | null>\x1b[0m');
+  
+  while (true) {
+    const { signature } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'signature',
+        message: methods.length === 0
+          ? 'Method signature (leave empty to use the default find/save/delete methods):'
+          : 'Another method signature (leave empty to finish):',
+        validate: (input: string) => {
+          if (!input.trim()) return true;
+          try {
+            parseMethodSignature(input);
+            return true;
+          } catch (error) {
+            return (error as Error).message;
+          }
+        }
+      }
+    ]);
+    
+    if (!signature.trim()) {
+      return methods;
+    }
+    methods.push(signature.trim());
+  }
+}
+
 export function createPortCommand(): Command {
     const command = new Command('create:port')
         .alias('cp')
@@ -120,7 +106,11 @@ export function createPortCommand(): Command {
         .option('--adapterType <type>', 'Alias for --adapter-type')
         // Output path
         .option('-p, --path <outputPath>', 'Specify a custom output path')
+        .option('-m, --method <signature>', 'Port method signature, repeatable (e.g., "findByEmail(email: string): Promise<User | null>")', collectMethod, [])
         .option('-y, --yes', 'Skip prompts and use default options')
+        .option('--dry-run', 'Show the files that would be written without writing them')
+        .option('--force', 'Overwrite files that already exist')
+        .addOption(new Option('--on-conflict <strategy>', 'What to do with files that already exist').choices(CONFLICT_STRATEGIES))
         .hook('preAction', async () => {
             // Show detailed help with pagination when --help is used
             if (process.argv.includes('--help')) {
@@ -154,6 +144,10 @@ Examples:
   $ vss-api-cli create:port ProductCatalog -d product -a ElasticSearchProductCatalog
   $ vss-api-cli create:port InventoryTracker -d inventory -a RedisInventoryTracker
   $ vss-api-cli create:port FileStorage -d document -a S3FileStorage
+  $ vss-api-cli create:port UserRepository -d user \\
+      --method "findByEmail(email: string): Promise<User | null>" \\
+      --method "save(user: User): Promise<void>"
+  $ vss-api-cli create:port UserRepository -d user --dry-run
 
 Port Naming Patterns:
   • Repository: UserRepository, ProductRepository, OrderRepository
@@ -182,7 +176,11 @@ Options:
   -d, --domain <domainName>    Specify the domain name
   -a, --adapter <adapterName>  Specify the adapter name
   -p, --path <outputPath>      Specify a custom output path
+  -m, --method <signature>     Port method signature (repeat for several methods)
   -y, --yes                    Skip prompts and use default options
+  --dry-run                    Show the files that would be written without writing them
+  --force                      Overwrite files that already exist
+  --on-conflict <strategy>     What to do with existing files: skip, overwrite, rename or prompt
   -h, --help                   Display this help message
 `;
                 await displayWithPagination(helpContent);
@@ -307,6 +305,35 @@ Options:
                     }, basePath);
                 }
                 
+                // Collect the port methods from --method options or interactively
+                let methodSignatures: string[] = options.method || [];
+                if (methodSignatures.length === 0 && !options.yes) {
+                    methodSignatures = await promptForMethods();
+                }
+                
+                let parsedMethods: ParsedMethodSignature[];
+                try {
+                    parsedMethods = methodSignatures.map(signature => parseMethodSignature(signature));
+                } catch (error) {
+                    console.error(`\x1b[31m${(error as Error).message}\x1b[0m`);
+                    process.exitCode = 1;
+                    return;
+                }
+                
+                // Import any domain model the signatures mention
+                const absolutePortFile = path.resolve(process.cwd(), portFileInfo.filePath);
+                const modelsDir = path.dirname(applyFilePatterns('domain', 'modelFile', config, { ...templateVars }, basePath).filePath);
+                const referencedTypes = new Set(parsedMethods.flatMap(parsed => parsed.referencedTypes));
+                const modelReferences = findExportedTypes(path.resolve(process.cwd(), modelsDir))
+                    .filter(reference => referencedTypes.has(reference.localName));
+                const portReference = {
+                    localName: finalPortName,
+                    kind: 'named' as const,
+                    importedName: finalPortName,
+                    module: absolutePortFile.replace(/\.ts$/, ''),
+                    isRelative: true
+                };
+                
                 // Generate options for the schematic (pass custom name if provided)
                 const schematicOptions = {
                     name: portName, // Use the raw name for schematic logic
@@ -321,12 +348,30 @@ Options:
                     portFilePath: portFileInfo.filePath,
                     portFileName: portFileInfo.fileName,
                     adapterFilePath: adapterFileInfo?.filePath,
-                    adapterFileName: adapterFileInfo?.fileName
+                    adapterFileName: adapterFileInfo?.fileName,
+                    
+                    // Methods and imports for the port and its adapter
+                    portMethods: parsedMethods.map(parsed => parsed.method.signature),
+                    portImports: renderTypeImports(modelReferences, absolutePortFile),
+                    adapterMethods: toAdapterMethodStubs(parsedMethods.map(parsed => parsed.method)),
+                    adapterImports: adapterFileInfo
+                        ? renderTypeImports([portReference, ...modelReferences], path.resolve(process.cwd(), adapterFileInfo.filePath))
+                        : []
                 };
 
-                // Generate and show file preview with pagination using the same options
-                const filePreview = generateFilePreview(schematicOptions);
-                await displayWithPagination(`\n🔹 Create a Port: ${portName}Port for domain ${domainName}\n${filePreview}`);
+                // Preview from a dry run of the schematic, so it shows exactly what will be written
+                const plannedFiles = await previewSchematic('port', schematicOptions, options.force, options.onConflict);
+                await displayWithPagination(`\n🔹 Create a Port: ${portName}Port for domain ${domainName}\n${renderFilePreview(plannedFiles, basePath)}`);
+
+                if (options.dryRun) {
+                    console.log('\x1b[36mDry run complete. No files were written.\x1b[0m');
+                    return;
+                }
+                if (getConflicts(plannedFiles).length > 0) {
+                    console.error('\n\x1b[31mError: Files already exist. No files were created.\x1b[0m');
+                    process.exitCode = 1;
+                    return;
+                }
 
                 // Ask for confirmation unless --yes flag is used
                 if (!options.yes) {
@@ -345,18 +390,19 @@ Options:
                 if (proceed) {
                     try {
                         console.log(`Generating port ${name}...`);
-                        await runSchematic('port', schematicOptions);
+                        await runSchematic('port', schematicOptions, false, options.force, options.onConflict);
                         console.log('\x1b[32m✅ Port created successfully! 🔗\x1b[0m');
                     } catch (error: any) {
-                        if (error && error.message && error.message.includes('already exist')) {
+                        if (isFileConflictError(error)) {
                             // Handle file already exists error with a nicer message
-                            const filePath = error.message.match(/Path \"([^\"]+)\"/)?.[1] || '';
+                            const filePath = error.message.match(/[Pp]ath "([^"]+)"/)?.[1] || '';
                             console.error('\n\x1b[33m⚠️  File conflict detected!\x1b[0m');
                             console.error(`\x1b[33mIt looks like a file or directory already exists: ${filePath}\x1b[0m`);
                             console.log('\n\x1b[36mSuggestions:\x1b[0m');
                             console.log('  • Try a different port name');
                             console.log('  • Use a different output path with -p option');
-                            console.log('  • Use --force option to overwrite existing files (coming soon)');
+                            console.log('  • Use --force to overwrite existing files');
+                            console.log('  • Use --on-conflict skip, rename or prompt to keep or compare them');
                         } else {
                             console.error('Error generating port:', error);
                         }
@@ -368,15 +414,19 @@ Options:
                 if (error && error.name === 'ExitPromptError') {
                     console.log('\n👋 Port creation closed! Keep those interfaces clean! 🔌');
                     process.exit(0);
-                } else if (error && error.message && error.message.includes('already exist')) {
+                } else if (isFileConflictError(error)) {
                     // Handle file already exists error with a nicer message
-                    const filePath = error.message.match(/Path \"([^\"]+)\"/)?.[1] || '';
+                    const filePath = error.message.match(/[Pp]ath "([^"]+)"/)?.[1] || '';
                     console.error('\n\x1b[33m⚠️  File conflict detected!\x1b[0m');
                     console.error(`\x1b[33mIt looks like a file or directory already exists: ${filePath}\x1b[0m`);
                     console.log('\n\x1b[36mSuggestions:\x1b[0m');
                     console.log('  • Try a different port name');
                     console.log('  • Use a different output path with -p option');
-                    console.log('  • Use --force option to overwrite existing files (coming soon)');
+                    console.log('  • Use --force to overwrite existing files');
+                    console.log('  • Use --on-conflict skip, rename or prompt to keep or compare them');
+                } else if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                    process.exit(1);
                 } else {
                     console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
                     process.exit(1);
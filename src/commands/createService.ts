@@ -1,66 +1,13 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import inquirer from 'inquirer';
-import * as path from 'path';
 import * as fs from 'fs-extra';
-import { toCamelCase, toPascalCase, toDasherize, displayWithPagination, applyFilePatterns } from '../utils/fileUtils';
-import { runSchematic } from '../schematics-cli';
-import { createDomainInteractively } from '../utils/domainUtils';
+import { toCamelCase, toPascalCase, toDasherize, displayWithPagination, applyFilePatterns, toImportPath } from '../utils/fileUtils';
+import { runSchematic, previewSchematic } from '../schematics-cli';
+import { createDomainInteractively, findExistingDomains } from '../utils/domainUtils';
 import { loadConfig } from '../utils/configLoader';
-
-// Helper function to find existing domains
-async function findExistingDomains(): Promise<string[]> {
-    const srcDir = path.join(process.cwd(), 'src');
-    try {
-        const entries = await fs.readdir(srcDir, { withFileTypes: true });
-        return entries
-            .filter(dirent => dirent.isDirectory() && !['handlers', 'infra', 'config', 'shared', 'templates', 'commands', 'utils'].includes(dirent.name))
-            .map(dirent => dirent.name);
-    } catch (error) {
-        console.warn('Could not automatically find existing domains.');
-        return [];
-    }
-}
-
-/**
- * Generate a preview tree of files that will be created for a service
- */
-function generateFilePreview(options: {
-  name: string,
-  domain: string,
-  path?: string
-}): string {
-  const { name, domain, path: basePath = '.' } = options;
-  const serviceName = `${toPascalCase(name)}Service`;
-  const domainName = toCamelCase(domain);
-  const dashName = toDasherize(name);
-
-  // Load configuration
-  const config = loadConfig(basePath);
-  
-  // Template variables for file pattern processing
-  const templateVars = {
-    name,
-    pascalName: toPascalCase(name),
-    dashName,
-    camelName: toCamelCase(name),
-    snakeName: dashName.replace(/-/g, '_'),
-    domainName,
-    serviceName
-  };
-  
-  // Apply file patterns from config using our utility function
-  const serviceFileInfo = applyFilePatterns('service', 'serviceFile', config, templateVars, basePath);
-  
-  // Extract paths for display
-  const srcPath = path.join(basePath || '.', config.basePath);
-  const serviceDir = path.dirname(serviceFileInfo.filePath).replace(srcPath + '/', '');
-  
-  let preview = `\n\x1b[1mFiles to be created:\x1b[0m\n`;
-  preview += `\x1b[36m${srcPath}/${serviceDir}/\x1b[0m\n`;
-  preview += `\x1b[32m└── ${serviceFileInfo.fileName}\x1b[0m \x1b[90m- Service implementation\x1b[0m\n`;
-  
-  return preview;
-}
+import { ConfigValidationError } from '../utils/configSchema';
+import { CONFLICT_STRATEGIES, isFileConflictError } from '../utils/conflicts';
+import { renderFilePreview, getConflicts } from '../utils/filePreview';
 
 export function createServiceCommand(): Command {
     const command = new Command('create:service')
@@ -70,6 +17,9 @@ export function createServiceCommand(): Command {
         .option('-d, --domain <domainName>', 'Specify the domain name')
         .option('-p, --path <outputPath>', 'Specify a custom base output path')
         .option('-y, --yes', 'Skip prompts and use default options')
+        .option('--dry-run', 'Show the files that would be written without writing them')
+        .option('--force', 'Overwrite files that already exist')
+        .addOption(new Option('--on-conflict <strategy>', 'What to do with files that already exist').choices(CONFLICT_STRATEGIES))
         .hook('preAction', async () => {
             // Show detailed help with pagination when --help is used
             if (process.argv.includes('--help')) {
@@ -101,6 +51,7 @@ Examples:
   $ vss-api-cli create:service CustomerProfileManager -d customer
   $ vss-api-cli create:service InventoryTracker -d inventory
   $ vss-api-cli create:service SecurityAuditor -d security
+  $ vss-api-cli create:service UserAuthenticator -d user --on-conflict rename
 
 Service Naming Patterns:
   • Process actions: PaymentProcessor, OrderValidator, EmailSender
@@ -123,6 +74,9 @@ Options:
   -d, --domain <domainName>  Specify the domain name
   -p, --path <outputPath>    Specify a custom output path
   -y, --yes                  Skip prompts and use default options
+  --dry-run                  Show the files that would be written without writing them
+  --force                    Overwrite files that already exist
+  --on-conflict <strategy>   What to do with existing files: skip, overwrite, rename or prompt
   -h, --help                 Display this help message
 `;
                 await displayWithPagination(helpContent);
@@ -193,6 +147,8 @@ Options:
                 
                 // Apply file patterns to get the service file path
                 const serviceFileInfo = applyFilePatterns('service', 'serviceFile', config, templateVars, basePath);
+                // The service imports the model of the same name only when the domain has one
+                const modelFileInfo = applyFilePatterns('domain', 'modelFile', config, templateVars, basePath);
 
                 // Generate options for the schematic
                 const schematicOptions = {
@@ -204,16 +160,23 @@ Options:
                     
                     // Add custom file paths
                     serviceFilePath: serviceFileInfo.filePath,
-                    serviceFileName: serviceFileInfo.fileName
+                    serviceFileName: serviceFileInfo.fileName,
+                    modelImportPath: fs.existsSync(modelFileInfo.filePath) ? toImportPath(serviceFileInfo.filePath, modelFileInfo.filePath) : null
                 };
                 
-                // Generate and show file preview with pagination
-                const filePreview = generateFilePreview({
-                    name: serviceName,
-                    domain: domainName,
-                    path: basePath
-                });
-                await displayWithPagination(`\n🔹 Create a Service: ${serviceName}Service for domain ${domainName}\n${filePreview}`);
+                // Preview from a dry run of the schematic, so it shows exactly what will be written
+                const plannedFiles = await previewSchematic('service', schematicOptions, options.force, options.onConflict);
+                await displayWithPagination(`\n🔹 Create a Service: ${serviceName}Service for domain ${domainName}\n${renderFilePreview(plannedFiles, basePath)}`);
+
+                if (options.dryRun) {
+                    console.log('\x1b[36mDry run complete. No files were written.\x1b[0m');
+                    return;
+                }
+                if (getConflicts(plannedFiles).length > 0) {
+                    console.error('\n\x1b[31mError: Files already exist. No files were created.\x1b[0m');
+                    process.exitCode = 1;
+                    return;
+                }
                 
                 // Ask for confirmation unless --yes flag is used
                 if (!options.yes) {
@@ -232,18 +195,19 @@ Options:
                 if (proceed) {
                     try {
                         console.log(`Generating service ${name}...`);
-                        await runSchematic('service', schematicOptions);
+                        await runSchematic('service', schematicOptions, false, options.force, options.onConflict);
                         console.log('\x1b[32m✅ Service created successfully! ⚡\x1b[0m');
                     } catch (error: any) {
-                        if (error && error.message && error.message.includes('already exist')) {
+                        if (isFileConflictError(error)) {
                             // Handle file already exists error with a nicer message
-                            const filePath = error.message.match(/Path \"([^\"]+)\"/)?.[1] || '';
+                            const filePath = error.message.match(/[Pp]ath "([^"]+)"/)?.[1] || '';
                             console.error('\n\x1b[33m⚠️  File conflict detected!\x1b[0m');
                             console.error(`\x1b[33mIt looks like a file or directory already exists: ${filePath}\x1b[0m`);
                             console.log('\n\x1b[36mSuggestions:\x1b[0m');
                             console.log('  • Try a different service name');
                             console.log('  • Use a different output path with -p option');
-                            console.log('  • Use --force option to overwrite existing files (coming soon)');
+                            console.log('  • Use --force to overwrite existing files');
+                            console.log('  • Use --on-conflict skip, rename or prompt to keep or compare them');
                         } else {
                             console.error('Error generating service:', error);
                         }
@@ -255,6 +219,9 @@ Options:
                 if (error && error.name === 'ExitPromptError') {
                     console.log('\n👋 Mission aborted! The user yeeted the command into the void. Farewell, brave keystroke warrior! 🫡💥');
                     process.exit(0);
+                } else if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                    process.exit(1);
                 } else {
                     console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
                     process.exit(1);
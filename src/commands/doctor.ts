@@ -0,0 +1,134 @@
+import { Command } from 'commander';
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { displayWithPagination } from '../utils/fileUtils';
+import { CliConfig, loadConfig } from '../utils/configLoader';
+import { DOCTOR_SECTIONS, DoctorReport, runDoctor } from '../utils/doctor';
+
+const STATUS_ICONS = {
+  ok: '\x1b[32m✔\x1b[0m',
+  warning: '\x1b[33m⚠\x1b[0m',
+  error: '\x1b[31m✖\x1b[0m'
+};
+
+/**
+ * Check the project without the messages loadConfig prints along the way; the
+ * Configuration section lists the problems of the config
+ */
+function diagnose(basePath: string): DoctorReport {
+  const config: CliConfig = loadConfig(basePath, false, { strict: false, quiet: 'all' });
+  return runDoctor(basePath, config);
+}
+
+/**
+ * The checks of each section, then the numbered list of fixes
+ */
+function formatReport(report: DoctorReport): string {
+  let output = '';
+  DOCTOR_SECTIONS.forEach(section => {
+    const checks = report.checks.filter(check => check.section === section);
+    if (checks.length === 0) return;
+    output += `\n\x1b[36m${section}\x1b[0m\n`;
+    checks.forEach(check => {
+      output += `  ${STATUS_ICONS[check.status]} ${check.message}\n`;
+    });
+  });
+
+  const fixes = [...new Set(report.checks.map(check => check.fix).filter((fix): fix is string => !!fix))];
+  const errors = report.checks.filter(check => check.status === 'error').length;
+  const warnings = report.checks.filter(check => check.status === 'warning').length;
+  if (fixes.length === 0) {
+    output += '\n\x1b[32m✅ Everything the generated code needs is in place\x1b[0m\n';
+    return output;
+  }
+
+  output += '\n\x1b[1mFixes\x1b[0m\n';
+  fixes.forEach((fix, index) => {
+    output += `  ${index + 1}. ${fix}\n`;
+  });
+  if (report.installCommands.length > 0) {
+    output += '\n\x1b[36mRun vss-api-cli doctor --fix to install the missing packages.\x1b[0m\n';
+  }
+  output += `\n${errors > 0 ? '\x1b[31m' : '\x1b[33m'}${errors} error(s), ${warnings} warning(s)\x1b[0m\n`;
+  return output;
+}
+
+/**
+ * Run a command in the project, showing its output
+ */
+function run(command: string[], cwd: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const [program, ...args] = command as [string, ...string[]];
+    // npm, pnpm and yarn are .cmd scripts on Windows, which need a shell
+    const child = spawn(program, args, { cwd, stdio: 'inherit', shell: process.platform === 'win32' });
+    child.on('error', reject);
+    child.on('close', code => code === 0 ? resolve() : reject(new Error(`${command.join(' ')} exited with code ${code}`)));
+  });
+}
+
+export function createDoctorCommand(): Command {
+    const command = new Command('doctor')
+        .description('Check that the project has the packages, compiler options and configuration the generated code needs.')
+        .option('--fix', 'Install the missing packages')
+        .option('-p, --path <outputPath>', 'Specify a custom base path of the project')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Checks the project against what the generated code needs and prints a
+  list of fixes:
+
+  • Dependencies   The packages the templates import, such as @middy/core,
+                   zod and @types/aws-lambda, are in package.json and
+                   installed. Ejected templates are read instead of the
+                   built-in ones.
+  • TypeScript     tsconfig.json enables strict and esModuleInterop.
+  • Configuration  The config files pass validate-config --strict.
+  • Components     Every port has an adapter and every adapter
+                   implements a port.
+
+  With --fix, the missing packages are installed with npm, pnpm or yarn,
+  depending on the lock file of the project. The command exits with code 1
+  when errors remain.
+
+Examples:
+  $ vss-api-cli doctor
+  $ vss-api-cli doctor --fix
+
+Options:
+  --fix                      Install the missing packages
+  -p, --path <outputPath>    Specify a custom base path of the project
+  -h, --help                 Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (options: { fix?: boolean, path?: string }) => {
+            try {
+                const basePath = options.path || '.';
+                let report = diagnose(basePath);
+
+                if (options.fix && report.installCommands.length > 0) {
+                    for (const installCommand of report.installCommands) {
+                        console.log(`\x1b[36m$ ${installCommand.join(' ')}\x1b[0m`);
+                        await run(installCommand, path.resolve(basePath));
+                    }
+                    report = diagnose(basePath);
+                } else if (options.fix) {
+                    console.log('\x1b[32mNo packages to install.\x1b[0m');
+                }
+
+                await displayWithPagination(formatReport(report));
+                if (report.checks.some(check => check.status === 'error')) {
+                    process.exitCode = 1;
+                }
+            } catch (error: any) {
+                console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                process.exitCode = 1;
+            }
+        });
+
+    return command;
+}
@@ -0,0 +1,116 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { stringify as stringifyYaml } from 'yaml';
+import { displayWithPagination } from '../utils/fileUtils';
+import { loadConfig } from '../utils/configLoader';
+import { ConfigValidationError } from '../utils/configSchema';
+import { findHandlerRoutes, buildOpenApiDocument } from '../utils/openApi';
+
+/**
+ * Title and version for the document: options first, then the project's package.json
+ */
+function resolveInfo(basePath: string, options: { title?: string, apiVersion?: string }): { title: string, version: string } {
+  const packageJsonPath = path.join(basePath, 'package.json');
+  const packageJson = fs.existsSync(packageJsonPath) ? fs.readJsonSync(packageJsonPath, { throws: false }) || {} : {};
+
+  return {
+    title: options.title || packageJson.name || 'API',
+    version: options.apiVersion || packageJson.version || '1.0.0'
+  };
+}
+
+export function createExportOpenApiCommand(): Command {
+    const command = new Command('export:openapi')
+        .alias('eo')
+        .description('Write an OpenAPI 3.1 document from the handlers and their Zod DTOs.')
+        .option('-o, --output <file>', 'Output file (.json, .yaml or .yml)', 'openapi.json')
+        .option('--title <title>', 'API title (default: package.json name)')
+        .option('--api-version <version>', 'API version (default: package.json version)')
+        .option('-p, --path <outputPath>', 'Specify a custom base path of the project')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Scans the configured handler directory and writes an OpenAPI 3.1 document.
+  Each handler becomes an operation named after the handler; its imported
+  <Name>RequestDto and <Name>ResponseDto Zod schemas become the request body
+  and response schemas.
+
+Routes:
+  The method and path of each handler come from the "routes" map in
+  vss-api.config.json, or from an @route annotation in the handler:
+
+    /**
+     * List all users
+     *
+     * @route GET /users
+     */
+
+  Handlers created by import:openapi and create:crud are annotated already.
+  Handlers without a route are listed and left out of the document.
+
+Examples:
+  $ vss-api-cli export:openapi
+  $ vss-api-cli export:openapi -o openapi.yaml --title "Users API" --api-version 2.0.0
+  $ vss-api-cli eo -p services/users
+
+Options:
+  -o, --output <file>        Output file (.json, .yaml or .yml), default openapi.json
+  --title <title>            API title (default: package.json name)
+  --api-version <version>    API version (default: package.json version)
+  -p, --path <outputPath>    Specify a custom base path of the project
+  -h, --help                 Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (options) => {
+            try {
+                const basePath = options.path || '.';
+                const config = loadConfig(basePath);
+
+                // Handlers live under the static part of the handler directory pattern
+                const handlerDirPattern = config.directories.handler?.base || 'handlers';
+                const handlerDir = path.join(basePath, config.basePath, handlerDirPattern.split('{{')[0]!);
+                const handlerFilePattern = config.filePatterns.handler?.handlerFile || '{{dashName}}.handler.ts';
+                const handlerSuffix = handlerFilePattern.slice(handlerFilePattern.lastIndexOf('}}') + 2) || '.ts';
+
+                const { routes, unrouted, warnings: routeWarnings } = findHandlerRoutes(handlerDir, handlerSuffix, config.routes);
+                if (routes.length === 0) {
+                    console.error(`\x1b[31mError: No routed handlers found in ${handlerDir}\x1b[0m`);
+                    if (unrouted.length > 0) {
+                        console.log('\n\x1b[36mAdd an @route annotation to the handlers or a "routes" map to vss-api.config.json.\x1b[0m');
+                    }
+                    process.exitCode = 1;
+                    return;
+                }
+
+                const { document, warnings } = buildOpenApiDocument(routes, resolveInfo(basePath, options));
+
+                const outputFile = path.resolve(basePath, options.output);
+                const isYaml = /\.ya?ml$/i.test(outputFile);
+                await fs.ensureDir(path.dirname(outputFile));
+                await fs.writeFile(outputFile, isYaml ? stringifyYaml(document) : `${JSON.stringify(document, null, 2)}\n`);
+
+                [...routeWarnings, ...warnings].forEach(warning => console.warn(`\x1b[33m⚠️  ${warning}\x1b[0m`));
+                if (unrouted.length > 0) {
+                    console.warn('\n\x1b[33mHandlers without a route (not exported):\x1b[0m');
+                    unrouted.forEach(filePath => console.warn(`\x1b[33m  • ${filePath}\x1b[0m`));
+                }
+
+                console.log(`\x1b[32m✅ Exported ${routes.length} operation(s) to ${outputFile} 📜\x1b[0m`);
+            } catch (error: any) {
+                if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                } else {
+                    console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
+                }
+                process.exit(1);
+            }
+        });
+
+    return command;
+}
@@ -0,0 +1,89 @@
+import { Command, Option } from 'commander';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { displayWithPagination } from '../utils/fileUtils';
+import { CliConfig, loadConfig } from '../utils/configLoader';
+import { indexedDomains, indexProject } from '../utils/projectIndex';
+import { buildArchitectureGraph, toDot, toMermaid } from '../utils/architectureGraph';
+
+export function createGraphCommand(): Command {
+    const command = new Command('graph')
+        .description('Draw the handlers, services, ports and adapters of the project and how they are linked.')
+        .addOption(new Option('--format <format>', 'Output format').choices(['mermaid', 'dot', 'json']).default('mermaid'))
+        .option('-d, --domain <domainName>', 'Only draw one domain')
+        .option('-o, --output <file>', 'Write the graph to a file instead of printing it')
+        .option('-p, --path <outputPath>', 'Specify a custom base path of the project')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Prints a graph of the project: handlers point to the services they use,
+  services to the ports they use, and ports to the adapters implementing
+  them, grouped by domain. Components are found like the list command
+  finds them, with the directories and filePatterns of the configuration.
+
+  Mermaid output can be embedded in the documentation site or in a pull
+  request description; an output file ending in .md gets it in a mermaid
+  code block. DOT output can be rendered with Graphviz.
+
+Examples:
+  $ vss-api-cli graph
+  $ vss-api-cli graph --domain user -o doc/docs/architecture.md
+  $ vss-api-cli graph --format dot | dot -Tsvg -o architecture.svg
+  $ vss-api-cli graph --format json
+
+Options:
+  --format <format>          mermaid, dot or json (default: mermaid)
+  -d, --domain <domainName>  Only draw one domain
+  -o, --output <file>        Write the graph to a file instead of printing it
+  -p, --path <outputPath>    Specify a custom base path of the project
+  -h, --help                 Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (options: { format: 'mermaid' | 'dot' | 'json', domain?: string, output?: string, path?: string }) => {
+            try {
+                const basePath = options.path || '.';
+
+                // loadConfig reports every step it takes; only its result matters here
+                const config: CliConfig = loadConfig(basePath, false, { quiet: true });
+
+                const index = indexProject(config, basePath);
+                if (options.domain && !indexedDomains(index).includes(options.domain)) {
+                    console.error(`\x1b[31mError: Domain "${options.domain}" not found. Domains: ${indexedDomains(index).join(', ') || 'none'}\x1b[0m`);
+                    process.exitCode = 1;
+                    return;
+                }
+
+                const graph = buildArchitectureGraph(index, options.domain);
+                let output: string;
+                if (options.format === 'json') {
+                    output = `${JSON.stringify(graph, null, 2)}\n`;
+                } else if (options.format === 'dot') {
+                    output = toDot(graph);
+                } else {
+                    output = toMermaid(graph);
+                }
+
+                if (options.output) {
+                    const outputFile = path.resolve(basePath, options.output);
+                    if (options.format === 'mermaid' && /\.mdx?$/.test(outputFile)) {
+                        output = `\`\`\`mermaid\n${output}\`\`\`\n`;
+                    }
+                    await fs.ensureDir(path.dirname(outputFile));
+                    await fs.writeFile(outputFile, output);
+                    console.log(`\x1b[32mWrote ${graph.nodes.length} component(s) and ${graph.edges.length} link(s) to ${outputFile}\x1b[0m`);
+                } else {
+                    process.stdout.write(output);
+                }
+            } catch (error: any) {
+                console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                process.exitCode = 1;
+            }
+        });
+
+    return command;
+}
@@ -0,0 +1,294 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import {
+  toCamelCase, toPascalCase, toDasherize, displayWithPagination, applyFilePatterns, toImportPath
+} from '../utils/fileUtils';
+import { runSchematic, previewSchematic } from '../schematics-cli';
+import { loadConfig, defaultConfig, CliConfig } from '../utils/configLoader';
+import { ConfigValidationError } from '../utils/configSchema';
+import { renderFilePreview, getConflicts, PlannedFile } from '../utils/filePreview';
+import { loadOpenApiDocument, extractOperations, OpenApiOperation } from '../utils/openApi';
+
+/**
+ * Handler generated for one OpenAPI operation
+ */
+interface ImportedHandler {
+  operation: OpenApiOperation;
+  domainName: string;
+  handlerFilePath: string;
+  dtoFilePath: string;
+  createRequestDto: boolean;
+  createResponseDto: boolean;
+}
+
+/**
+ * Domain name for an OpenAPI tag, e.g. "User Accounts" becomes "userAccounts"
+ */
+function tagToDomain(tag: string): string {
+  return toCamelCase(tag.trim().replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase()) || 'default';
+}
+
+/**
+ * Config whose handler directories group the handlers per domain. The default
+ * directories, which init also writes into new configs, get a {{domainName}}
+ * sub-folder; other directories are followed as they are, grouping per domain only
+ * when they use {{domainName}}.
+ */
+function withDomainDirectories(config: CliConfig): CliConfig {
+  const handlerDirectories = config.directories.handler || {};
+  const defaultDirectories = defaultConfig.directories.handler || {};
+  const scope = (setting: 'base' | 'schema', dir: string) => dir === defaultDirectories[setting] ? `${dir}/{{domainName}}` : dir;
+
+  return {
+    ...config,
+    directories: {
+      ...config.directories,
+      handler: {
+        ...handlerDirectories,
+        base: scope('base', handlerDirectories.base || 'handlers'),
+        schema: scope('schema', handlerDirectories.schema || 'handlers/schemas')
+      }
+    }
+  };
+}
+
+/**
+ * Operations left out of the import and spec warnings, shown under the file preview
+ */
+function generateImportNotes(options: {
+  handlers: ImportedHandler[],
+  skipped: ImportedHandler[],
+  path?: string
+}): string {
+  const { handlers, skipped, path: outputPath = '.' } = options;
+  let notes = '';
+
+  if (skipped.length > 0) {
+    notes += `\n\x1b[1mAlready generated (left untouched):\x1b[0m\n`;
+    skipped.forEach(handler => {
+      notes += `\x1b[90m  • ${handler.operation.operationId} (${path.relative(outputPath, handler.handlerFilePath)})\x1b[0m\n`;
+    });
+  }
+
+  const warnings = handlers.flatMap(handler => handler.operation.warnings.map(warning => `${handler.operation.operationId}: ${warning}`));
+  if (warnings.length > 0) {
+    notes += `\n\x1b[33mWarnings:\x1b[0m\n`;
+    warnings.forEach(warning => {
+      notes += `\x1b[33m  • ${warning}\x1b[0m\n`;
+    });
+  }
+
+  return notes;
+}
+
+export function createImportOpenApiCommand(): Command {
+    const command = new Command('import:openapi')
+        .alias('io')
+        .description('Generate handlers and Zod DTOs for every operation of an OpenAPI 3 document.')
+        .argument('<spec>', 'Path to the OpenAPI 3 document (YAML or JSON)')
+        .option('--tag <tags...>', 'Only import operations with these tags')
+        .option('-p, --path <outputPath>', 'Specify a custom base output path')
+        .option('-y, --yes', 'Skip prompts and use default options')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Reads an OpenAPI 3 document and generates one handler per operation,
+  named from its operationId, with Zod request/response DTOs built from
+  the path and query parameters and the request body, and from the first
+  2xx JSON response. Operations are grouped into domains by their first tag.
+
+  Importing again after the spec changes only adds the new operations:
+  handlers that already exist are left untouched.
+
+Structure Generated:
+  └── src/
+      └── handlers/
+          ├── {domainName}/
+          │   └── {operation-id}.handler.ts   # Annotated with @route METHOD /path
+          └── schemas/
+              └── {domainName}/
+                  └── {operation-id}.dto.ts   # {OperationId}RequestDto / ResponseDto
+
+  Handler and DTO locations follow the handler directories and file patterns
+  in vss-api.config.json. Configured directories get a folder per domain
+  where they use {{domainName}}; the default ones always do.
+
+Examples:
+  $ vss-api-cli import:openapi openapi.yaml
+  $ vss-api-cli import:openapi api/spec.json --tag users orders
+  $ vss-api-cli io openapi.yaml -y
+
+Options:
+  --tag <tags...>          Only import operations with these tags
+  -p, --path <outputPath>  Specify a custom output path
+  -y, --yes                Skip prompts and use default options
+  -h, --help               Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (spec, options) => {
+            try {
+                let proceed = options.yes;
+                const basePath = options.path || '.';
+
+                let operations: OpenApiOperation[];
+                try {
+                    operations = extractOperations(loadOpenApiDocument(spec));
+                } catch (error: any) {
+                    console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                    process.exitCode = 1;
+                    return;
+                }
+
+                if (options.tag) {
+                    const tags = (options.tag as string[]).map(tag => tag.toLowerCase());
+                    operations = operations.filter(operation => tags.includes(operation.tag.toLowerCase()));
+                }
+
+                if (operations.length === 0) {
+                    console.log('\x1b[33m⚠️  No operations found to import.\x1b[0m');
+                    return;
+                }
+
+                // operationId names the handler, so two operations cannot share one
+                const duplicates = operations
+                    .map(operation => operation.operationId)
+                    .filter((operationId, index, all) => all.indexOf(operationId) !== index);
+                if (duplicates.length > 0) {
+                    console.error(`\x1b[31mError: Duplicate operationId in the spec: ${[...new Set(duplicates)].join(', ')}\x1b[0m`);
+                    process.exitCode = 1;
+                    return;
+                }
+
+                // Handlers are grouped per tag, in the directories the config sets if any
+                const config = withDomainDirectories(loadConfig(basePath));
+
+                const resolved: ImportedHandler[] = operations.map(operation => {
+                    const domainName = tagToDomain(operation.tag);
+                    const handlerVars = {
+                        name: operation.operationId,
+                        pascalName: toPascalCase(operation.operationId),
+                        dashName: toDasherize(operation.operationId),
+                        camelName: toCamelCase(operation.operationId),
+                        domainName
+                    };
+                    return {
+                        operation,
+                        domainName,
+                        handlerFilePath: applyFilePatterns('handler', 'handlerFile', config, { ...handlerVars }, basePath).filePath,
+                        dtoFilePath: applyFilePatterns('handler', 'dtoFile', config, { ...handlerVars }, basePath).filePath,
+                        createRequestDto: operation.requestFields !== null,
+                        createResponseDto: operation.responseFields !== null
+                    };
+                });
+
+                // Operations whose handler exists were imported before and are left alone
+                const handlers: ImportedHandler[] = [];
+                const skipped: ImportedHandler[] = [];
+                for (const handler of resolved) {
+                    if (await fs.pathExists(handler.handlerFilePath)) {
+                        skipped.push(handler);
+                    } else {
+                        handlers.push(handler);
+                    }
+                }
+
+                if (handlers.length === 0) {
+                    console.log(`\x1b[32m✅ All ${skipped.length} operations are already imported. Nothing to do.\x1b[0m`);
+                    return;
+                }
+
+                const handlerOptions = handlers.map(handler => {
+                    const { operation } = handler;
+                    return {
+                        name: operation.operationId,
+                        path: basePath,
+                        noValidation: true,
+                        fileNameCase: config.fileNameCase || 'pascal',
+                        _config: config,
+                        route: { method: operation.method, path: operation.path, summary: operation.summary },
+                        createRequestDto: handler.createRequestDto,
+                        createResponseDto: handler.createResponseDto,
+                        requestDtoFields: operation.requestFields || [],
+                        requestParameters: operation.requestHasParameters,
+                        responseDtoFields: operation.responseFields || [],
+                        responseDtoIsList: operation.responseIsList,
+                        dtoImportPath: toImportPath(handler.handlerFilePath, handler.dtoFilePath),
+                        handlerFilePath: handler.handlerFilePath,
+                        dtoFilePath: handler.dtoFilePath
+                    };
+                });
+
+                // Preview from a dry run of every handler, so it shows exactly what will be written
+                const plannedFiles: PlannedFile[] = [];
+                for (const schematicOptions of handlerOptions) {
+                    plannedFiles.push(...await previewSchematic('handler', schematicOptions));
+                }
+
+                // A DTO file without its handler was not generated by a previous import
+                const conflicts = getConflicts(plannedFiles);
+                if (conflicts.length > 0) {
+                    console.error('\n\x1b[33m⚠️  File conflict detected!\x1b[0m');
+                    console.error('\x1b[33mThese DTO files exist without their handler:\x1b[0m');
+                    conflicts.forEach(file => console.error(`\x1b[33m  • ${path.join(basePath, file.path)}\x1b[0m`));
+                    console.log('\n\x1b[36mSuggestions:\x1b[0m');
+                    console.log('  • Remove or move the DTO files and import again');
+                    console.log('  • Use a different output path with -p option');
+                    process.exitCode = 1;
+                    return;
+                }
+
+                const importNotes = generateImportNotes({ handlers, skipped, path: basePath });
+                await displayWithPagination(`\n🔹 Import OpenAPI: ${handlers.length} new operation(s) from ${spec}\n${renderFilePreview(plannedFiles, basePath)}${importNotes}`);
+
+                // Ask for confirmation unless --yes flag is used
+                if (!options.yes) {
+                    const confirmAnswer = await inquirer.prompt([
+                        {
+                            type: 'confirm',
+                            name: 'proceed',
+                            message: 'Do you want to create these files?',
+                            default: true,
+                        }
+                    ]);
+                    proceed = confirmAnswer.proceed;
+                }
+
+                if (!proceed) {
+                    console.log('\nOperation cancelled. No files were created.');
+                    return;
+                }
+
+                try {
+                    for (const [index, handler] of handlers.entries()) {
+                        const { operation } = handler;
+                        console.log(`Generating handler ${toDasherize(operation.operationId)} (${operation.method} ${operation.path})...`);
+                        await runSchematic('handler', handlerOptions[index]);
+                    }
+
+                    console.log(`\x1b[32m✅ Imported ${handlers.length} operation(s) successfully! 📜\x1b[0m`);
+                } catch (error: any) {
+                    console.error('Error importing OpenAPI document:', error);
+                }
+            } catch (error: any) {
+                if (error && error.name === 'ExitPromptError') {
+                    console.log('\n👋 Mission aborted! The user yeeted the command into the void. Farewell, brave keystroke warrior! 🫡💥');
+                    process.exit(0);
+                } else if (error instanceof ConfigValidationError) {
+                    console.error(`\n\x1b[31m${error.message}\x1b[0m`);
+                    process.exit(1);
+                } else {
+                    console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
+                    process.exit(1);
+                }
+            }
+        });
+
+    return command;
+}
@@ -0,0 +1,265 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { toCamelCase, toPascalCase, toDasherize, displayWithPagination, applyFilePatterns } from '../utils/fileUtils';
+import { runSchematic } from '../schematics-cli';
+import { defaultConfig } from '../utils/configLoader';
+import { CONFIG_SCHEMA_REF, writeConfigSchema } from '../utils/configSchema';
+import { DEV_DEPENDENCIES, RUNTIME_DEPENDENCIES } from '../utils/projectDependencies';
+
+/**
+ * Folders from the architecture guide that every project starts with
+ */
+const PROJECT_FOLDERS = ['handlers', 'shared', 'config'];
+
+/**
+ * Build the package.json content for a new project
+ */
+function buildPackageJson(projectName: string, description: string): Record<string, unknown> {
+  return {
+    name: toDasherize(projectName),
+    version: '0.1.0',
+    description,
+    private: true,
+    main: 'dist/index.js',
+    scripts: {
+      build: 'tsc',
+      typecheck: 'tsc --noEmit'
+    },
+    dependencies: RUNTIME_DEPENDENCIES,
+    devDependencies: DEV_DEPENDENCIES
+  };
+}
+
+/**
+ * Build a strict tsconfig.json for a new project
+ */
+function buildTsConfig(basePath: string): Record<string, unknown> {
+  return {
+    compilerOptions: {
+      target: 'es2020',
+      module: 'commonjs',
+      lib: ['es2020'],
+      outDir: 'dist',
+      rootDir: basePath,
+      strict: true,
+      noImplicitAny: true,
+      noUncheckedIndexedAccess: true,
+      noImplicitReturns: true,
+      noFallthroughCasesInSwitch: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      forceConsistentCasingInFileNames: true,
+      resolveJsonModule: true,
+      sourceMap: true
+    },
+    include: [`${basePath}/**/*.ts`],
+    exclude: ['node_modules', 'dist']
+  };
+}
+
+/**
+ * Build the domain schematic options for the sample domain, resolving file paths
+ * through the default config exactly like create:domain does
+ */
+function buildSampleDomainOptions(domain: string, projectDir: string): Record<string, unknown> {
+  const pascalName = toPascalCase(domain);
+  const dashName = toDasherize(domain);
+  const adapterType = 'repository';
+  const templateVars = {
+    name: domain,
+    pascalName,
+    dashName,
+    camelName: toCamelCase(domain),
+    snakeName: dashName.replace(/-/g, '_'),
+    domainName: toCamelCase(domain),
+    adapterType,
+    serviceName: `${pascalName}Service`
+  };
+
+  // Paths are relative to the project folder, which is the schematic's workflow root
+  const modelFileInfo = applyFilePatterns('domain', 'modelFile', defaultConfig, { ...templateVars }, '');
+  const serviceFileInfo = applyFilePatterns('domain', 'serviceFile', defaultConfig, { ...templateVars, name: `${pascalName}Service` }, '');
+  const portFileInfo = applyFilePatterns('domain', 'portFile', defaultConfig, { ...templateVars, name: `${pascalName}RepositoryPort` }, '');
+  const adapterFileInfo = applyFilePatterns('adapter', 'adapterFile', defaultConfig, { ...templateVars, name: `${pascalName}RepositoryAdapter` }, '');
+
+  return {
+    name: domain,
+    path: projectDir,
+    model: true,
+    service: true,
+    port: true,
+    adapterType,
+    _config: defaultConfig,
+    modelFilePath: modelFileInfo.filePath,
+    modelFileName: modelFileInfo.fileName,
+    serviceFilePath: serviceFileInfo.filePath,
+    serviceFileName: serviceFileInfo.fileName,
+    portFilePath: portFileInfo.filePath,
+    portFileName: portFileInfo.fileName,
+    adapterFilePath: adapterFileInfo.filePath,
+    adapterFileName: adapterFileInfo.fileName
+  };
+}
+
+/**
+ * Generate a preview tree of files that will be created for a new project
+ */
+function generateFilePreview(options: {
+  projectDir: string,
+  domain?: string
+}): string {
+  const { projectDir, domain } = options;
+  const basePath = defaultConfig.basePath;
+
+  let preview = `\n\x1b[1mFiles to be created:\x1b[0m\n`;
+  preview += `\x1b[36m${projectDir}/\x1b[0m\n`;
+  preview += `\x1b[32m├── package.json\x1b[0m \x1b[90m- Middy, Zod and aws-lambda dependencies\x1b[0m\n`;
+  preview += `\x1b[32m├── tsconfig.json\x1b[0m \x1b[90m- Strict TypeScript configuration\x1b[0m\n`;
+  preview += `\x1b[32m├── vss-api.config.json\x1b[0m \x1b[90m- CLI configuration\x1b[0m\n`;
+  preview += `\x1b[32m├── .gitignore\x1b[0m\n`;
+  preview += `\x1b[32m├── .vss/vss-api.config.schema.json\x1b[0m \x1b[90m- JSON Schema of the configuration, for the editor\x1b[0m\n`;
+  preview += `\x1b[36m└── ${basePath}/\x1b[0m\n`;
+  PROJECT_FOLDERS.forEach(folder => {
+    preview += `\x1b[36m    ├── ${folder}/\x1b[0m\n`;
+  });
+  if (domain) {
+    preview += `\x1b[36m    └── ${toCamelCase(domain)}/\x1b[0m \x1b[90m- Sample domain (model, service, port and adapter)\x1b[0m\n`;
+  }
+
+  return preview;
+}
+
+/**
+ * Write the project skeleton (package.json, tsconfig, config file with its schema and folders)
+ */
+async function writeProjectSkeleton(projectDir: string, projectName: string, description: string): Promise<void> {
+  const basePath = defaultConfig.basePath;
+
+  await fs.ensureDir(projectDir);
+  await fs.writeJson(path.join(projectDir, 'package.json'), buildPackageJson(projectName, description), { spaces: 2 });
+  await fs.writeJson(path.join(projectDir, 'tsconfig.json'), buildTsConfig(basePath), { spaces: 2 });
+  await fs.writeJson(path.join(projectDir, 'vss-api.config.json'), { $schema: CONFIG_SCHEMA_REF, ...defaultConfig }, { spaces: 2 });
+  await writeConfigSchema(projectDir);
+  await fs.writeFile(path.join(projectDir, '.gitignore'), 'node_modules/\ndist/\n');
+
+  for (const folder of PROJECT_FOLDERS) {
+    const folderPath = path.join(projectDir, basePath, folder);
+    await fs.ensureDir(folderPath);
+    await fs.writeFile(path.join(folderPath, '.gitkeep'), '');
+  }
+}
+
+export function createInitCommand(): Command {
+    const command = new Command('init')
+        .description('Scaffold a new Middy service project.')
+        .argument('<projectName>', 'Name of the project (e.g., user-service)')
+        .option('-p, --path <outputPath>', 'Directory in which the project folder is created')
+        .option('-d, --domain <domainName>', 'Name of the sample domain to generate', 'example')
+        .option('--no-domain', 'Skip sample domain generation')
+        .option('--description <text>', 'Description written to package.json', 'Middy-based serverless service')
+        .option('-y, --yes', 'Skip prompts and use default options')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Creates a new Middy-based serverless project with the dependencies,
+  TypeScript settings and folder layout that generated code expects.
+
+Structure Generated:
+  {projectName}/
+  ├── package.json           # @middy/*, zod and @types/aws-lambda
+  ├── tsconfig.json          # Strict compiler settings
+  ├── vss-api.config.json    # Default CLI configuration
+  ├── .vss/
+  │   └── vss-api.config.schema.json  # Its JSON Schema, referenced by $schema
+  └── src/
+      ├── handlers/
+      ├── shared/
+      ├── config/
+      └── {domain}/          # Sample domain (skip with --no-domain)
+
+Examples:
+  $ vss-api-cli init user-service
+  $ vss-api-cli init payment-service --domain payment
+  $ vss-api-cli init billing-service --no-domain -y
+
+Options:
+  -p, --path <outputPath>     Directory in which the project folder is created
+  -d, --domain <domainName>   Name of the sample domain (default: example)
+  --no-domain                 Skip sample domain generation
+  --description <text>        Description written to package.json
+  -y, --yes                   Skip prompts and use default options
+  -h, --help                  Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (projectName: string, options) => {
+            try {
+                const projectDir = path.join(options.path || '.', toDasherize(projectName));
+                const absoluteProjectDir = path.resolve(process.cwd(), projectDir);
+                const domain: string | undefined = options.domain === false ? undefined : options.domain;
+
+                // Refuse to scaffold on top of an existing, non-empty folder
+                if (await fs.pathExists(absoluteProjectDir)) {
+                    const entries = await fs.readdir(absoluteProjectDir);
+                    if (entries.length > 0) {
+                        console.error(`\x1b[31mError: Directory "${projectDir}" already exists and is not empty.\x1b[0m`);
+                        process.exitCode = 1;
+                        return;
+                    }
+                }
+
+                const filePreview = generateFilePreview({ projectDir, domain });
+                await displayWithPagination(`\n🔹 Create a Project: ${projectName}\n${filePreview}`);
+
+                // Ask for confirmation unless --yes flag is used
+                let proceed = options.yes;
+                if (!options.yes) {
+                    const confirmAnswer = await inquirer.prompt([
+                        {
+                            type: 'confirm',
+                            name: 'proceed',
+                            message: 'Do you want to create this project?',
+                            default: true,
+                        }
+                    ]);
+                    proceed = confirmAnswer.proceed;
+                }
+
+                if (!proceed) {
+                    console.log('\nOperation cancelled. No files were created.');
+                    return;
+                }
+
+                console.log(`Generating project ${projectName}...`);
+                await writeProjectSkeleton(absoluteProjectDir, projectName, options.description);
+
+                // Generate the sample domain through the regular domain schematic
+                if (domain) {
+                    console.log(`\nGenerating sample domain ${domain}...`);
+                    await runSchematic('domain', buildSampleDomainOptions(domain, projectDir));
+                }
+
+                console.log('\x1b[32m✅ Project created successfully! 🚀\x1b[0m');
+                console.log('\n\x1b[36mNext steps:\x1b[0m');
+                console.log(`  cd ${projectDir}`);
+                console.log('  npm install');
+                console.log('  vss-api-cli create:handler createExample');
+            } catch (error: any) {
+                if (error && error.name === 'ExitPromptError') {
+                    console.log('\n👋 Mission aborted! The user yeeted the command into the void. Farewell, brave keystroke warrior! 🫡💥');
+                    process.exit(0);
+                } else {
+                    console.error('\n\x1b[31mAn unexpected error occurred:\x1b[0m', error);
+                    process.exit(1);
+                }
+            }
+        });
+
+    return command;
+}
@@ -0,0 +1,157 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import { displayWithPagination } from '../utils/fileUtils';
+import { CliConfig, loadConfig } from '../utils/configLoader';
+import { componentsOf, dependenciesOf, dependentsOf, indexedDomains, indexProject, IndexedComponent, ProjectIndex } from '../utils/projectIndex';
+
+/**
+ * Name and path of a component, as listed in the JSON output
+ */
+function describe(component: IndexedComponent): { name: string, filePath: string } {
+  return { name: component.name, filePath: component.filePath };
+}
+
+/**
+ * Inventory of a project: each domain with its models, services and ports, the adapters
+ * implementing each port, the handlers with the services they use, and the adapters
+ * that implement no port
+ */
+function buildInventory(index: ProjectIndex, domain?: string) {
+  const domains = indexedDomains(index)
+    .filter(name => !domain || name === domain)
+    .map(name => ({
+      name,
+      models: componentsOf(index, 'model', name).map(describe),
+      services: componentsOf(index, 'service', name).map(service => ({
+        ...describe(service),
+        ports: dependenciesOf(index, service, 'port').map(port => port.name)
+      })),
+      ports: componentsOf(index, 'port', name).map(port => ({
+        ...describe(port),
+        adapters: dependentsOf(index, port, 'adapter').map(describe)
+      }))
+    }));
+
+  const handlers = componentsOf(index, 'handler')
+    .filter(handler => !domain || handler.domain === domain)
+    .map(handler => ({
+      ...describe(handler),
+      services: dependenciesOf(index, handler, 'service').map(service => service.name)
+    }));
+
+  const unlinkedAdapters = componentsOf(index, 'adapter')
+    .filter(adapter => (!domain || adapter.domain === domain) && dependenciesOf(index, adapter, 'port').length === 0)
+    .map(describe);
+
+  return { domains, handlers, unlinkedAdapters };
+}
+
+export function createListCommand(): Command {
+    const command = new Command('list')
+        .alias('ls')
+        .description('List the domains, models, services, ports, adapters and handlers of the project.')
+        .option('-d, --domain <domainName>', 'Only list one domain and its handlers and adapters')
+        .option('-p, --path <outputPath>', 'Specify a custom base path of the project')
+        .option('--json', 'Print the inventory as JSON')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Lists what the project contains: each domain with its models, services
+  and ports, the adapters implementing each port, and the handlers with the
+  services they use.
+
+  Files are found by matching them against basePath, directories and
+  filePatterns of the configuration, so any layout the configuration
+  describes is listed, including presets such as vss:clean-architecture.
+  Links come from the imports of each file; an adapter also implements
+  the port whose interface its class implements.
+
+Examples:
+  $ vss-api-cli list
+  $ vss-api-cli list --domain user
+  $ vss-api-cli list --json
+
+Options:
+  -d, --domain <domainName>  Only list one domain and its handlers and adapters
+  -p, --path <outputPath>    Specify a custom base path of the project
+  --json                     Print the inventory as JSON
+  -h, --help                 Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (options: { domain?: string, path?: string, json?: boolean }) => {
+            try {
+                const basePath = options.path || '.';
+
+                // loadConfig reports every step it takes; only its result matters here
+                const config: CliConfig = loadConfig(basePath, false, { quiet: true });
+
+                const index = indexProject(config, basePath);
+                const inventory = buildInventory(index, options.domain);
+
+                if (options.json) {
+                    console.log(JSON.stringify(inventory, null, 2));
+                    return;
+                }
+
+                if (index.components.length === 0) {
+                    console.log(`\x1b[33mNo domains, services, ports, adapters or handlers found in ${path.resolve(basePath, config.basePath)}.\x1b[0m`);
+                    console.log('\x1b[36mRun vss-api-cli config show to check where the configuration expects them.\x1b[0m');
+                    return;
+                }
+                if (options.domain && inventory.domains.length === 0) {
+                    console.error(`\x1b[31mError: Domain "${options.domain}" not found. Domains: ${indexedDomains(index).join(', ') || 'none'}\x1b[0m`);
+                    process.exitCode = 1;
+                    return;
+                }
+
+                let output = '\n\x1b[36m📦 Domains\x1b[0m\n';
+                inventory.domains.forEach(domain => {
+                    output += `\n  \x1b[1m${domain.name}\x1b[0m\n`;
+                    output += `    Models    ${domain.models.map(model => model.name).join(', ') || '\x1b[90mnone\x1b[0m'}\n`;
+                    output += `    Services  ${domain.services.length === 0 ? '\x1b[90mnone\x1b[0m' : ''}\n`;
+                    domain.services.forEach(service => {
+                        const ports = service.ports.length > 0 ? ` \x1b[90muses ${service.ports.join(', ')}\x1b[0m` : '';
+                        output += `      • ${service.name}${ports}\n`;
+                    });
+                    output += `    Ports     ${domain.ports.length === 0 ? '\x1b[90mnone\x1b[0m' : ''}\n`;
+                    domain.ports.forEach(port => {
+                        output += `      • ${port.name}\n`;
+                        port.adapters.forEach(adapter => {
+                            output += `          ↳ ${adapter.name} \x1b[90m${adapter.filePath}\x1b[0m\n`;
+                        });
+                        if (port.adapters.length === 0) {
+                            output += '          \x1b[33m↳ no adapter\x1b[0m\n';
+                        }
+                    });
+                });
+
+                output += '\n\x1b[36m🌐 Handlers\x1b[0m\n';
+                inventory.handlers.forEach(handler => {
+                    const services = handler.services.length > 0 ? `→ ${handler.services.join(', ')}` : '\x1b[90mno service\x1b[0m';
+                    output += `  • ${handler.name.padEnd(32)} ${services}\n`;
+                });
+                if (inventory.handlers.length === 0) {
+                    output += '  \x1b[90mnone\x1b[0m\n';
+                }
+
+                if (inventory.unlinkedAdapters.length > 0) {
+                    output += '\n\x1b[33m⚠️  Adapters that implement no port\x1b[0m\n';
+                    inventory.unlinkedAdapters.forEach(adapter => {
+                        output += `  • ${adapter.name} \x1b[90m${adapter.filePath}\x1b[0m\n`;
+                    });
+                }
+
+                await displayWithPagination(output);
+            } catch (error: any) {
+                console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                process.exitCode = 1;
+            }
+        });
+
+    return command;
+}
@@ -0,0 +1,85 @@
+import { Argument, Command } from 'commander';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { displayWithPagination } from '../utils/fileUtils';
+import { loadConfig } from '../utils/configLoader';
+import { DEFAULT_TEMPLATES_DIR, TEMPLATE_FILES } from '../schematics/utils/templateUtils';
+
+/**
+ * Path of a built-in template file of a component, in the schematics shipped with the CLI
+ */
+function builtInTemplatePath(component: string, builtInName: string): string {
+  return path.join(__dirname, '..', 'schematics', component, 'files', builtInName);
+}
+
+function createTemplateEjectCommand(): Command {
+    return new Command('eject')
+        .description('Copy the built-in templates of a component into the project templates directory.')
+        .addArgument(new Argument('<component>', 'Component whose templates are copied').choices(Object.keys(TEMPLATE_FILES)))
+        .option('--force', 'Overwrite templates that were already ejected')
+        .hook('preAction', async () => {
+            // Show detailed help with pagination when --help is used
+            if (process.argv.includes('--help')) {
+                const helpContent = `
+Description:
+  Copies the built-in templates of a component into the templates directory
+  of the project, as a starting point for your own versions. The generators
+  check that directory before their built-in templates, for each file.
+
+  The directory is the templatesDir setting of vss-api.config.json, or
+  ${DEFAULT_TEMPLATES_DIR} when it is not set. Templates use the same <%= %>
+  variables and string helpers (classify, camelize, dasherize, ...) as the
+  built-in ones. Delete a file to go back to the built-in template.
+
+Components:
+${Object.entries(TEMPLATE_FILES).map(([component, files]) => `  ${component.padEnd(10)} ${Object.keys(files).join(', ')}`).join('\n')}
+
+Examples:
+  $ vss-api-cli template eject handler
+  $ vss-api-cli template eject domain --force
+
+Options:
+  <component>                Component whose templates are copied: ${Object.keys(TEMPLATE_FILES).join(', ')}
+  --force                    Overwrite templates that were already ejected
+  -h, --help                 Display this help message
+`;
+                await displayWithPagination(helpContent);
+                process.exit(0);
+            }
+        })
+        .action(async (component: string, options) => {
+            try {
+                const templatesDir = loadConfig('.').templatesDir || DEFAULT_TEMPLATES_DIR;
+                const targetDir = path.join(templatesDir, component);
+
+                let copied = 0;
+                for (const [fileName, builtInName] of Object.entries(TEMPLATE_FILES[component] || {})) {
+                    const targetFile = path.join(targetDir, fileName);
+                    if (fs.existsSync(targetFile) && !options.force) {
+                        console.log(`\x1b[90mSKIP ${targetFile} (already ejected)\x1b[0m`);
+                        continue;
+                    }
+                    await fs.copy(builtInTemplatePath(component, builtInName), targetFile);
+                    console.log(`\x1b[32mCREATE\x1b[0m ${targetFile}`);
+                    copied++;
+                }
+
+                if (copied === 0) {
+                    console.log(`\n\x1b[33mEvery ${component} template is already in ${targetDir}. Use --force to copy the built-in versions again.\x1b[0m`);
+                    return;
+                }
+
+                console.log(`\n\x1b[32m✅ Ejected ${copied} ${component} template(s) to ${targetDir}! 🎨\x1b[0m`);
+                console.log('\x1b[36mEdit them to change the generated code. Delete a file to go back to the built-in template.\x1b[0m');
+            } catch (error: any) {
+                console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+                process.exitCode = 1;
+            }
+        });
+}
+
+export function createTemplateCommand(): Command {
+    return new Command('template')
+        .description('Manage the project templates the generators use instead of the built-in ones.')
+        .addCommand(createTemplateEjectCommand());
+}
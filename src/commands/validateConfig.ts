@@ -2,6 +2,37 @@ import { Command } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import { spawn } from 'child_process';
+import { CONFIG_FILES, findConfigFiles, loadConfig } from '../utils/configLoader';
+import { ConfigValidationError } from '../utils/configSchema';
+
+/**
+ * Check the config files of a directory against the config schema with the strict mode of loadConfig
+ *
+ * @param configPath A config file, or the directory containing the config files
+ * @returns True if every config file is valid
+ */
+function validateStrict(configPath: string): boolean {
+  const configDir = path.resolve(fs.existsSync(configPath) && fs.statSync(configPath).isFile() ? path.dirname(configPath) : configPath);
+  const configFiles = findConfigFiles(configDir);
+  if (configFiles.length === 0) {
+    console.error(`\x1b[31mError: No config file found in ${configDir} (looked for ${CONFIG_FILES.join(', ')} and a "vssApi" key in package.json)\x1b[0m`);
+    return false;
+  }
+
+  // loadConfig reports every step it takes; only its verdict matters here
+  try {
+    loadConfig(configDir, true, { strict: true, quiet: true });
+  } catch (error) {
+    if (!(error instanceof ConfigValidationError)) throw error;
+    console.error(`\x1b[31m${error.message}\x1b[0m`);
+    return false;
+  }
+
+  configFiles.forEach(configFile => {
+    console.log(`\x1b[32m✅ ${path.relative(process.cwd(), configFile) || configFile} matches the config schema\x1b[0m`);
+  });
+  return true;
+}
 
 /**
  * Command to validate file case consistency in configuration
@@ -13,8 +44,17 @@ export function createValidateConfigCommand(program: Command): void {
     .option('-f, --fix', 'Apply automatic fixes to configuration files (creates backups)')
     .option('-v, --verbose', 'Show detailed information')
     .option('-p, --path <path>', 'Path to search for config files or specific config file', process.cwd())
+    .option('--strict', 'Check the config against its JSON Schema and exit non-zero on any problem')
     .action(async (options) => {
       try {
+        // Plain output with file:line:column positions, for CI logs and editors
+        if (options.strict) {
+          if (!validateStrict(options.path)) {
+            process.exitCode = 1;
+          }
+          return;
+        }
+
         const scriptPath = path.join(__dirname, '../../validate-file-cases-fixed.js');
         
         // Display welcome message
@@ -0,0 +1,35 @@
+/**
+ * Public API of the package, for config files written in TypeScript or JavaScript:
+ *
+ *   import { defineConfig } from 'vss-api-cli';
+ *
+ *   export default defineConfig({
+ *     basePath: 'src',
+ *     fileNameCase: 'kebab'
+ *   });
+ */
+import type { CliConfig } from './utils/configLoader';
+
+export type { CliConfig, ConfigFilePatterns, ConfigDirectories } from './utils/configLoader';
+
+/**
+ * Content of a config file: every setting is optional, unset ones keep their defaults
+ */
+export type VssApiConfig = Partial<CliConfig> & {
+  $schema?: string;
+  /**
+   * Configs whose settings this one inherits and overrides: a preset such as
+   * `vss:clean-architecture`, a config file, a directory with one, or an npm package
+   */
+  extends?: string | string[];
+};
+
+/**
+ * Declare the config of vss-api.config.ts with type checking and autocomplete
+ *
+ * @param config The project config
+ * @returns The config, unchanged
+ */
+export function defineConfig(config: VssApiConfig): VssApiConfig {
+  return config;
+}
@@ -8,7 +8,45 @@ import { createPortCommand } from './commands/createPort';
 import { createServiceCommand } from './commands/createService';
 import { createAdapterCommand } from './commands/createAdapter';
 import { createValidateConfigCommand } from './commands/validateConfig';
+import { createInitCommand } from './commands/initProject';
+import { createModelCommand } from './commands/createModel';
+import { createCrudCommand } from './commands/createCrud';
+import { createImportOpenApiCommand } from './commands/importOpenApi';
+import { createExportOpenApiCommand } from './commands/exportOpenApi';
+import { createBlueprintCommand } from './commands/blueprint';
+import { createTemplateCommand } from './commands/template';
+import { createConfigCommand } from './commands/config';
+import { createListCommand } from './commands/list';
+import { createArchLintCommand } from './commands/archLint';
+import { createGraphCommand } from './commands/graph';
+import { createDoctorCommand } from './commands/doctor';
+import { describePluginSchematics } from './utils/plugins';
 import { displayWithPagination } from './utils/fileUtils';
+import { findConfigDir } from './utils/configLoader';
+import { resolveWorkspaceProject } from './utils/workspaces';
+
+/**
+ * Commands that work on the current directory rather than on a project:
+ * init creates a new one, validate-config checks the path it is given
+ */
+const COMMANDS_OUTSIDE_PROJECT = ['init', 'validate-config'];
+
+/**
+ * Move to the directory of the project a command works on: the workspace package
+ * given by --project, or else the nearest directory above with a config file.
+ * Paths given to the command are then relative to that directory.
+ * @param project Name of a workspace package
+ * @param announce Print the directory when it changes
+ */
+function enterProject(project?: string, announce: boolean = true): void {
+  const projectDir = project ? resolveWorkspaceProject(project) : findConfigDir(process.cwd());
+  if (projectDir && projectDir !== process.cwd()) {
+    process.chdir(projectDir);
+    if (announce) {
+      console.log(`\x1b[90m📁 Working in ${projectDir}\x1b[0m`);
+    }
+  }
+}
 
 /**
  * Display a welcome message with ASCII art and action description
@@ -54,6 +92,10 @@ function displayWelcomeMessage(action: string, description?: string): void {
  */
 function getWelcomeMessage(commandName: string): { action: string, description: string } {
   const messages = {
+    'init': {
+      action: 'Creating a new Middy service project',
+      description: 'This will scaffold package.json, tsconfig, configuration and a sample domain'
+    },
     'create:domain': {
       action: 'Creating a new domain with models, services, and ports',
       description: 'This will scaffold a complete domain structure following hexagonal architecture principles'
@@ -74,6 +116,46 @@ function getWelcomeMessage(commandName: string): { action: string, description:
       action: 'Creating a new domain service',
       description: 'This will generate a service class in the domain layer'
     },
+    'create:crud': {
+      action: 'Creating the full REST handler set for an entity',
+      description: 'This will generate list/get/create/update/delete handlers, DTOs, service methods and a repository port'
+    },
+    'create:model': {
+      action: 'Creating a new domain model',
+      description: 'This will generate a typed model class and an optional Zod schema in the domain layer'
+    },
+    'import:openapi': {
+      action: 'Importing an OpenAPI document',
+      description: 'This will generate a handler and Zod DTOs for each new operation, grouped into domains by tag'
+    },
+    'export:openapi': {
+      action: 'Exporting an OpenAPI document',
+      description: 'This will write an OpenAPI 3.1 file from the handler routes and their Zod DTOs'
+    },
+    'blueprint': {
+      action: 'Applying a service blueprint',
+      description: 'This will generate every domain, port, adapter, service and handler the blueprint declares'
+    },
+    'template': {
+      action: 'Ejecting built-in templates',
+      description: 'This will copy the templates of a component into your project so you can change the generated code'
+    },
+    'config': {
+      action: 'Working with the project configuration',
+      description: 'This will create the configuration, or show where each setting comes from and where files are created'
+    },
+    'list': {
+      action: 'Listing the components of the project',
+      description: 'This will show each domain with its models, services, ports and adapters, and the handlers using them'
+    },
+    'arch:lint': {
+      action: 'Checking the architecture of the project',
+      description: 'This will report the imports that break the dependency rules between domains, ports, adapters and handlers'
+    },
+    'doctor': {
+      action: 'Checking the project',
+      description: 'This will check the packages, TypeScript options and configuration the generated code needs'
+    },
     'generate': {
       action: 'Generating components using schematics',
       description: 'This operation will scaffold components based on the specified schematic'
@@ -104,11 +186,24 @@ function getWelcomeMessage(commandName: string): { action: string, description:
 function displayHelpSuggestion(): void {
   console.log("\x1b[33mℹ️  Need help? Run one of these commands:\x1b[0m");
   console.log("  \x1b[36mvss-api-cli --help\x1b[0m                 Show general CLI help");
+  console.log("  \x1b[36mvss-api-cli init --help\x1b[0m            Show project scaffolding help");
   console.log("  \x1b[36mvss-api-cli create:domain --help\x1b[0m    Show domain generator help");
   console.log("  \x1b[36mvss-api-cli create:handler --help\x1b[0m   Show handler generator help");
   console.log("  \x1b[36mvss-api-cli create:port --help\x1b[0m      Show port generator help");
   console.log("  \x1b[36mvss-api-cli create:adapter --help\x1b[0m   Show adapter generator help");
   console.log("  \x1b[36mvss-api-cli create:service --help\x1b[0m   Show service generator help");
+  console.log("  \x1b[36mvss-api-cli create:model --help\x1b[0m     Show model generator help");
+  console.log("  \x1b[36mvss-api-cli create:crud --help\x1b[0m      Show CRUD generator help");
+  console.log("  \x1b[36mvss-api-cli import:openapi --help\x1b[0m   Show OpenAPI import help");
+  console.log("  \x1b[36mvss-api-cli export:openapi --help\x1b[0m   Show OpenAPI export help");
+  console.log("  \x1b[36mvss-api-cli blueprint apply --help\x1b[0m Show blueprint help");
+  console.log("  \x1b[36mvss-api-cli template eject --help\x1b[0m Show template eject help");
+  console.log("  \x1b[36mvss-api-cli config init --help\x1b[0m    Show config wizard help");
+  console.log("  \x1b[36mvss-api-cli config show --help\x1b[0m    Show config show help");
+  console.log("  \x1b[36mvss-api-cli list --help\x1b[0m           Show project inventory help");
+  console.log("  \x1b[36mvss-api-cli arch:lint --help\x1b[0m      Show architecture lint help");
+  console.log("  \x1b[36mvss-api-cli graph --help\x1b[0m          Show architecture graph help");
+  console.log("  \x1b[36mvss-api-cli doctor --help\x1b[0m         Show project check help");
   console.log("  \x1b[36mvss-api-cli validate-config --help\x1b[0m  Show config validation help");
   console.log();
 }
@@ -117,26 +212,36 @@ async function main() {
   const program = new Command();
   
   // Get the command being executed and display welcome banner ALWAYS
-  let commandName = process.argv.length > 2 ? process.argv[2] : 'default';
+  const projectOption = process.argv.findIndex(arg => arg === '--project' || arg.startsWith('--project='));
+  const commandArgs = projectOption === 2 ? process.argv.slice(process.argv[2]!.includes('=') ? 3 : 4) : process.argv.slice(2);
+  let commandName = commandArgs.length > 0 ? commandArgs[0] : 'default';
   
   // If help flag is present, use 'help' as command name for welcome message
   if (process.argv.includes('--help') || process.argv.includes('-h')) {
     commandName = 'help';
   }
   
-  // Display welcome message regardless of command
-  const { action, description } = getWelcomeMessage(commandName || 'default');
-  displayWelcomeMessage(action, description);
+  // Display welcome message regardless of command, except for output meant for other programs:
+  // --json, a --format other than text, or a graph. The validate-config report stands on its own.
+  const formatOption = process.argv.findIndex(arg => arg === '--format' || arg.startsWith('--format='));
+  const format = formatOption < 0 ? undefined : process.argv[formatOption]!.split('=')[1] ?? process.argv[formatOption + 1];
+  const jsonOutput = process.argv.includes('--json') || (format !== undefined && format !== 'text') || commandName === 'graph';
+  if (!jsonOutput && commandName !== 'validate-config') {
+    const { action, description } = getWelcomeMessage(commandName || 'default');
+    displayWelcomeMessage(action, description);
+  }
   
   // Create and configure the program
   program
     .name('vss-api-cli')
     .description(`CLI tool for scaffolding Middy-based serverless projects.`)
     .version('1.0.0')
-    .hook('preAction', async () => {
+    .option('--project <name>', 'Run in a package of the npm, yarn or pnpm workspace, by package name or directory')
+    .addHelpText('after', () => describePluginSchematics())
+    .hook('preAction', async (_program, actionCommand) => {
       // For the root --help command, show detailed help with pagination
       // But don't clear the screen since we already displayed the welcome banner
-      if ((process.argv.includes('--help') || process.argv.includes('-h')) && process.argv.length <= 3) {
+      if ((process.argv.includes('--help') || process.argv.includes('-h')) && commandArgs.length <= 1) {
         const helpContent = `
 CLI tool for scaffolding Middy-based serverless projects using schematics.
     
@@ -147,34 +252,75 @@ CLI tool for scaffolding Middy-based serverless projects using schematics.
   • Create domain services with best practices
   
 📝 Examples:
+  $ vss-api-cli init user-service
   $ vss-api-cli create:domain user
   $ vss-api-cli create:handler createUser --schema
   $ vss-api-cli create:port UserRepository -d user
   $ vss-api-cli create:service UserCreator -d user
+  $ vss-api-cli create:model User -d user --fields "id:uuid,email:email" --schema
+  $ vss-api-cli create:crud User -d user --fields "id:uuid,email:email"
+  $ vss-api-cli import:openapi openapi.yaml
+  $ vss-api-cli export:openapi -o openapi.yaml
+  $ vss-api-cli blueprint apply vss-blueprint.yaml
+  $ vss-api-cli template eject handler
+  $ vss-api-cli config init
+  $ vss-api-cli list --domain user
+  $ vss-api-cli arch:lint --format sarif -o arch-lint.sarif
+  $ vss-api-cli graph --domain user -o doc/docs/architecture.md
+  $ vss-api-cli doctor --fix
+  $ vss-api-cli config show --component handler --name createUser
+  $ vss-api-cli --project @acme/orders create:handler listOrders
 
 Available Commands:
+  • init                   Scaffold a new Middy service project
   • create:domain    (cd)  Scaffold a new domain with models, services, and ports
   • create:handler   (ch)  Generate a new API handler with request schema validation
   • create:port      (cp)  Create a new port interface and adapter implementation
   • create:service   (cs)  Generate a new domain service
+  • create:model     (cm)  Generate a domain model with typed fields
+  • create:crud      (cc)  Generate list/get/create/update/delete handlers for an entity
+  • import:openapi   (io)  Generate handlers and DTOs from an OpenAPI 3 document
+  • export:openapi   (eo)  Write an OpenAPI 3.1 document from the handlers and DTOs
+  • blueprint apply        Generate a service skeleton from a blueprint file
+  • template eject         Copy built-in templates into the project to customize them
+  • config init            Create vss-api.config.json with an interactive wizard
+  • config show            Print the resolved configuration and the path of each file
+  • list             (ls)  List domains, models, services, ports, adapters and handlers
+  • arch:lint        (al)  Check imports against the hexagonal dependency rules
+  • graph                  Draw handlers, services, ports and adapters as Mermaid, DOT or JSON
+  • doctor                 Check dependencies, tsconfig and config; --fix installs packages
   • generate, g           Generate components using schematics
-
+${describePluginSchematics()}
 🔧 Environment Variables:
   OUTPUT_DIR        Set a default output directory for generated files
   
 ⚙️  Configuration:
-  The CLI will look for a vss-api.config.json file in your project root for default settings.
+  The CLI will look for a vss-api.config.json (or .yaml, .js, .cjs, .ts) file or a "vssApi" key in
+  package.json in your project root for default settings.
+  Its "plugins" list adds schematic collections from npm packages or directories to generate.
+  Commands run in the nearest directory above with a config, whose "extends" field can inherit
+  shared settings; --project <name> picks a package of an npm, yarn or pnpm workspace instead.
   
 📚 Documentation:
   For detailed documentation and guides, visit: https://github.com/yourusername/vss-api-cli
 
 Options:
   -V, --version              Output the version number
+  --project <name>           Run in a workspace package, by package name or directory
   -h, --help                Display this help message`;
 
         await displayWithPagination(helpContent);
         process.exit(0);
       }
+
+      if (!COMMANDS_OUTSIDE_PROJECT.includes(actionCommand.name())) {
+        try {
+          enterProject(program.opts().project, !jsonOutput);
+        } catch (error: any) {
+          console.error(`\x1b[31mError: ${error.message}\x1b[0m`);
+          process.exit(1);
+        }
+      }
     });
 
   // Override Commander's built-in help display function to maintain our welcome banner
@@ -204,15 +350,20 @@ Options:
   \x1b[33m•\x1b[0m \x1b[1mdomain\x1b[0m   - Complete domain structure with models, services, and ports
   \x1b[33m•\x1b[0m \x1b[1mport\x1b[0m     - Port interface and adapter implementation
   \x1b[33m•\x1b[0m \x1b[1mservice\x1b[0m  - Domain service class
+  \x1b[33m•\x1b[0m \x1b[1m<plugin schematic>\x1b[0m - Any schematic of the collections in the "plugins" config
     
 \x1b[36m💡 Examples:\x1b[0m
   \x1b[90m$\x1b[0m vss-api-cli create:handler createUser
   \x1b[90m$\x1b[0m vss-api-cli create:domain payment --path src/domains
-  \x1b[90m$\x1b[0m vss-api-cli create:port UserRepository --domain user`)
+  \x1b[90m$\x1b[0m vss-api-cli create:port UserRepository --domain user
+  \x1b[90m$\x1b[0m vss-api-cli generate audit-log UserAudit --domain user`)
+    .addHelpText('after', () => describePluginSchematics())
     .option('--dry-run', 'Run through without making any changes')
     .option('--output-dir <path>', 'Specify output directory for generated code')
     .option('--force', 'Override existing files')
     .allowUnknownOption()
+    // Values of the schematic options after the name, e.g. --domain user
+    .allowExcessArguments()
     .action(async (schematic: string, name: string | undefined, cmdOptions: { dryRun?: boolean, outputDir?: string, force?: boolean }) => {
       const cli = new SchematicsCli();
       // Pass the schematic name, the command options object (which includes name, path, etc.), dryRun, and force flags
@@ -220,7 +371,7 @@ Options:
         name: name,
         ...cmdOptions, // Includes dryRun, outputDir, force from commander
         // Capture any unknown options passed after schematic and name
-        options: process.argv.slice(process.argv.indexOf(name || schematic) + (name ? 1 : 0) + 1)
+        options: process.argv.slice(process.argv.indexOf(name || schematic) + 1)
       };
 
       try {
@@ -239,10 +390,22 @@ Options:
     });
 
   // Add our custom command implementations
+  program.addCommand(createInitCommand());
   program.addCommand(createDomainCommand());
   program.addCommand(createHandlerCommand());
   program.addCommand(createPortCommand());
   program.addCommand(createServiceCommand());
+  program.addCommand(createModelCommand());
+  program.addCommand(createCrudCommand());
+  program.addCommand(createImportOpenApiCommand());
+  program.addCommand(createExportOpenApiCommand());
+  program.addCommand(createBlueprintCommand());
+  program.addCommand(createTemplateCommand());
+  program.addCommand(createConfigCommand());
+  program.addCommand(createListCommand());
+  program.addCommand(createArchLintCommand());
+  program.addCommand(createGraphCommand());
+  program.addCommand(createDoctorCommand());
   program.addCommand(createAdapterCommand());
   createValidateConfigCommand(program);
 
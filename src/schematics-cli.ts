@@ -2,7 +2,8 @@ import {
     SchematicEngine,
     formats,
     SchematicDescription, 
-    Collection // Import Collection
+    Collection, // Import Collection
+    FileAlreadyExistException
 } from '@angular-devkit/schematics';
 import {
     NodeModulesTestEngineHost,
@@ -14,12 +15,18 @@ import {
     logging, 
     JsonObject, 
     virtualFs,
-    normalize 
+    normalize,
+    Path
 } from '@angular-devkit/core';
 import { NodeJsSyncHost } from '@angular-devkit/core/node'; 
+import { Observable, from, of, concatMap } from 'rxjs';
 import * as path from 'path';
 import * as fs from 'fs-extra';
-import { loadConfig, CliConfig } from './utils/configLoader';
+import { loadConfig, findConfigDir, CliConfig } from './utils/configLoader';
+import { recordGeneration, getGeneratedFileStatus, loadManifest, Manifest } from './utils/manifest';
+import { ConflictStrategy, renamedFilePath, promptConflictResolution } from './utils/conflicts';
+import { PlannedFile } from './utils/filePreview';
+import { loadPlugins, findPluginSchematic } from './utils/plugins';
 import { DryRunEvent, DryRunErrorEvent } from '@angular-devkit/schematics/src/sink/dryrun';
 
 // Basic logger implementation compatible with LoggerApi
@@ -27,6 +34,8 @@ class SimpleConsoleLogger extends logging.IndentLogger {
     constructor(name = 'vss-cli', parent: logging.Logger | null = null) {
         super(name, parent);
 
+        // Entries of child loggers, such as the one schematics get, reach the root logger too
+        if (parent) return;
         this._observable.subscribe(entry => {
             let color = (x: string) => x; // Default no color
             // Explicitly type output to allow both stdout and stderr
@@ -55,14 +64,143 @@ class SimpleConsoleLogger extends logging.IndentLogger {
     }
 }
 
+/**
+ * Workflow host that applies a conflict strategy to files that already exist.
+ *
+ * Existing files are hidden from the schematic tree, so the schematic creates them as usual.
+ * Every file the dry-run sink reports is planned with `planWrite` before the host sink writes
+ * anything, and the writes then follow the plan: with the `error` strategy a single conflict
+ * stops the run before any file is written. Existing files still exactly as the generation
+ * manifest recorded them are marked `unmodified`, so the report and the prompt can say so.
+ * Every file actually written is kept in `writtenFiles` for the generation manifest.
+ */
+class ConflictResolvingHost extends virtualFs.ResolverHost<{}> {
+    readonly writtenFiles = new Map<string, Buffer>();
+    private readonly plannedWrites = new Map<Path, PlannedFile>();
+    private readonly syncHost: virtualFs.SyncDelegateHost<{}>;
+    private manifest?: Manifest;
+
+    /**
+     * @param delegate Host scoped to the workflow root
+     * @param strategy What to do with files that already exist
+     * @param workflowRoot Absolute path of the directory files are written to
+     * @param manifestRoot Project root holding the generation manifest
+     */
+    constructor(
+        delegate: virtualFs.Host<{}>,
+        private readonly strategy: ConflictStrategy,
+        private readonly workflowRoot: string,
+        readonly manifestRoot: string
+    ) {
+        super(delegate);
+        this.syncHost = new virtualFs.SyncDelegateHost(delegate);
+    }
+
+    protected _resolve(filePath: Path): Path {
+        return filePath;
+    }
+
+    private isExistingFile(filePath: Path): boolean {
+        return this.syncHost.exists(filePath) && this.syncHost.isFile(filePath);
+    }
+
+    override exists(filePath: Path): Observable<boolean> {
+        return this.isExistingFile(filePath) ? of(false) : super.exists(filePath);
+    }
+
+    override isFile(filePath: Path): Observable<boolean> {
+        return this.isExistingFile(filePath) ? of(false) : super.isFile(filePath);
+    }
+
+    /**
+     * Decide what writing a file does, and remember it for the actual write
+     */
+    planWrite(filePath: Path, content: Buffer): PlannedFile {
+        const planned = this.computePlan(filePath, content);
+        this.plannedWrites.set(filePath, planned);
+        return planned;
+    }
+
+    private computePlan(filePath: Path, content: Buffer): PlannedFile {
+        const relativePath = filePath.substring(1);
+        if (!this.isExistingFile(filePath)) {
+            return { path: relativePath, action: 'create', size: content.length };
+        }
+        if (Buffer.from(this.syncHost.read(filePath)).equals(content)) {
+            return { path: relativePath, action: 'unchanged', size: content.length };
+        }
+        const unmodified = this.generatedStatus(relativePath) === 'unmodified' || undefined;
+        switch (this.strategy) {
+            case 'rename':
+                return { path: this.renamedPath(filePath).substring(1), action: 'rename', size: content.length, existingPath: relativePath, unmodified };
+            case 'skip':
+            case 'overwrite':
+            case 'prompt':
+                return { path: relativePath, action: this.strategy, size: content.length, unmodified };
+            default:
+                return { path: relativePath, action: 'conflict', size: content.length, unmodified };
+        }
+    }
+
+    override write(filePath: Path, content: virtualFs.FileBufferLike): Observable<void> {
+        const conflict = [...this.plannedWrites.values()].find(planned => planned.action === 'conflict');
+        if (conflict) {
+            throw new FileAlreadyExistException(`/${conflict.path}`);
+        }
+
+        const buffer = Buffer.from(content as ArrayBuffer);
+        const planned = this.plannedWrites.get(filePath) || this.computePlan(filePath, buffer);
+
+        if (planned.action !== 'prompt') {
+            return this.applyWrite(planned, buffer);
+        }
+
+        const existingContent = Buffer.from(this.syncHost.read(filePath)).toString('utf-8');
+        return from(promptConflictResolution(planned.path, existingContent, buffer.toString('utf-8'), planned.unmodified)).pipe(
+            concatMap(resolution => this.applyWrite(
+                resolution === 'rename'
+                    ? { ...planned, action: resolution, path: this.renamedPath(filePath).substring(1), existingPath: planned.path }
+                    : { ...planned, action: resolution },
+                buffer
+            ))
+        );
+    }
+
+    private applyWrite(planned: PlannedFile, content: Buffer): Observable<void> {
+        if (planned.action === 'skip' || planned.action === 'unchanged') {
+            return of(undefined);
+        }
+        this.writtenFiles.set(planned.path, content);
+        return super.write(normalize(`/${planned.path}`), content);
+    }
+
+    /**
+     * How an existing file compares with what the generator last wrote to it
+     *
+     * @param relativePath Path relative to the workflow root
+     */
+    private generatedStatus(relativePath: string) {
+        this.manifest = this.manifest || loadManifest(this.manifestRoot);
+        return getGeneratedFileStatus(this.manifestRoot, path.join(this.workflowRoot, relativePath), this.manifest);
+    }
+
+    private renamedPath(filePath: Path): Path {
+        return normalize(renamedFilePath(filePath, candidate => this.syncHost.exists(normalize(candidate))));
+    }
+}
+
 export class SchematicsCli {
-    private logger: logging.Logger = new SimpleConsoleLogger();
+    private logger: logging.Logger;
     // We'll initialize these during workflow setup for each run
     private engineHost!: NodeModulesTestEngineHost;
     private engine!: SchematicEngine<{}, {}>;
 
-    constructor() {
+    /**
+     * @param quiet Log nothing, e.g. when a dry run only feeds a file preview
+     */
+    constructor(private readonly quiet = false) {
         // We'll initialize the engine and host in the initializeWorkflow method
+        this.logger = quiet ? new logging.NullLogger() : new SimpleConsoleLogger();
     }
 
     /**
@@ -168,24 +306,25 @@ export class SchematicsCli {
         return options;
     }
     
-    // Pass dryRun and force to initializeWorkflow
+    // Pass dryRun and the conflict strategy to initializeWorkflow
     private async initializeWorkflow(
         effectiveOutputDir: string, // The actual directory where files should be written
         dryRun: boolean, 
-        force: boolean
+        conflictStrategy: ConflictStrategy
     ): Promise<{
         // Return the Collection object
         collection: Collection<{}, {}>; 
         workflow: NodeWorkflow;
+        host: ConflictResolvingHost;
         workflowRoot: string; // This should be the effectiveOutputDir normalized
         config: CliConfig | null; // Config loaded from CWD
         collectionName: string; 
         registry: schema.SchemaRegistry;
     }> {
-        // Always load config directly from the current working directory
+        // Load the config of the project files are written to: the nearest config from the output directory up
         const cwd = process.cwd();
-        this.logger.info(`Loading config relative to CWD: ${cwd}`);
-        const config = loadConfig('.', false); // Always load from CWD, not treating it as absolute
+        this.logger.info(`Loading config from the output directory: ${path.resolve(cwd, effectiveOutputDir)}`);
+        const config = loadConfig(path.resolve(cwd, effectiveOutputDir), true, { quiet: this.quiet && 'all' });
 
         // The workflow root should be the directory where operations happen
         // Make sure the path is normalized correctly to avoid path issues
@@ -215,18 +354,28 @@ export class SchematicsCli {
         
         const collectionName = 'vss-cli-schematics'; // Internal registration name
 
-        this.logger.info(`🔧 Using configuration from ${config ? 'vss-api.config.json found in CWD' : 'defaults'}`);
+        this.logger.info(`🔧 Using configuration from ${config ? 'the project config files' : 'defaults'}`);
         if (config) {
             this.logger.info(`Using fileNameCase from config: ${config.fileNameCase || 'default (pascal)'}`);
         }
 
         const registry = new schema.CoreSchemaRegistry(formats.standardFormats);
         
-        // Host is scoped to the workflowRoot (where files will be written)
-        const host = new virtualFs.ScopedHost(new NodeJsSyncHost(), workflowRoot); 
+        // Host is scoped to the workflowRoot (where files will be written) and resolves
+        // conflicts with existing files according to the strategy. The manifest belongs to the
+        // project: the directory of its config, or the working directory when it has none.
+        const outputDir = path.resolve(cwd, effectiveOutputDir);
+        const fromCwd = path.relative(cwd, outputDir);
+        const manifestRoot = findConfigDir(outputDir) || (fromCwd.startsWith('..') || path.isAbsolute(fromCwd) ? outputDir : cwd);
+        const host = new ConflictResolvingHost(
+            new virtualFs.ScopedHost(new NodeJsSyncHost(), workflowRoot),
+            conflictStrategy,
+            workflowRoot,
+            manifestRoot
+        );
         
         const workflow = new NodeWorkflow(host, {
-            force: force, 
+            force: conflictStrategy !== 'error', 
             dryRun: dryRun, 
             packageManager: 'npm', 
             registry: registry,
@@ -305,6 +454,7 @@ Try manually checking:
         return { 
             collection, 
             workflow, 
+            host,
             workflowRoot, 
             config, 
             collectionName, 
@@ -436,23 +586,81 @@ Try manually checking:
         }
     }
     
+    /**
+     * Find the collection a schematic comes from: the built-in one, or the plugin
+     * collection of the config that declares it
+     *
+     * @throws When the name matches schematics of several plugins
+     */
+    private resolveSchematic(
+        schematicName: string,
+        collection: Collection<{}, {}>,
+        collectionName: string,
+        config: CliConfig | null
+    ): { collection: Collection<{}, {}>; collectionName: string; name: string } {
+        try {
+            collection.createSchematic(schematicName);
+            return { collection, collectionName, name: schematicName };
+        } catch {
+            // Not a built-in schematic
+        }
+
+        const pluginSchematic = findPluginSchematic(schematicName, loadPlugins(config || {}));
+        if (!pluginSchematic) {
+            // Let the built-in collection report the missing schematic
+            return { collection, collectionName, name: schematicName };
+        }
+
+        this.logger.info(`Using schematic '${pluginSchematic.name}' from plugin '${pluginSchematic.plugin}'`);
+        return {
+            collection: this.engine.createCollection(pluginSchematic.collectionPath),
+            collectionName: pluginSchematic.collectionPath,
+            name: pluginSchematic.name
+        };
+    }
+
+    /**
+     * Run a schematic of the collection, or of a plugin collection
+     *
+     * @param schematicName Name of the schematic in collection.json, or of a plugin schematic (`<plugin>:<schematic>` to pick a plugin)
+     * @param options Schematic options; `path` or `outputDir` sets the output directory
+     * @param dryRun Report the changes without writing them
+     * @param force Overwrite existing files (same as the `overwrite` conflict strategy)
+     * @param onConflict What to do with files that already exist; takes precedence over `force`
+     * @returns The files the run wrote, or would write in a dry run, with what happened to each
+     * @throws The schematic error when the run fails, e.g. a file that already exists with the `error` strategy
+     */
     async run(
         schematicName: string,
         options: any, 
         dryRun = false,
-        force = false
-    ): Promise<void> {
+        force = false,
+        onConflict?: ConflictStrategy
+    ): Promise<PlannedFile[]> {
         // Determine the base directory for output. Prioritize --output-dir, then --path, then CWD.
         const outputBase = options.outputDir || options.path || '.'; 
+        const conflictStrategy: ConflictStrategy = onConflict || (force ? 'overwrite' : 'error');
         
         // Initialize workflow with the determined output base directory
-        const { collection, workflow, workflowRoot, config, collectionName } = await this.initializeWorkflow(outputBase, dryRun, force); 
+        const initialized = await this.initializeWorkflow(outputBase, dryRun, conflictStrategy);
+        const { workflow, host, workflowRoot, config } = initialized;
+
+        // Schematics the built-in collection does not have may come from a plugin collection
+        let resolved: ReturnType<SchematicsCli['resolveSchematic']>;
+        try {
+            resolved = this.resolveSchematic(schematicName, initialized.collection, initialized.collectionName, config);
+        } catch (e: any) {
+            this.logger.fatal(`❌ ${e.message}`);
+            throw e;
+        }
+        const { collection, collectionName } = resolved;
+        schematicName = resolved.name;
 
         this.logger.info(`Effective output directory: ${workflowRoot}`); // Use workflowRoot for clarity
 
         const parsedArgs = this.parseSchematicArgs(options.options || []);
         
-        // Pass the config loaded from CWD to the schematic
+        // Pass the project config to the schematic
         const schematicOptions: JsonObject = {
             ...parsedArgs, 
             ...options,   
@@ -469,6 +677,7 @@ Try manually checking:
         delete schematicOptions.yes;       
         delete schematicOptions.force;     // Handled by workflow constructor
         delete schematicOptions.dryRun;    // Handled by workflow constructor
+        delete schematicOptions.onConflict; // Handled by the workflow host
 
         this.logger.info(`Executing schematic: ${schematicName}`);
         this.logger.debug(`Collection Name for Execution: ${collectionName}`);
@@ -484,6 +693,7 @@ Try manually checking:
             schematicDescription = schematic.description; 
         } catch (e) {
              // Provide a more informative error if schematic loading fails
+             this.logger.fatal(`❌ Schematic "${schematicName}" not found in the built-in collection or in the plugins of the config.`);
              throw new Error(`Schematic "${schematicName}" not found or failed to load in collection "${collection.description.name}". Original error: ${e instanceof Error ? e.message : e}`);
         }
         
@@ -492,6 +702,9 @@ Try manually checking:
              throw new Error(`Failed to retrieve description for schematic "${schematicName}" in collection "${collection.description.name}".`);
         }
 
+        // Files of the run as reported by the dry-run sink, before anything is written
+        const plannedFiles: PlannedFile[] = [];
+
         workflow.reporter.subscribe((event: DryRunEvent) => {
             const eventPath = event.path.startsWith('/') ? event.path.substring(1) : event.path; 
             switch (event.kind) {
@@ -500,11 +713,37 @@ Try manually checking:
                     this.logger.error(`ERROR! ${eventPath} ${errorEvent.description}`); 
                     break;
                 case 'update':
+                    plannedFiles.push({ path: eventPath, action: 'update', size: event.content.length });
                     this.logger.info(`UPDATE ${eventPath} (${event.content.length} bytes)`);
                     break;
-                case 'create':
-                    this.logger.info(`CREATE ${eventPath} (${event.content.length} bytes)`);
+                case 'create': {
+                    // Existing files reach the sink as creations; report what the strategy does with them
+                    const planned = host.planWrite(normalize(event.path), event.content);
+                    plannedFiles.push(planned);
+                    switch (planned.action) {
+                        case 'unchanged':
+                            this.logger.info(`UNCHANGED ${eventPath}`);
+                            break;
+                        case 'overwrite':
+                            this.logger.info(`OVERWRITE ${eventPath} (${event.content.length} bytes)`);
+                            break;
+                        case 'skip':
+                            this.logger.warn(`SKIP ${eventPath} (already exists)`);
+                            break;
+                        case 'rename':
+                            this.logger.warn(`CREATE ${planned.path} (${event.content.length} bytes, ${eventPath} already exists)`);
+                            break;
+                        case 'prompt':
+                            this.logger.warn(`CONFLICT ${eventPath} (${planned.unmodified ? 'already exists, unmodified since generated' : 'already exists'})`);
+                            break;
+                        case 'conflict':
+                            this.logger.error(`CONFLICT ${eventPath} (${planned.unmodified ? 'already exists, unmodified since generated' : 'already exists'})`);
+                            break;
+                        default:
+                            this.logger.info(`CREATE ${eventPath} (${event.content.length} bytes)`);
+                    }
                     break;
+                }
                 case 'delete':
                     this.logger.info(`DELETE ${eventPath}`);
                     break;
@@ -543,14 +782,14 @@ Try manually checking:
                 logger: this.logger
             });
             
-            // Listen for various events to provide better feedback
-            tree$.subscribe({
-                error: (error: any) => {
-                    // Create a helpful error message for EISDIR errors
-                    const errorMsg = error instanceof Error ? error.message : String(error);
-                    
-                    if (errorMsg.includes('EISDIR')) {
-                        this.logger.fatal(`
+            // Wait for completion. The workflow observable is cold, so it must only be
+            // consumed once - a second subscription would execute the schematic again.
+            await tree$.toPromise().catch((error: any) => {
+                // Create a helpful error message for EISDIR errors
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                
+                if (errorMsg.includes('EISDIR')) {
+                    this.logger.fatal(`
 EISDIR error detected during schematic execution. This typically happens when the 
 system tries to read a directory as a file. Please check your schematic structure.
 
@@ -559,25 +798,36 @@ Details:
 - Collection: ${collectionName}
 - Working directory: ${process.cwd()}
 `);
-                    }
-                    
-                    // Make sure we still throw the error to terminate execution properly
-                    process.exitCode = 1;
                 }
+                
+                // Rethrow so the run is reported as failed below
+                throw error;
             });
-            
-            // Wait for completion
-            await tree$.toPromise();
 
             if (dryRun) {
+                if (plannedFiles.some(file => file.action === 'conflict')) {
+                    this.logger.warn('\n⚠️  Some files already exist. Use --force or --on-conflict to run this for real.');
+                }
                 this.logger.info('\n✨ Schematic run successful (dry run). No changes were made.');
             } else {
+                if (host.writtenFiles.size > 0) {
+                    recordGeneration(
+                        host.manifestRoot,
+                        schematicName,
+                        schematicOptions,
+                        Array.from(host.writtenFiles, ([filePath, content]) => ({ path: path.join(workflowRoot, filePath), content }))
+                    );
+                    this.logger.debug(`Recorded ${host.writtenFiles.size} file(s) in the generation manifest`);
+                }
                 this.logger.info('\n✨ Schematic run successful!');
             }
+            return plannedFiles;
         } catch (e: any) {
             // Log the full error, including stack trace if available
             this.logger.fatal(`❌ Schematic run failed: ${e.message || e}`, e.stack || e); 
             process.exitCode = 1; 
+            // Let the command report the failure (e.g. a file conflict) instead of its success message
+            throw e;
         }
     }
 }
@@ -587,8 +837,25 @@ export async function runSchematic(
     schematicName: string,
     options: any, 
     dryRun = false,
-    force = false
-): Promise<void> {
+    force = false,
+    onConflict?: ConflictStrategy
+): Promise<PlannedFile[]> {
     const cli = new SchematicsCli();
-    await cli.run(schematicName, options, dryRun, force);
+    return cli.run(schematicName, options, dryRun, force, onConflict);
+}
+
+/**
+ * Dry-run a schematic without any output and return the files it would write, for
+ * `renderFilePreview`. Conflicts with existing files are reported, not thrown.
+ */
+export async function previewSchematic(
+    schematicName: string,
+    options: any,
+    force = false,
+    onConflict?: ConflictStrategy
+): Promise<PlannedFile[]> {
+    // The schematics report progress on the logger of the quiet CLI and its config is
+    // loaded without warnings; the real run shows them
+    const cli = new SchematicsCli(true);
+    return cli.run(schematicName, options, true, force, onConflict);
 }
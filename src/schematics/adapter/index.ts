@@ -0,0 +1,70 @@
+import { strings } from '@angular-devkit/core';
+import {
+  Rule, SchematicsException, apply, applyTemplates, mergeWith, move, url, Tree, SchematicContext
+} from '@angular-devkit/schematics';
+import { AdapterSchema } from './schema';
+import * as path from 'path';
+import { normalizePath } from '../utils/configUtils';
+import { applyTemplateOverrides } from '../utils/templateUtils';
+
+/**
+ * Process template variables in config strings
+ */
+function processTemplate(template: string, vars: Record<string, string>): string {
+  if (!template) return '';
+  return template.replace(/\{\{([^}]+)\}\}/g, (_, key) => vars[key] || '');
+}
+
+export default function (options: AdapterSchema): Rule {
+  return (_tree: Tree, context: SchematicContext) => {
+    if (!options.name) {
+      throw new SchematicsException('Option (name) is required.');
+    }
+
+    const { classify } = strings;
+    const adapterType = options.adapterType || 'repository';
+    const portName = options.portName || classify(options.port);
+    const config = options._config || {};
+
+    // Resolve the adapter file location: explicit path from the command, otherwise config
+    let adapterFile: string;
+    if (options.adapterFilePath) {
+      adapterFile = normalizePath(options.adapterFilePath);
+    } else {
+      const templateVars = { domainName: options.domain, adapterType };
+      const adapterDir = processTemplate(config.directories?.adapter?.base || 'infra/{{adapterType}}', templateVars);
+      adapterFile = path.join(normalizePath(config.basePath || 'src'), adapterDir, `${classify(options.name)}${classify(adapterType)}Adapter.ts`);
+    }
+
+    context.logger.info(`Adapter file: ${adapterFile}`);
+
+    const templateSource = apply(url('./files'), [
+      applyTemplateOverrides('adapter', config),
+      applyTemplates({
+        ...strings,
+        name: options.name,
+        domain: options.domain,
+        adapterType,
+        portName,
+        methods: options.portMethods || [],
+        properties: options.portProperties || [],
+        typeImports: options.typeImports || []
+      }),
+      // The template produces a single file; rename it to the resolved adapter file name
+      (tree: Tree) => {
+        const target = `/${path.basename(adapterFile)}`;
+        const templateFiles: string[] = [];
+        tree.getDir('/').visit(filePath => {
+          templateFiles.push(filePath);
+        });
+        templateFiles
+          .filter(filePath => filePath !== target)
+          .forEach(filePath => tree.rename(filePath, target));
+        return tree;
+      },
+      move(path.dirname(adapterFile))
+    ]);
+
+    return mergeWith(templateSource);
+  };
+}
@@ -30,4 +30,23 @@ export interface AdapterSchema {
    * Fully qualified port name (for import).
    */
   portName?: string;
+  
+  /**
+   * Method stubs extracted from the port interface.
+   */
+  portMethods?: {
+    signature: string;
+    overloads: string[];
+    isAsync: boolean;
+  }[];
+  
+  /**
+   * Property declarations for the port's properties, e.g. `readonly sender!: string`.
+   */
+  portProperties?: string[];
+  
+  /**
+   * Import statements the stubs need, relative to the adapter file.
+   */
+  typeImports?: string[];
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+import {
+  Rule, SchematicsException, Tree, SchematicContext, chain, externalSchematic, schematic
+} from '@angular-devkit/schematics';
+import { BlueprintSchema } from './schema';
+
+/**
+ * Run every step of a blueprint against the same tree, so the whole service is
+ * written (or rejected) at once
+ */
+export default function (options: BlueprintSchema): Rule {
+  return (_tree: Tree, context: SchematicContext) => {
+    if (!options.steps || options.steps.length === 0) {
+      throw new SchematicsException('Option (steps) is required.');
+    }
+
+    context.logger.info(`Blueprint schematic running ${options.steps.length} step(s)`);
+
+    // Each step gets the config once passed to the blueprint, not a copy per step.
+    // Plugin schematics run from their own collection.
+    return chain(options.steps.map(step => {
+      const stepOptions = { ...step.options, _config: options._config || {} };
+      return step.collection
+        ? externalSchematic(step.collection, step.schematic, stepOptions)
+        : schematic(step.schematic, stepOptions);
+    }));
+  };
+}
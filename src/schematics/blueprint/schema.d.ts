@@ -0,0 +1,23 @@
+export interface BlueprintSchema {
+  /**
+   * Schematics to run, in order, with their options.
+   */
+  steps: {
+    schematic: string;
+    /**
+     * Path of the collection.json of a plugin schematic; the built-in collection when not set.
+     */
+    collection?: string;
+    options: { [key: string]: any };
+  }[];
+
+  /**
+   * The path to create the files.
+   */
+  path?: string;
+
+  /**
+   * Internal configuration passed from command.
+   */
+  _config?: any;
+}
@@ -4,7 +4,9 @@ import {
 } from '@angular-devkit/schematics';
 import { Schema } from './schema';
 import * as path from 'path';
-import { normalizePath } from '../utils/configUtils';
+import { normalizePath, relativeImportPath } from '../utils/configUtils';
+import { renderModel, renderModelSchema } from '../utils/modelUtils';
+import { renderTemplate } from '../utils/templateUtils';
 
 // Importing strings directly from Angular DevKit to ensure compatibility
 const { classify, dasherize, camelize, underscore } = strings;
@@ -15,14 +17,14 @@ function processTemplate(template: string, vars: Record<string, string>): string
 }
 
 export default function (options: Schema): Rule {
-  return (_tree: Tree, _context: SchematicContext) => {
+  return (_tree: Tree, context: SchematicContext) => {
     if (!options.name) {
       throw new SchematicsException('Option (name) is required.');
     }
 
     // Get fileNameCase from options or config
     const fileNameCase = options.fileNameCase || 'pascal';
-    console.log(`Domain schematic using fileNameCase: ${fileNameCase}`);
+    context.logger.info(`Domain schematic using fileNameCase: ${fileNameCase}`);
     
     // Format name based on fileNameCase config
     const formatName = (name: string): string => {
@@ -101,10 +103,10 @@ export default function (options: Schema): Rule {
     
     const srcRoot = normalizePath(configBasePath); // Just use the relative path directly
 
-    console.log(`Using name: ${options.name}`);
-    console.log(`Using formatted filename: ${modelName}`);
-    console.log(`Using class name: ${classModelName}`);
-    console.log(`Using src root: ${srcRoot}`);
+    context.logger.info(`Using name: ${options.name}`);
+    context.logger.info(`Using formatted filename: ${modelName}`);
+    context.logger.info(`Using class name: ${classModelName}`);
+    context.logger.info(`Using src root: ${srcRoot}`);
 
     // Create all directories using the tree but not .gitkeep files
     // which can cause path conflicts with system directories
@@ -114,7 +116,7 @@ export default function (options: Schema): Rule {
         // Make sure path is relative (no leading slash)
         const normalizedPath = dirPath.startsWith('/') ? dirPath.substring(1) : dirPath;
         // Directories are implicitly created when files are added
-        console.log(`Ensuring directory: ${normalizedPath}`);
+        context.logger.info(`Ensuring directory: ${normalizedPath}`);
         return normalizedPath;
       };
       
@@ -122,212 +124,145 @@ export default function (options: Schema): Rule {
       const normalizePath = (filePath: string): string => {
         return filePath.startsWith('/') ? filePath.substring(1) : filePath;
       };
-      
+
+      const adapterType = options.adapterType || 'repository';
+      const dirVars = { domainName, adapterType };
+
+      // Resolve every file up front so generated imports can point at the real paths.
+      // Use custom file paths if provided, otherwise build from config.
+      const modelFile = options.modelFilePath
+        ? normalizePath(options.modelFilePath)
+        : path.join(normalizePath(srcRoot),
+            processTemplate(config.directories?.model || `${domainName}/models`, dirVars),
+            processTemplate(config.filePatterns?.modelFile || '{{pascalName}}.ts',
+              { pascalName: classModelName, dashName: dasherize(modelName) }));
+
+      const serviceBaseName = options.serviceName || options.name;
+      const serviceClassName = formatClassName(serviceBaseName + 'Service');
+      const serviceFile = options.serviceFilePath
+        ? normalizePath(options.serviceFilePath)
+        : path.join(normalizePath(srcRoot),
+            processTemplate(config.directories?.service || `${domainName}/services`, dirVars),
+            processTemplate(config.filePatterns?.serviceFile || '{{pascalName}}Service.ts',
+              { pascalName: classify(serviceName) }));
+
+      // We calculate the port class name directly with the adapter type
+      const portBaseName = options.portName || options.name;
+      const portClassName = `I${formatClassName(portBaseName)}${classify(adapterType)}Port`;
+      const portFile = options.portFilePath
+        ? normalizePath(options.portFilePath)
+        : path.join(normalizePath(srcRoot),
+            processTemplate(config.directories?.port || `${domainName}/ports`, dirVars),
+            processTemplate(config.filePatterns?.portFile || `{{pascalName}}${classify(adapterType)}Port.ts`,
+              { pascalName: classify(portName), adapterType }));
+
+      const adapterBaseName = options.adapterName || options.name;
+      const adapterClassName = `${formatClassName(adapterBaseName)}${classify(adapterType)}Adapter`;
+      const adapterFile = options.adapterFilePath
+        ? normalizePath(options.adapterFilePath)
+        : path.join(normalizePath(srcRoot),
+            processTemplate(config.directories?.adapter?.base || `infra/${adapterType}`, dirVars),
+            processTemplate(config.filePatterns?.adapterFile || `{{pascalName}}${classify(adapterType)}Adapter.ts`,
+              { pascalName: classify(adapterName), adapterType }));
+
+      // Names used by the CRUD methods
+      const entityVar = camelize(classModelName);
+      const pluralName = options.pluralName || `${classModelName}s`;
+      const repositoryVar = `${entityVar}${classify(adapterType)}`;
+
+      // Variables shared by the service, port and adapter templates
+      const templateVars = {
+        name: options.name,
+        adapterType,
+        modelName: classModelName,
+        serviceName: serviceClassName,
+        portName: portClassName,
+        adapterName: adapterClassName,
+        entityVar,
+        pluralName,
+        repositoryVar
+      };
+
       // 1. Create the model file
       if (options.model !== false) {
-        let modelFile: string;
-        
-        // Use custom file path if provided, otherwise build from config
-        if (options.modelFilePath) {
-          modelFile = normalizePath(options.modelFilePath);
-          createDir(path.dirname(modelFile));
-        } else {
-          // Determine model directory from config
-          const modelDir = processTemplate(config.directories?.model || `${domainName}/models`, 
-            { domainName, adapterType: options.adapterType || 'repository' });
-          const dir = path.join(normalizePath(srcRoot), modelDir);
-          const normalizedDir = createDir(dir);
-          
-          // Determine model file name from config
-          const modelPattern = config.filePatterns?.modelFile || '{{pascalName}}.ts';
-          const fileName = processTemplate(modelPattern, 
-            { pascalName: classModelName, dashName: dasherize(modelName) });
-          
-          modelFile = path.join(normalizedDir, fileName);
-        }
-        
-        // Create the model file with basic domain entity structure
-        const modelContent = `/**
- * Domain model for ${classModelName}
- */
-export class ${classModelName} {
-  // Define your model properties here
-  // readonly id: string;
-
-  constructor(/* constructor parameters */) {
-    // Initialize properties
-  }
+        createDir(path.dirname(modelFile));
 
-  // Example method
-  // public someBusinessLogic(): void {
-  //   // ...
-  // }
-}`;
+        // Create the model file, with typed properties when fields were given
+        const modelFields = options.modelFields || [];
+        const modelContent = renderModel(classModelName, modelFields, userConfig);
         tree.create(modelFile, modelContent);
-        console.log(`Created model file: ${modelFile}`);
+        context.logger.info(`Created model file: ${modelFile}`);
+
+        // Create the Zod schema for the model fields if requested
+        if (options.modelSchema && modelFields.length > 0) {
+          let schemaFile: string;
+          if (options.modelSchemaFilePath) {
+            schemaFile = normalizePath(options.modelSchemaFilePath);
+          } else {
+            const schemaDir = processTemplate(config.directories?.schema || `${domainName}/schemas`, dirVars);
+            schemaFile = path.join(normalizePath(srcRoot), schemaDir, `${classModelName}Schema.ts`);
+          }
+          createDir(path.dirname(schemaFile));
+
+          tree.create(schemaFile, renderModelSchema(classModelName, modelFields, userConfig));
+          context.logger.info(`Created model schema file: ${schemaFile}`);
+        }
       }
       
       // 2. Create the service file
       if (options.service !== false) {
-        let serviceFile: string;
-        
-        // Use compound name formatting for service file
-        const serviceBaseName = options.serviceName || options.name;
-        const serviceSuffix = 'Service';
-        // We don't use serviceFileName directly, it's just for debug purposes
-        // const serviceFileName = formatCompoundFileName(serviceBaseName, serviceSuffix);
-        const serviceClassName = formatClassName(serviceBaseName + serviceSuffix);
+        createDir(path.dirname(serviceFile));
         
-        // Use custom file path if provided, otherwise build from config
-        if (options.serviceFilePath) {
-          serviceFile = normalizePath(options.serviceFilePath);
-          createDir(path.dirname(serviceFile));
-        } else {
-          // Determine service directory from config
-          const serviceDir = processTemplate(config.directories?.service || `${domainName}/services`, 
-            { domainName, adapterType: options.adapterType || 'repository' });
-          const dir = path.join(normalizePath(srcRoot), serviceDir);
-          const normalizedDir = createDir(dir);
-          
-          // Determine service file name from config
-          const servicePattern = config.filePatterns?.serviceFile || '{{pascalName}}Service.ts';
-          const fileName = processTemplate(servicePattern, 
-            { pascalName: classify(serviceName) });
-          
-          serviceFile = path.join(normalizedDir, fileName);
-        }
-        
-        // Create the service file with basic service structure
-        const serviceContent = `/**
- * Domain service for ${classModelName}
- */
-import { ${classModelName} } from '../models/${dasherize(modelName)}';
-
-export class ${serviceClassName} {
-  constructor(
-    // Inject ports/adapters here
-    // private readonly ${camelize(options.name)}Repository: I${classify(options.name)}Repository,
-  ) {}
-
-  // Define your service methods here
-  // Example:
-  // public async findById(id: string): Promise<${classModelName}> {
-  //   return this.${camelize(options.name)}Repository.findById(id);
-  // }
-
-  // public async create(${camelize(options.name)}: ${classModelName}): Promise<${classModelName}> {
-  //   return this.${camelize(options.name)}Repository.save(${camelize(options.name)});
-  // }
-}`;
+        // Create the service file, with CRUD methods delegating to the port if requested
+        const serviceContent = renderTemplate('domain', options.crud ? 'crud-service.ts.template' : 'service.ts.template', {
+          ...templateVars,
+          modelImportPath: relativeImportPath(serviceFile, modelFile),
+          portImportPath: relativeImportPath(serviceFile, portFile)
+        }, userConfig);
         tree.create(serviceFile, serviceContent);
-        console.log(`Created service file: ${serviceFile}`);
+        context.logger.info(`Created service file: ${serviceFile}`);
       }
       
       // 3. Create the port file (repository interface)
       if (options.port !== false) {
-        let portFile: string;
-        
-        // Use compound name formatting for port file
-        const portBaseName = options.portName || options.name;
-        // We calculate the port class name directly with the adapter type
-        const portClassName = `I${formatClassName(portBaseName)}${classify(options.adapterType || 'repository')}Port`;
-        
-        // Use custom file path if provided, otherwise build from config
-        if (options.portFilePath) {
-          portFile = normalizePath(options.portFilePath);
-          createDir(path.dirname(portFile));
-        } else {
-          // Determine port directory from config
-          const portDir = processTemplate(config.directories?.port || `${domainName}/ports`, 
-            { domainName, adapterType: options.adapterType || 'repository' });
-          const dir = path.join(normalizePath(srcRoot), portDir);
-          const normalizedDir = createDir(dir);
-          
-          // Determine port file name from config
-          const portPattern = config.filePatterns?.portFile || 
-            `{{pascalName}}${classify(options.adapterType || 'repository')}Port.ts`;
-          const fileName = processTemplate(portPattern, 
-            { pascalName: classify(portName), adapterType: options.adapterType || 'repository' });
-          
-          portFile = path.join(normalizedDir, fileName);
-        }
+        createDir(path.dirname(portFile));
         
         // Create the port file with repository interface
-        const portContent = `/**
- * Port interface for ${classify(options.adapterType || 'repository')} operations
- */
-import { ${classModelName} } from '../models/${dasherize(modelName)}';
-
-export interface ${portClassName} {
-  // Define your repository methods here
-  // findById(id: string): Promise<${classModelName}>;
-  // save(${camelize(options.name)}: ${classModelName}): Promise<${classModelName}>;
-}`;
+        const portContent = renderTemplate('domain', options.crud ? 'crud-port.ts.template' : 'port.ts.template', {
+          ...templateVars,
+          modelImportPath: relativeImportPath(portFile, modelFile)
+        }, userConfig);
         tree.create(portFile, portContent);
-        console.log(`Created port file: ${portFile}`);
+        context.logger.info(`Created port file: ${portFile}`);
       }
       
-      // 4. Create an adapter implementation
-      let adapterFile: string;
-      
-      // Use compound name formatting for adapter file
-      const adapterBaseName = options.adapterName || options.name;
-      // Calculate adapter class name directly
-      const adapterClassName = `${formatClassName(adapterBaseName)}${classify(options.adapterType || 'repository')}Adapter`;
-      
-      // Use custom file path if provided, otherwise build from config
-      if (options.adapterFilePath) {
-        adapterFile = normalizePath(options.adapterFilePath);
+      // 4. Create an adapter implementation for the port
+      if (options.port !== false && adapterType !== 'none') {
         createDir(path.dirname(adapterFile));
-      } else {
-        // Determine adapter directory from config
-        const adapterDir = processTemplate(config.directories?.adapter?.base || `infra/${options.adapterType || 'repository'}`, 
-          { domainName, adapterType: options.adapterType || 'repository' });
-        const dir = path.join(normalizePath(srcRoot), adapterDir);
-        const normalizedDir = createDir(dir);
-        
-        // Determine adapter file name from config
-        const adapterPattern = config.filePatterns?.adapterFile || 
-          `{{pascalName}}${classify(options.adapterType || 'repository')}Adapter.ts`;
-        const fileName = processTemplate(adapterPattern, 
-          { pascalName: classify(adapterName), adapterType: options.adapterType || 'repository' });
-        
-        adapterFile = path.join(normalizedDir, fileName);
-      }
-      
-      // Create the adapter file with repository implementation
-      const adapterContent = `/**
- * Adapter implementation for ${classify(options.adapterType || 'repository')} operations
- */
-import { ${classModelName} } from '../../${domainName}/models/${dasherize(modelName)}';
-import { I${classify(options.name)}${classify(options.adapterType || 'repository')}Port } from '../../${domainName}/ports/${dasherize(options.name + (options.adapterType || 'repository'))}-port';
 
-export class ${adapterClassName} implements I${classify(options.name)}${classify(options.adapterType || 'repository')}Port {
-  constructor(
-    // Inject infrastructure dependencies here
-    // private readonly dataSource: DataSource,
-  ) {}
+        // Create the adapter file with repository implementation
+        const adapterContent = renderTemplate('domain', options.crud ? 'crud-adapter.ts.template' : 'adapter.ts.template', {
+          ...templateVars,
+          modelImportPath: relativeImportPath(adapterFile, modelFile),
+          portImportPath: relativeImportPath(adapterFile, portFile)
+        }, userConfig);
+        tree.create(adapterFile, adapterContent);
+        context.logger.info(`Created adapter file: ${adapterFile}`);
+      }
 
-  // Implement the port interface methods here
-  // Example:
-  // async findById(id: string): Promise<${classModelName}> {
-  //   // Fetch from database or other storage
-  //   const entity = await this.dataSource.findOne(id);
-  //   // Map from infrastructure entity to domain model
-  //   return new ${classModelName}(entity.id, entity.name);
-  // }
+      // 5. Create the factory the CRUD handlers get their service from
+      if (options.crud && options.factoryFilePath && options.service !== false && options.port !== false && adapterType !== 'none') {
+        const factoryFile = normalizePath(options.factoryFilePath);
+        createDir(path.dirname(factoryFile));
 
-  // async save(${camelize(options.name)}: ${classModelName}): Promise<${classModelName}> {
-  //   // Map from domain model to infrastructure entity
-  //   const entity = { id: ${camelize(options.name)}.id, name: ${camelize(options.name)}.name };
-  //   // Save to database
-  //   const saved = await this.dataSource.save(entity);
-  //   // Map back to domain model
-  //   return new ${classModelName}(saved.id, saved.name);
-  // }
-}`;
-      tree.create(adapterFile, adapterContent);
-      console.log(`Created adapter file: ${adapterFile}`);
+        const factoryContent = renderTemplate('domain', 'crud-factory.ts.template', {
+          ...templateVars,
+          serviceImportPath: relativeImportPath(factoryFile, serviceFile),
+          adapterImportPath: relativeImportPath(factoryFile, adapterFile)
+        }, userConfig);
+        tree.create(factoryFile, factoryContent);
+        context.logger.info(`Created factory file: ${factoryFile}`);
+      }
       
       return tree;
     };
@@ -14,6 +14,26 @@ export interface Schema {
    */
   modelName?: string;
 
+  /**
+   * Typed fields for the model, parsed from a --fields spec.
+   */
+  modelFields?: {
+    name: string;
+    optional: boolean;
+    tsType: string;
+    zodType: string;
+  }[];
+
+  /**
+   * Whether to generate a Zod schema for the model fields.
+   */
+  modelSchema?: boolean;
+
+  /**
+   * Custom file path for the model's Zod schema file.
+   */
+  modelSchemaFilePath?: string;
+
   /**
    * Whether to generate a domain service or not.
    */
@@ -49,6 +69,21 @@ export interface Schema {
    */
   adapterName?: string;
 
+  /**
+   * Whether to generate CRUD methods in the service, port and adapter.
+   */
+  crud?: boolean;
+
+  /**
+   * File of the factory wiring the CRUD service to its adapter, for the handlers to call.
+   */
+  factoryFilePath?: string;
+
+  /**
+   * Plural form of the model name, used for the list method (defaults to {Model}s).
+   */
+  pluralName?: string;
+
   /**
    * The path to create the domain directory.
    */
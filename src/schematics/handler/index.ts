@@ -1,11 +1,12 @@
-import { strings } from '@angular-devkit/core';
+import { strings, normalize } from '@angular-devkit/core';
 import {
   Rule, SchematicsException, apply, applyTemplates, chain,
-  filter, mergeWith, Tree, SchematicContext
+  filter, forEach, mergeWith, FileEntry, Tree, SchematicContext
 } from '@angular-devkit/schematics';
 import { Schema } from './schema';
 import * as path from 'path';
 import { normalizePath } from '../utils/configUtils';
+import { applyTemplateOverrides } from '../utils/templateUtils';
 
 /**
  * Process template variables in config strings
@@ -15,13 +16,38 @@ function processTemplate(template: string, vars: Record<string, string>): string
   return template.replace(/\{\{([^}]+)\}\}/g, (_, key) => vars[key] || '');
 }
 
+/**
+ * aws-lambda types, payload location and Middy middleware for each event trigger
+ */
+const TRIGGERS: Record<string, {
+  name: string;
+  label: string;
+  eventType: string;
+  recordType?: string;
+  payload: string;
+  normalizer: boolean;
+}> = {
+  http: { name: 'http', label: 'API Gateway', eventType: 'APIGatewayProxyEvent', payload: 'event.body', normalizer: false },
+  sqs: { name: 'sqs', label: 'SQS', eventType: 'SQSEvent', recordType: 'SQSRecord', payload: 'record.body', normalizer: true },
+  sns: { name: 'sns', label: 'SNS', eventType: 'SNSEvent', recordType: 'SNSEventRecord', payload: 'record.Sns.Message', normalizer: true },
+  eventbridge: { name: 'eventbridge', label: 'EventBridge', eventType: 'EventBridgeEvent<string, unknown>', payload: 'event.detail', normalizer: false },
+  s3: { name: 's3', label: 'S3', eventType: 'S3Event', recordType: 'S3EventRecord', payload: 'record.s3', normalizer: true },
+  'dynamodb-stream': { name: 'dynamodb-stream', label: 'DynamoDB stream', eventType: 'DynamoDBStreamEvent', recordType: 'DynamoDBRecord', payload: 'record.dynamodb?.NewImage', normalizer: true },
+  schedule: { name: 'schedule', label: 'scheduled', eventType: 'ScheduledEvent', payload: 'event.detail', normalizer: false }
+};
+
 export default function (options: Schema): Rule {
-  return async (_tree: Tree, _context: SchematicContext) => {
+  return async (_tree: Tree, context: SchematicContext) => {
     if (!options.name) {
       throw new SchematicsException('Option (name) is required.');
     }
 
     const handlerName = options.name;
+
+    const trigger = TRIGGERS[options.trigger || 'http'];
+    if (!trigger) {
+      throw new SchematicsException(`Unknown trigger "${options.trigger}". Supported triggers: ${Object.keys(TRIGGERS).join(', ')}`);
+    }
     
     // Get config from options (injected by runSchematic) or use defaults
     const defaultConfig = {
@@ -56,7 +82,7 @@ export default function (options: Schema): Rule {
     
     // Get file name case from options or config
     const fileNameCase = options.fileNameCase || config.fileNameCase || 'pascal';
-    console.log(`Handler schematic using fileNameCase: ${fileNameCase}`);
+    context.logger.info(`Handler schematic using fileNameCase: ${fileNameCase}`);
     
     // Import utility functions for file name formatting
     const { toCamelCase, toPascalCase, toDasherize, toSnakeCase } = require('../../utils/fileUtils');
@@ -105,8 +131,8 @@ export default function (options: Schema): Rule {
       path.join(handlerDir, 'schemas');
     const dtoSchemasPath = path.join(normalizePath(srcRoot), schemaDir);
     
-    console.log(`Handler path: ${handlerPath}`);
-    console.log(`DTO/Schema path: ${dtoSchemasPath}`);
+    context.logger.info(`Handler path: ${handlerPath}`);
+    context.logger.info(`DTO/Schema path: ${dtoSchemasPath}`);
     
     // Process file names with template vars - format according to fileNameCase
     const handlerFileName = config.filePatterns?.handlerFile ? 
@@ -121,6 +147,9 @@ export default function (options: Schema): Rule {
       processTemplate(config.filePatterns.dtoFile, templateVars) : 
       `${formatName(handlerName)}.dto.ts`;
     
+    // Handler template to use: CRUD, event trigger or plain HTTP
+    const handlerVariant = options.operation ? '.crud-handler.ts' : trigger.name !== 'http' ? '.event-handler.ts' : '.handler.ts';
+
     // Check if we need to create Zod DTOs
     const createDtos = options.createRequestDto || options.createResponseDto;
     
@@ -137,6 +166,8 @@ export default function (options: Schema): Rule {
       // Use the 'files' directory for templates
       require('@angular-devkit/schematics').url('./files'), 
       [
+        // Use the project's own templates where it has them
+        applyTemplateOverrides('handler', config),
         // Apply template variables (standard Angular schematic way)
         applyTemplates({
           ...strings,
@@ -145,22 +176,46 @@ export default function (options: Schema): Rule {
           createRequestDto: options.createRequestDto, // Fix variable name to match template usage
           createResponseDto: options.createResponseDto,
           serviceDomain: options.serviceDomain || null,
-          serviceName: options.serviceName || null
+          serviceName: options.serviceName || null,
+          // CRUD handler wiring (create:crud)
+          operation: options.operation || null,
+          serviceMethod: options.serviceMethod || null,
+          serviceImportPath: options.serviceImportPath || null,
+          serviceFactoryImportPath: options.serviceFactoryImportPath || null,
+          modelName: options.modelName || null,
+          modelImportPath: options.modelImportPath || null,
+          mapRequestToModel: !!options.mapRequestToModel,
+          dtoImportPath: options.dtoImportPath || `./schemas/${dasherize(handlerName)}.dto`,
+          requestDtoFields: options.requestDtoFields || [],
+          responseDtoFields: options.responseDtoFields || [],
+          responseDtoIsList: !!options.responseDtoIsList,
+          requestParameters: !!options.requestParameters,
+          // Event handlers validate each message with a <Name>MessageDto
+          trigger,
+          requestDtoName: `${classify(handlerName)}${trigger.name === 'http' ? 'Request' : 'Message'}Dto`,
+          // Route annotation for handlers imported from an OpenAPI document
+          route: options.route || null
         }),
+        // applyTemplates has already dropped the .template extension at this point
         filter(filePath => {
+          // Keep exactly one handler template: CRUD, event trigger or plain HTTP
+          if (filePath.endsWith('handler.ts') && !filePath.endsWith(handlerVariant)) {
+            return false;
+          }
           // Filter out schema templates if we don't need them
-          if (!options.schema && filePath.includes('schema.ts.template')) {
+          if (!options.schema && filePath.endsWith('Schema.ts')) {
             return false;
           }
           // Filter out dto templates if we don't need them
-          if (!createDtos && filePath.includes('dto.ts.template')) {
+          if (!createDtos && filePath.endsWith('.dto.ts')) {
             return false;
           }
           return true;
         }),
         // Move templates to their target locations and handle naming conventions based on config
-        (entry: any) => {
+        forEach((entry: FileEntry) => {
           const pathWithoutExtension = entry.path.replace('.template', '');
+          let targetPath: string = entry.path;
           
           if (pathWithoutExtension.endsWith('handler.ts')) {
             // Use custom file path if provided, otherwise build from config
@@ -168,26 +223,26 @@ export default function (options: Schema): Rule {
               // Ensure the path is relative (no leading slash)
               const relativePath = options.handlerFilePath.startsWith('/') ? 
                 options.handlerFilePath.substring(1) : options.handlerFilePath;
-              entry.path = relativePath;
+              targetPath = relativePath;
             } else {
               // Ensure handlerPath is relative (no leading slash)
               const relativePath = handlerPath.startsWith('/') ? 
                 handlerPath.substring(1) : handlerPath;
-              entry.path = path.join(relativePath, handlerFileName);
+              targetPath = path.join(relativePath, handlerFileName);
             }
           } 
-          else if (pathWithoutExtension.endsWith('schema.ts')) {
+          else if (pathWithoutExtension.endsWith('Schema.ts')) {
             // Use custom file path if provided, otherwise build from config
             if (options.schemaFilePath) {
               // Ensure the path is relative (no leading slash)
               const relativePath = options.schemaFilePath.startsWith('/') ? 
                 options.schemaFilePath.substring(1) : options.schemaFilePath;
-              entry.path = relativePath;
+              targetPath = relativePath;
             } else {
               // Ensure path is relative (no leading slash)
               const relativePath = dtoSchemasPath.startsWith('/') ? 
                 dtoSchemasPath.substring(1) : dtoSchemasPath;
-              entry.path = path.join(relativePath, schemaFileName);
+              targetPath = path.join(relativePath, schemaFileName);
             }
           }
           else if (pathWithoutExtension.endsWith('dto.ts')) {
@@ -196,17 +251,17 @@ export default function (options: Schema): Rule {
               // Ensure the path is relative (no leading slash)
               const relativePath = options.dtoFilePath.startsWith('/') ? 
                 options.dtoFilePath.substring(1) : options.dtoFilePath;
-              entry.path = relativePath;
+              targetPath = relativePath;
             } else {
               // Ensure path is relative (no leading slash)
               const relativePath = dtoSchemasPath.startsWith('/') ? 
                 dtoSchemasPath.substring(1) : dtoSchemasPath;
-              entry.path = path.join(relativePath, dtoFileName);
+              targetPath = path.join(relativePath, dtoFileName);
             }
           }
           
-          return entry;
-        }
+          return { path: normalize('/' + targetPath), content: entry.content } as FileEntry;
+        })
       ]
     );
     
@@ -220,7 +275,7 @@ export default function (options: Schema): Rule {
           
           // Just log directory creation - don't create .gitkeep files
           if (!tree.exists(normalizedPath)) {
-            console.log(`Ensuring directory exists: ${normalizedPath}`);
+            context.logger.info(`Ensuring directory exists: ${normalizedPath}`);
             // We don't need to create .gitkeep files
             // console.log(`Ensuring directory exists: ${normalizePath(dirPath)}`);
           }
@@ -39,6 +39,78 @@ export interface Schema {
      */
     createResponseDto?: boolean;
 
+    /**
+     * Event source that invokes the handler (http, sqs, sns, eventbridge, s3, dynamodb-stream, schedule).
+     */
+    trigger?: 'http' | 'sqs' | 'sns' | 'eventbridge' | 's3' | 'dynamodb-stream' | 'schedule';
+
+    /**
+     * CRUD operation the handler implements (list, get, create, update, delete).
+     */
+    operation?: 'list' | 'get' | 'create' | 'update' | 'delete';
+
+    /**
+     * Service method the CRUD handler calls.
+     */
+    serviceMethod?: string;
+
+    /**
+     * Import path of the service, relative to the handler file.
+     */
+    serviceImportPath?: string;
+
+    /**
+     * Import path of the factory creating the service of the CRUD handler with its
+     * adapter, relative to the handler file.
+     */
+    serviceFactoryImportPath?: string;
+
+    /**
+     * Model class built from the request by the CRUD handler.
+     */
+    modelName?: string;
+
+    /**
+     * Import path of the model, relative to the handler file.
+     */
+    modelImportPath?: string;
+
+    /**
+     * Whether the model constructor accepts the validated request data.
+     */
+    mapRequestToModel?: boolean;
+
+    /**
+     * Import path of the DTO file, relative to the handler file.
+     */
+    dtoImportPath?: string;
+
+    /**
+     * Fields of the request DTO schema.
+     */
+    requestDtoFields?: { name: string; optional: boolean; zodType: string }[];
+
+    /**
+     * Fields of the response DTO schema.
+     */
+    responseDtoFields?: { name: string; optional: boolean; zodType: string }[];
+
+    /**
+     * Whether the request DTO also holds the path and query parameters, so they are
+     * validated together with the body.
+     */
+    requestParameters?: boolean;
+
+    /**
+     * Whether the response DTO is a list of the response fields.
+     */
+    responseDtoIsList?: boolean;
+
+    /**
+     * HTTP route the handler serves, written as an @route annotation.
+     */
+    route?: { method: string; path: string; summary?: string };
+
     /**
      * Skip validation in handler.
      */
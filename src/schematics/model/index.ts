@@ -0,0 +1,54 @@
+import { strings } from '@angular-devkit/core';
+import {
+  Rule, SchematicsException, Tree, SchematicContext
+} from '@angular-devkit/schematics';
+import { ModelOptions } from './schema';
+import * as path from 'path';
+import { normalizePath } from '../utils/configUtils';
+import { renderModel, renderModelSchema } from '../utils/modelUtils';
+
+/**
+ * Process template variables in config strings
+ */
+function processTemplate(template: string, vars: Record<string, string>): string {
+  if (!template) return '';
+  return template.replace(/\{\{([^}]+)\}\}/g, (_, key) => vars[key] || '');
+}
+
+export default function (options: ModelOptions): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    if (!options.name) {
+      throw new SchematicsException('Option (name) is required.');
+    }
+    if (!options.domain) {
+      throw new SchematicsException('Option (domain) is required.');
+    }
+
+    const { classify, camelize } = strings;
+    const className = classify(options.name);
+    const domainName = camelize(options.domain);
+    const fields = options.modelFields || [];
+    const config = options._config || {};
+    const srcRoot = normalizePath(config.basePath || 'src');
+    const templateVars = { domainName };
+
+    // Resolve target files: explicit paths from the command, otherwise config
+    const modelFile = options.modelFilePath
+      ? normalizePath(options.modelFilePath)
+      : path.join(srcRoot, processTemplate(config.directories?.domain?.model || '{{domainName}}/models', templateVars), `${className}.ts`);
+
+    tree.create(modelFile, renderModel(className, fields, config));
+    context.logger.info(`Created model file: ${modelFile}`);
+
+    if (options.modelSchema && fields.length > 0) {
+      const schemaFile = options.modelSchemaFilePath
+        ? normalizePath(options.modelSchemaFilePath)
+        : path.join(srcRoot, processTemplate(config.directories?.domain?.schema || '{{domainName}}/schemas', templateVars), `${className}Schema.ts`);
+
+      tree.create(schemaFile, renderModelSchema(className, fields, config));
+      context.logger.info(`Created model schema file: ${schemaFile}`);
+    }
+
+    return tree;
+  };
+}
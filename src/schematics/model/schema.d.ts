@@ -0,0 +1,51 @@
+export interface ModelOptions {
+  /**
+   * The name of the model.
+   */
+  name: string;
+
+  /**
+   * The domain this model belongs to.
+   */
+  domain: string;
+
+  /**
+   * Typed fields for the model, parsed from a --fields spec.
+   */
+  modelFields?: {
+    name: string;
+    optional: boolean;
+    tsType: string;
+    zodType: string;
+  }[];
+
+  /**
+   * Whether to generate a Zod schema for the model fields.
+   */
+  modelSchema?: boolean;
+
+  /**
+   * The path to create the model files.
+   */
+  path?: string;
+
+  /**
+   * The name of the project.
+   */
+  project?: string;
+
+  /**
+   * Internal configuration passed from command.
+   */
+  _config?: any;
+
+  /**
+   * Custom file path for the model file (from configuration).
+   */
+  modelFilePath?: string;
+
+  /**
+   * Custom file path for the model's Zod schema file (from configuration).
+   */
+  modelSchemaFilePath?: string;
+}
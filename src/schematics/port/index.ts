@@ -0,0 +1,78 @@
+import { strings, normalize } from '@angular-devkit/core';
+import {
+  Rule, SchematicsException, apply, applyTemplates, filter, forEach, mergeWith, url, Tree, SchematicContext
+} from '@angular-devkit/schematics';
+import { PortOptions } from './schema';
+import * as path from 'path';
+import { normalizePath } from '../utils/configUtils';
+import { applyTemplateOverrides } from '../utils/templateUtils';
+
+/**
+ * Process template variables in config strings
+ */
+function processTemplate(template: string, vars: Record<string, string>): string {
+  if (!template) return '';
+  return template.replace(/\{\{([^}]+)\}\}/g, (_, key) => vars[key] || '');
+}
+
+// Helper to ensure suffix (kept in sync with the create:port command)
+function ensureSuffix(name: string, suffix: string): string {
+  return name.endsWith(suffix) ? name : name + suffix;
+}
+
+export default function (options: PortOptions): Rule {
+  return (_tree: Tree, context: SchematicContext) => {
+    if (!options.name) {
+      throw new SchematicsException('Option (name) is required.');
+    }
+    if (!options.domain) {
+      throw new SchematicsException('Option (domain) is required.');
+    }
+
+    const { classify, camelize } = strings;
+    const adapterType = options.adapterType || 'repository';
+    const domainName = camelize(options.domain);
+    const portName = options.portInterfaceName
+      ? ensureSuffix(classify(options.portInterfaceName), 'Port')
+      : `${classify(options.name)}Port`;
+    const adapterName = `${classify(options.name)}${classify(adapterType)}Adapter`;
+    const config = options._config || {};
+    const srcRoot = normalizePath(config.basePath || 'src');
+    const templateVars = { domainName, adapterType };
+
+    // Resolve target files: explicit paths from the command, otherwise config
+    const portFile = options.portFilePath
+      ? normalizePath(options.portFilePath)
+      : path.join(srcRoot, processTemplate(config.directories?.port?.base || '{{domainName}}/ports', templateVars), `${portName}.ts`);
+    const adapterFile = options.adapterFilePath
+      ? normalizePath(options.adapterFilePath)
+      : path.join(srcRoot, processTemplate(config.directories?.adapter?.base || 'infra/{{adapterType}}', templateVars), `${adapterName}.ts`);
+
+    context.logger.info(`Port file: ${portFile}`);
+    context.logger.info(`Adapter file: ${adapterFile}`);
+
+    const templateSource = apply(url('./files'), [
+      applyTemplateOverrides('port', config),
+      applyTemplates({
+        ...strings,
+        name: options.name,
+        domainName,
+        portName,
+        adapterName,
+        portMethods: options.portMethods || [],
+        portImports: options.portImports || [],
+        adapterMethods: options.adapterMethods || [],
+        adapterImports: options.adapterImports || []
+      }),
+      // Only generate the adapter when the port has an adapter type
+      filter(filePath => (adapterType as string) !== 'none' || !filePath.includes(adapterName)),
+      // Move each rendered template to its resolved location
+      forEach(entry => {
+        const target = entry.path.includes(adapterName) ? adapterFile : portFile;
+        return { path: normalize(`/${target}`), content: entry.content };
+      })
+    ]);
+
+    return mergeWith(templateSource);
+  };
+}
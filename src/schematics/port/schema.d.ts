@@ -59,4 +59,28 @@ export interface PortOptions {
    * Custom file name for adapter implementation file (from configuration).
    */
   adapterFileName?: string;
+  
+  /**
+   * Method signatures written into the port interface.
+   */
+  portMethods?: string[];
+  
+  /**
+   * Import statements the port signatures need (e.g. domain models).
+   */
+  portImports?: string[];
+  
+  /**
+   * Method stubs written into the adapter implementation.
+   */
+  adapterMethods?: {
+    signature: string;
+    overloads: string[];
+    isAsync: boolean;
+  }[];
+  
+  /**
+   * Import statements the adapter needs, including the port itself.
+   */
+  adapterImports?: string[];
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { strings } from '@angular-devkit/core';
+import {
+  Rule, SchematicsException, apply, applyTemplates, mergeWith, move, url, Tree, SchematicContext
+} from '@angular-devkit/schematics';
+import { Schema } from './schema';
+import * as path from 'path';
+import { normalizePath } from '../utils/configUtils';
+import { applyTemplateOverrides } from '../utils/templateUtils';
+
+/**
+ * Process template variables in config strings
+ */
+function processTemplate(template: string, vars: Record<string, string>): string {
+  if (!template) return '';
+  return template.replace(/\{\{([^}]+)\}\}/g, (_, key) => vars[key] || '');
+}
+
+export default function (options: Schema): Rule {
+  return (_tree: Tree, context: SchematicContext) => {
+    if (!options.name) {
+      throw new SchematicsException('Option (name) is required.');
+    }
+
+    const { classify } = strings;
+    const config = options._config || {};
+    const serviceName = `${classify(options.name)}Service`;
+
+    // Resolve the service file location: explicit path from the command, otherwise config
+    let serviceFile: string;
+    if (options.serviceFilePath) {
+      serviceFile = normalizePath(options.serviceFilePath);
+    } else {
+      const templateVars = { domainName: options.domain || '' };
+      const serviceDir = processTemplate(config.directories?.service?.base || '{{domainName}}/services', templateVars);
+      serviceFile = path.join(normalizePath(config.basePath || 'src'), serviceDir, `${serviceName}.ts`);
+    }
+
+    // The command only passes the model import path when the model exists, so the service compiles
+    const modelImportPath = options.model !== false && options.modelImportPath || '';
+
+    context.logger.info(`Service file: ${serviceFile}`);
+
+    const templateSource = apply(url('./files'), [
+      applyTemplateOverrides('service', config),
+      applyTemplates({
+        ...strings,
+        name: options.name,
+        domain: options.domain || '',
+        serviceName,
+        modelName: classify(options.name),
+        modelImportPath
+      }),
+      // The template produces a single file; rename it to the resolved service file name
+      (templateTree: Tree) => {
+        const target = `/${path.basename(serviceFile)}`;
+        const templateFiles: string[] = [];
+        templateTree.getDir('/').visit(filePath => {
+          templateFiles.push(filePath);
+        });
+        templateFiles
+          .filter(filePath => filePath !== target)
+          .forEach(filePath => templateTree.rename(filePath, target));
+        return templateTree;
+      },
+      move(path.dirname(serviceFile))
+    ]);
+
+    return mergeWith(templateSource);
+  };
+}
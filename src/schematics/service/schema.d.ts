@@ -10,7 +10,7 @@ export interface Schema {
     domain?: string;
     
     /**
-     * Generate a model file with the same name as the service.
+     * Import the model with the same name as the service, when modelImportPath is given.
      */
     model?: boolean;
     
@@ -49,4 +49,9 @@ export interface Schema {
      * Custom file name for service file (from configuration).
      */
     serviceFileName?: string;
+
+    /**
+     * Import path of the model with the same name as the service, from the service file.
+     */
+    modelImportPath?: string | null;
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 /**
  * Configuration utilities for VSS API CLI
  */
+import * as path from 'path';
 
 /**
  * Normalizes a file path by ensuring it doesn't have a leading slash
@@ -16,3 +17,16 @@ export function normalizePath(filePath: string): string {
   return filePath.startsWith('/') ? filePath.substring(1) : filePath;
 }
 
+/**
+ * Builds a relative module specifier from one generated file to another
+ *
+ * @param fromFile - The file that will contain the import
+ * @param toFile - The file being imported
+ * @returns The specifier without extension, always starting with ./ or ../
+ */
+export function relativeImportPath(fromFile: string, toFile: string): string {
+  const relativePath = path.relative(path.dirname(fromFile), toFile)
+    .split(path.sep).join('/')
+    .replace(/\.ts$/, '');
+  return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+}
@@ -0,0 +1,40 @@
+/**
+ * Model rendering utilities shared by the domain and model schematics
+ */
+import { renderTemplate } from './templateUtils';
+
+/**
+ * A model field with its TypeScript and Zod types, as parsed from a --fields spec
+ */
+export interface ModelFieldOption {
+  name: string;
+  optional: boolean;
+  tsType: string;
+  zodType: string;
+}
+
+/**
+ * Renders a domain model class from the model template. With fields it declares
+ * readonly properties and a constructor taking a props object; without fields
+ * it renders the commented starter class.
+ *
+ * @param className - The PascalCase model class name
+ * @param fields - Fields parsed from the --fields spec
+ * @param config - The project configuration, for its templatesDir
+ * @returns The model file content
+ */
+export function renderModel(className: string, fields: ModelFieldOption[] = [], config: any = {}): string {
+  return renderTemplate('model', 'model.ts.template', { className, fields }, config);
+}
+
+/**
+ * Renders a Zod schema that validates the model's fields
+ *
+ * @param className - The PascalCase model class name
+ * @param fields - Fields parsed from the --fields spec
+ * @param config - The project configuration, for its templatesDir
+ * @returns The schema file content
+ */
+export function renderModelSchema(className: string, fields: ModelFieldOption[], config: any = {}): string {
+  return renderTemplate('model', 'schema.ts.template', { className, fields }, config);
+}
@@ -0,0 +1,101 @@
+/**
+ * Template utilities: lets a project override the built-in templates of a component
+ */
+import { strings, template } from '@angular-devkit/core';
+import { FileEntry, Rule, forEach } from '@angular-devkit/schematics';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Directory searched for project templates when the config has no `templatesDir`
+ */
+export const DEFAULT_TEMPLATES_DIR = '.vss/templates';
+
+/**
+ * Built-in template files of each component, keyed by the name a project
+ * gives its own version, e.g. `.vss/templates/handler/handler.ts.template`
+ */
+export const TEMPLATE_FILES: Record<string, Record<string, string>> = {
+  handler: {
+    'handler.ts.template': '__name@dasherize__.handler.ts.template',
+    'event-handler.ts.template': '__name@dasherize__.event-handler.ts.template',
+    'crud-handler.ts.template': '__name@dasherize__.crud-handler.ts.template',
+    'dto.ts.template': '__name@dasherize__.dto.ts.template',
+    'schema.ts.template': '__name@dasherize__Schema.ts.template'
+  },
+  model: {
+    'model.ts.template': 'model.ts.template',
+    'schema.ts.template': 'schema.ts.template'
+  },
+  domain: {
+    'service.ts.template': 'service.ts.template',
+    'crud-service.ts.template': 'crud-service.ts.template',
+    'port.ts.template': 'port.ts.template',
+    'crud-port.ts.template': 'crud-port.ts.template',
+    'adapter.ts.template': 'adapter.ts.template',
+    'crud-adapter.ts.template': 'crud-adapter.ts.template',
+    'crud-factory.ts.template': 'crud-factory.ts.template'
+  },
+  port: {
+    'port.ts.template': '__portName@classify__.ts.template',
+    'adapter.ts.template': '__adapterName@classify__.ts.template'
+  },
+  adapter: {
+    'adapter.ts.template': '__name@classify____adapterType@classify__Adapter.ts.template'
+  },
+  service: {
+    'service.ts.template': '__name@classify__Service.ts.template'
+  }
+};
+
+/**
+ * Absolute path of the project templates directory of a component
+ *
+ * @param component - The component, e.g. `handler`
+ * @param config - The project configuration passed to the schematic
+ */
+export function projectTemplatesDir(component: string, config: any = {}): string {
+  return path.resolve(process.cwd(), config.templatesDir || DEFAULT_TEMPLATES_DIR, component);
+}
+
+/**
+ * Replaces the content of each built-in template with the project's own version, when
+ * it has one. Goes first in the rules applied to `url('./files')`, so project templates
+ * are rendered with the same variables as the built-in ones.
+ *
+ * @param component - The component whose templates the source holds
+ * @param config - The project configuration passed to the schematic
+ */
+export function applyTemplateOverrides(component: string, config: any = {}): Rule {
+  const templatesDir = projectTemplatesDir(component, config);
+  const overrides = new Map(
+    Object.entries(TEMPLATE_FILES[component] || {}).map(([fileName, builtInName]) => [builtInName, fileName])
+  );
+
+  return forEach((entry: FileEntry) => {
+    const fileName = overrides.get(path.posix.basename(entry.path));
+    const overridePath = fileName && path.join(templatesDir, fileName);
+    if (!overridePath || !fs.existsSync(overridePath)) {
+      return entry;
+    }
+    return { path: entry.path, content: fs.readFileSync(overridePath) } as FileEntry;
+  });
+}
+
+/**
+ * Renders one template of a component: the project's version when there is one,
+ * otherwise the built-in file. The `strings` helpers are available as in `applyTemplates`.
+ *
+ * @param component - The component, e.g. `domain`
+ * @param fileName - The template name, e.g. `service.ts.template`
+ * @param vars - The template variables
+ * @param config - The project configuration passed to the schematic
+ * @returns The rendered file content
+ */
+export function renderTemplate(component: string, fileName: string, vars: Record<string, any>, config: any = {}): string {
+  const overridePath = path.join(projectTemplatesDir(component, config), fileName);
+  const templatePath = fs.existsSync(overridePath)
+    ? overridePath
+    : path.join(__dirname, '..', component, 'files', TEMPLATE_FILES[component]?.[fileName] || fileName);
+  return template(fs.readFileSync(templatePath, 'utf-8'), { sourceURL: templatePath })({ ...strings, ...vars });
+}
@@ -0,0 +1,146 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ArchitectureRule, CliConfig } from './configLoader';
+import { ARCHITECTURE_LAYERS } from './configSchema';
+import { indexProject, relativeImports, ComponentKind } from './projectIndex';
+
+/**
+ * Rules of a hexagonal layout: the domain depends on nothing outside it, ports on
+ * models only, adapters on the domain, and handlers on services rather than adapters.
+ * Handlers importing an adapter are warnings, since wiring one in a handler still works;
+ * generated CRUD handlers get their service from a factory outside the layers instead.
+ */
+export const DEFAULT_ARCHITECTURE_RULES: ArchitectureRule[] = [
+  { from: 'domain', disallow: ['infra', 'handler'] },
+  { from: 'model', disallow: ['service', 'port'] },
+  { from: 'port', disallow: ['service'] },
+  { from: 'adapter', disallow: ['service', 'handler'] },
+  { from: 'handler', disallow: ['adapter'], severity: 'warning' }
+];
+
+/**
+ * Checks arch:lint runs, with the description SARIF reports them by
+ */
+export const ARCHITECTURE_CHECKS = {
+  'layer-dependency': 'A layer imports a layer the architecture rules forbid it to import',
+  'cross-domain': 'A model, service or port imports the model, service or port of another domain'
+};
+
+/**
+ * An import that breaks an architecture rule
+ */
+export interface ArchitectureViolation {
+  check: keyof typeof ARCHITECTURE_CHECKS;
+  severity: 'error' | 'warning';
+  message: string;
+  /**
+   * File with the import, relative to the project root
+   */
+  filePath: string;
+  line: number;
+  column: number;
+  /**
+   * Imported file, relative to the project root
+   */
+  importedFile: string;
+}
+
+/**
+ * Result of linting a project
+ */
+export interface ArchitectureReport {
+  /**
+   * Number of models, services, ports, adapters and handlers checked
+   */
+  checkedFiles: number;
+  violations: ArchitectureViolation[];
+}
+
+const DOMAIN_KINDS: ComponentKind[] = ['model', 'service', 'port'];
+
+/**
+ * Check the imports of every model, service, port, adapter and handler against the
+ * architecture rules of the config, or the default hexagonal rules, and against
+ * imports across domains. Files are classified with the project index, so only
+ * relative imports of files the config places somewhere are checked.
+ *
+ * @param config Project config
+ * @param rootDir Project root basePath is relative to
+ * @returns The violations, by file and position
+ */
+export function lintArchitecture(config: CliConfig, rootDir: string = process.cwd()): ArchitectureReport {
+  const index = indexProject(config, rootDir);
+  const components = new Map(index.components.map(component => [component.filePath, component]));
+  const rules = config.architecture?.rules || DEFAULT_ARCHITECTURE_RULES;
+  // Outside strict mode an invalid severity reaches here; it counts as an error
+  const crossDomain = (['warning', 'off'] as const).find(severity => severity === config.architecture?.crossDomain) || 'error';
+  const layerOf = (layer: string) => ARCHITECTURE_LAYERS[layer] || [];
+  const toRelative = (filePath: string) => path.relative(index.rootDir, filePath).split(path.sep).join('/');
+
+  const violations: ArchitectureViolation[] = [];
+  index.components.forEach(component => {
+    const filePath = path.join(index.rootDir, component.filePath);
+    relativeImports(filePath, fs.readFileSync(filePath, 'utf8')).forEach(reference => {
+      const imported = components.get(toRelative(reference.target));
+      if (!imported) return;
+      const location = { filePath: component.filePath, line: reference.line, column: reference.column, importedFile: imported.filePath };
+
+      // One report per import: the first error rule it breaks, or else the first warning rule
+      const broken = rules
+        .filter(rule => layerOf(rule.from).includes(component.kind))
+        .map(rule => ({ rule, layer: rule.disallow.find(layer => layerOf(layer).includes(imported.kind)) }))
+        .filter(({ layer }) => layer !== undefined)
+        .sort((a, b) => Number(a.rule.severity === 'warning') - Number(b.rule.severity === 'warning'))[0];
+      if (broken) {
+        violations.push({
+          check: 'layer-dependency',
+          severity: broken.rule.severity === 'warning' ? 'warning' : 'error',
+          message: `${component.kind} ${component.name} imports ${imported.kind} ${imported.name}: ${broken.rule.from} may not import ${broken.layer}`,
+          ...location
+        });
+      }
+
+      if (crossDomain !== 'off'
+        && DOMAIN_KINDS.includes(component.kind) && DOMAIN_KINDS.includes(imported.kind)
+        && component.domain && imported.domain && component.domain !== imported.domain) {
+        violations.push({
+          check: 'cross-domain',
+          severity: crossDomain,
+          message: `${component.kind} ${component.name} of domain ${component.domain} imports ${imported.kind} ${imported.name} of domain ${imported.domain}`,
+          ...location
+        });
+      }
+    });
+  });
+
+  return { checkedFiles: index.components.length, violations };
+}
+
+/**
+ * SARIF 2.1.0 log of a report, for code scanning tools such as GitHub code scanning
+ */
+export function toSarif(report: ArchitectureReport): object {
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'vss-api-cli arch:lint',
+          rules: Object.entries(ARCHITECTURE_CHECKS).map(([id, description]) => ({ id, shortDescription: { text: description } }))
+        }
+      },
+      results: report.violations.map(violation => ({
+        ruleId: violation.check,
+        level: violation.severity,
+        message: { text: violation.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: violation.filePath },
+            region: { startLine: violation.line, startColumn: violation.column }
+          }
+        }]
+      }))
+    }]
+  };
+}
@@ -0,0 +1,165 @@
+import { ComponentKind, componentsOf, dependenciesOf, dependentsOf, ProjectIndex } from './projectIndex';
+
+/**
+ * Kinds of component drawn in the graph; models are left out
+ */
+export type GraphNodeKind = Exclude<ComponentKind, 'model'>;
+
+export interface GraphNode {
+  /**
+   * Identifier usable in Mermaid and DOT, e.g. `service_UserService`
+   */
+  id: string;
+  kind: GraphNodeKind;
+  name: string;
+  filePath: string;
+  domain?: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  /**
+   * `uses`: a handler imports a service or a service a port;
+   * `implementedBy`: a port is implemented by an adapter
+   */
+  relation: 'uses' | 'implementedBy';
+}
+
+/**
+ * Handlers, services, ports and adapters of a project and the links between them
+ */
+export interface ArchitectureGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+const GRAPH_KINDS: GraphNodeKind[] = ['handler', 'service', 'port', 'adapter'];
+
+/**
+ * Build the graph of a project: handlers point to the services they use, services to
+ * the ports they use, and ports to the adapters implementing them
+ *
+ * @param index Project index
+ * @param domain Only keep the components of this domain
+ */
+export function buildArchitectureGraph(index: ProjectIndex, domain?: string): ArchitectureGraph {
+  const components = GRAPH_KINDS.flatMap(kind => componentsOf(index, kind, domain));
+
+  const ids = new Map<string, string>();
+  const nodes = components.map(component => {
+    const base = `${component.kind}_${component.name.replace(/\W+/g, '_')}`;
+    // Two files of the same name in different domains keep distinct ids
+    let id = base;
+    for (let count = 2; [...ids.values()].includes(id); count++) {
+      id = `${base}_${count}`;
+    }
+    ids.set(component.filePath, id);
+    return {
+      id,
+      kind: component.kind as GraphNodeKind,
+      name: component.name,
+      filePath: component.filePath,
+      ...(component.domain && { domain: component.domain })
+    };
+  });
+
+  const edges: GraphEdge[] = [];
+  const link = (from: string, to: string, relation: GraphEdge['relation']) => {
+    if (ids.has(from) && ids.has(to)) {
+      edges.push({ from: ids.get(from)!, to: ids.get(to)!, relation });
+    }
+  };
+  components.forEach(component => {
+    if (component.kind === 'handler') {
+      dependenciesOf(index, component, 'service').forEach(service => link(component.filePath, service.filePath, 'uses'));
+    } else if (component.kind === 'service') {
+      dependenciesOf(index, component, 'port').forEach(port => link(component.filePath, port.filePath, 'uses'));
+    } else if (component.kind === 'port') {
+      dependentsOf(index, component, 'adapter').forEach(adapter => link(component.filePath, adapter.filePath, 'implementedBy'));
+    }
+  });
+
+  return { nodes, edges };
+}
+
+/**
+ * Nodes of each domain, then the nodes without one under an empty name
+ */
+function nodesByDomain(graph: ArchitectureGraph): Array<[string, GraphNode[]]> {
+  const domains = [...new Set(graph.nodes.map(node => node.domain || ''))]
+    .sort((a, b) => Number(a === '') - Number(b === '') || a.localeCompare(b));
+  return domains.map(domain => [domain, graph.nodes.filter(node => (node.domain || '') === domain)]);
+}
+
+/**
+ * Mermaid shape of each kind: handlers are stadiums, services boxes, ports hexagons
+ * and adapters parallelograms
+ */
+const MERMAID_SHAPES: Record<GraphNodeKind, [string, string]> = {
+  handler: ['(["', '"])'],
+  service: ['["', '"]'],
+  port: ['{{"', '"}}'],
+  adapter: ['[/"', '"/]']
+};
+
+/**
+ * Mermaid flowchart of a graph, with a subgraph per domain
+ */
+export function toMermaid(graph: ArchitectureGraph): string {
+  const lines = ['flowchart LR'];
+  const nodeLine = (node: GraphNode) => `${node.id}${MERMAID_SHAPES[node.kind][0]}${node.name.replace(/"/g, '#quot;')}${MERMAID_SHAPES[node.kind][1]}`;
+
+  nodesByDomain(graph).forEach(([domain, nodes]) => {
+    if (domain) {
+      lines.push(`  subgraph domain_${domain.replace(/\W+/g, '_')} ["${domain}"]`);
+      nodes.forEach(node => lines.push(`    ${nodeLine(node)}`));
+      lines.push('  end');
+    } else {
+      nodes.forEach(node => lines.push(`  ${nodeLine(node)}`));
+    }
+  });
+  graph.edges.forEach(edge => {
+    lines.push(`  ${edge.from} ${edge.relation === 'uses' ? '-->' : '-.->|implemented by|'} ${edge.to}`);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Graphviz shape of each kind, matching the Mermaid ones
+ */
+const DOT_SHAPES: Record<GraphNodeKind, string> = {
+  handler: 'shape=box, style=rounded',
+  service: 'shape=box',
+  port: 'shape=hexagon',
+  adapter: 'shape=parallelogram'
+};
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Graphviz DOT digraph of a graph, with a cluster per domain
+ */
+export function toDot(graph: ArchitectureGraph): string {
+  const lines = ['digraph architecture {', '  rankdir=LR;', '  node [fontname="Helvetica"];'];
+  const nodeLine = (node: GraphNode) => `${node.id} [label=${quoteDot(node.name)}, ${DOT_SHAPES[node.kind]}];`;
+
+  nodesByDomain(graph).forEach(([domain, nodes]) => {
+    if (domain) {
+      lines.push(`  subgraph ${quoteDot(`cluster_${domain}`)} {`, `    label=${quoteDot(domain)};`);
+      nodes.forEach(node => lines.push(`    ${nodeLine(node)}`));
+      lines.push('  }');
+    } else {
+      nodes.forEach(node => lines.push(`  ${nodeLine(node)}`));
+    }
+  });
+  graph.edges.forEach(edge => {
+    lines.push(`  ${edge.from} -> ${edge.to}${edge.relation === 'uses' ? '' : ' [style=dashed, label="implemented by"]'};`);
+  });
+  lines.push('}');
+
+  return `${lines.join('\n')}\n`;
+}
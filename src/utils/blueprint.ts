@@ -0,0 +1,523 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { toCamelCase, toPascalCase, toDasherize, applyFilePatterns, toImportPath } from './fileUtils';
+import { CliConfig } from './configLoader';
+import { loadPlugins, findPluginSchematic, PluginCollection } from './plugins';
+import { parseFieldSpec, ModelField } from './fieldSpec';
+import {
+  parseMethodSignature, parsePortFile, findExportedTypes, renderTypeImports, toAdapterMethodStubs, toAdapterPropertyStubs,
+  ParsedMethodSignature, PortTypeReference, AdapterMethodStub
+} from './portParser';
+
+/**
+ * Blueprint file `blueprint apply` reads when none is given
+ */
+export const DEFAULT_BLUEPRINT_FILE = 'vss-blueprint.yaml';
+
+/**
+ * Event sources a blueprint handler can use
+ */
+const BLUEPRINT_TRIGGERS = ['http', 'sqs', 'sns', 'eventbridge', 's3', 'dynamodb-stream', 'schedule'];
+
+export interface BlueprintModel {
+  name: string;
+  /**
+   * Field spec as accepted by --fields, either one string or one entry per field
+   */
+  fields?: string | string[];
+  /**
+   * Also generate a Zod schema for the fields
+   */
+  schema?: boolean;
+}
+
+export interface BlueprintPort {
+  name: string;
+  /**
+   * Type of the adapter generated with the port, or `none` (default: repository)
+   */
+  adapterType?: string;
+  /**
+   * Method signatures, e.g. `findByEmail(email: string): Promise<User | null>`
+   */
+  methods?: string[];
+}
+
+export interface BlueprintAdapter {
+  name: string;
+  /**
+   * Port the adapter implements, declared in the blueprint or already in the domain
+   */
+  port: string;
+  type?: string;
+}
+
+export interface BlueprintService {
+  name: string;
+}
+
+export interface BlueprintHandler {
+  name: string;
+  trigger?: string;
+  /**
+   * Service of the same domain the handler calls
+   */
+  service?: string;
+  requestDto?: boolean;
+  responseDto?: boolean;
+  schema?: boolean;
+}
+
+/**
+ * A component generated by a schematic of a plugin collection
+ */
+export interface BlueprintPluginComponent {
+  name: string;
+  /**
+   * Plugin schematic, `<plugin>:<schematic>` when several plugins declare it
+   */
+  schematic: string;
+  /**
+   * File the schematic generates, relative to the output path. When given, the
+   * component is left untouched once the file exists; otherwise it runs every time.
+   */
+  file?: string;
+  /**
+   * Options passed to the schematic next to `name` and `domain`
+   */
+  options?: Record<string, unknown>;
+}
+
+export interface BlueprintDomain {
+  name: string;
+  models?: BlueprintModel[];
+  ports?: BlueprintPort[];
+  adapters?: BlueprintAdapter[];
+  services?: BlueprintService[];
+  handlers?: BlueprintHandler[];
+  plugins?: BlueprintPluginComponent[];
+}
+
+/**
+ * A declarative description of a service's components
+ */
+export interface Blueprint {
+  domains: BlueprintDomain[];
+}
+
+export type BlueprintComponentKind = 'model' | 'port' | 'adapter' | 'service' | 'handler' | 'plugin';
+
+/**
+ * One schematic run of a blueprint
+ */
+export interface BlueprintStep {
+  kind: BlueprintComponentKind;
+  /**
+   * Schematic that generates the component
+   */
+  schematic: string;
+  /**
+   * Collection of a plugin schematic; the built-in collection when not set
+   */
+  collection?: string;
+  domain: string;
+  /**
+   * Name of the generated component, e.g. `UserRepositoryPort`
+   */
+  label: string;
+  /**
+   * File whose existence means the component was generated before; empty for
+   * plugin components that do not name their file
+   */
+  primaryFile: string;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Components in the order their schematics run: models are imported by ports,
+ * ports are implemented by adapters, and services are called by handlers.
+ * Plugin components run last, so they can build on any of them.
+ */
+const COMPONENT_ORDER: BlueprintComponentKind[] = ['model', 'port', 'adapter', 'service', 'handler', 'plugin'];
+
+/**
+ * Read a blueprint from a YAML or JSON file.
+ * Throws an Error if the file cannot be parsed or does not describe any domain.
+ */
+export function loadBlueprint(filePath: string): Blueprint {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Blueprint not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  let blueprint: any;
+  try {
+    blueprint = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error: any) {
+    throw new Error(`Could not parse ${filePath}: ${error.message}`);
+  }
+
+  if (!blueprint || !Array.isArray(blueprint.domains) || blueprint.domains.length === 0) {
+    throw new Error(`${filePath} does not declare any domain (expected a "domains" list)`);
+  }
+
+  blueprint.domains.forEach((domain: any, index: number) => {
+    const where = `domains[${index}]`;
+    if (!domain || typeof domain.name !== 'string' || !domain.name.trim()) {
+      throw new Error(`${where}: a domain needs a name`);
+    }
+    (['models', 'ports', 'adapters', 'services', 'handlers', 'plugins'] as const).forEach(key => {
+      if (domain[key] === undefined) return;
+      if (!Array.isArray(domain[key])) {
+        throw new Error(`${where}.${key}: expected a list`);
+      }
+      domain[key].forEach((component: any, componentIndex: number) => {
+        if (!component || typeof component.name !== 'string' || !component.name.trim()) {
+          throw new Error(`${where}.${key}[${componentIndex}]: a component needs a name`);
+        }
+        if (key === 'plugins' && (typeof component.schematic !== 'string' || !component.schematic.trim())) {
+          throw new Error(`${where}.${key}[${componentIndex}]: a plugin component needs a schematic`);
+        }
+      });
+    });
+  });
+
+  return blueprint as Blueprint;
+}
+
+/**
+ * Template variables the create:* commands build for a component name
+ */
+function templateVarsFor(name: string, domainName: string): Record<string, string> {
+  const dashName = toDasherize(name);
+  return {
+    name,
+    pascalName: toPascalCase(name),
+    dashName,
+    camelName: toCamelCase(name),
+    snakeName: dashName.replace(/-/g, '_'),
+    domainName
+  };
+}
+
+/**
+ * Reference to a type exported by a file, for renderTypeImports
+ */
+function typeReference(name: string, filePath: string): PortTypeReference {
+  return {
+    localName: name,
+    kind: 'named',
+    importedName: name,
+    module: path.resolve(process.cwd(), filePath).replace(/\.ts$/, ''),
+    isRelative: true
+  };
+}
+
+function fieldSpecOf(model: BlueprintModel): string {
+  return Array.isArray(model.fields) ? model.fields.join(',') : model.fields || '';
+}
+
+/**
+ * Turn a blueprint into the schematic runs that generate it, in dependency order.
+ * Components whose main file already exists are returned separately and not run again.
+ * Throws an Error describing the first invalid component.
+ *
+ * @param blueprint Blueprint from loadBlueprint
+ * @param config Project config, for file patterns
+ * @param basePath Output path the files are generated under
+ */
+export function planBlueprint(blueprint: Blueprint, config: CliConfig, basePath: string = '.'): {
+  steps: BlueprintStep[],
+  existing: BlueprintStep[]
+} {
+  const fileNameCase = config.fileNameCase || 'pascal';
+  const planned: BlueprintStep[] = [];
+
+  // Types each domain's blueprint models will export, so ports can import them before they exist
+  const blueprintModelTypes = new Map<string, PortTypeReference[]>();
+  blueprint.domains.forEach(domain => {
+    const domainName = toCamelCase(domain.name);
+    const references = (domain.models || []).flatMap(model => {
+      const className = toPascalCase(model.name);
+      const modelFile = applyFilePatterns('domain', 'modelFile', config, templateVarsFor(model.name, domainName), basePath).filePath;
+      return [typeReference(className, modelFile), ...(model.fields ? [typeReference(`${className}Props`, modelFile)] : [])];
+    });
+    blueprintModelTypes.set(domainName, [...(blueprintModelTypes.get(domainName) || []), ...references]);
+  });
+
+  // Plugin collections are only loaded when the blueprint uses them
+  let plugins: PluginCollection[] | undefined;
+
+  // Port methods by domain and port interface name, for the adapters that implement them
+  const blueprintPorts = new Map<string, { file: string, methods: ParsedMethodSignature[], models: PortTypeReference[] }>();
+
+  blueprint.domains.forEach((domain, domainIndex) => {
+    const domainName = toCamelCase(domain.name);
+    const where = `domains[${domainIndex}] (${domainName})`;
+
+    (domain.models || []).forEach(model => {
+      const className = toPascalCase(model.name);
+      let fields: ModelField[];
+      try {
+        fields = parseFieldSpec(fieldSpecOf(model));
+      } catch (error: any) {
+        throw new Error(`${where}, model ${className}: ${error.message}`);
+      }
+      const templateVars = templateVarsFor(model.name, domainName);
+      const modelFileInfo = applyFilePatterns('domain', 'modelFile', config, { ...templateVars }, basePath);
+      const generateSchema = !!model.schema && fields.length > 0;
+      const schemaFileInfo = generateSchema
+        ? applyFilePatterns('domain', 'schemaFile', config, { ...templateVars }, basePath)
+        : null;
+
+      planned.push({
+        kind: 'model',
+        schematic: 'model',
+        domain: domainName,
+        label: className,
+        primaryFile: modelFileInfo.filePath,
+        options: {
+          name: className,
+          domain: domainName,
+          modelFields: fields,
+          modelSchema: generateSchema,
+          modelFilePath: modelFileInfo.filePath,
+          ...(schemaFileInfo && { modelSchemaFilePath: schemaFileInfo.filePath })
+        }
+      });
+    });
+
+    (domain.ports || []).forEach(port => {
+      const portName = toPascalCase(port.name.replace(/Port$/, ''));
+      const portInterfaceName = `${portName}Port`;
+      const adapterType = port.adapterType || 'repository';
+      const templateVars = { ...templateVarsFor(portName, domainName), adapterType };
+
+      let parsedMethods: ParsedMethodSignature[];
+      try {
+        parsedMethods = (port.methods || []).map(signature => parseMethodSignature(signature));
+      } catch (error: any) {
+        throw new Error(`${where}, port ${portInterfaceName}: ${error.message}`);
+      }
+
+      const portFileInfo = applyFilePatterns('port', 'portFile', config, { ...templateVars, name: portInterfaceName }, basePath);
+      const adapterFileInfo = adapterType !== 'none'
+        ? applyFilePatterns('adapter', 'adapterFile', config, { ...templateVars, name: `${portName}${toPascalCase(adapterType)}Adapter` }, basePath)
+        : null;
+
+      // Import the domain models the signatures mention, generated now or already there
+      const modelsDir = path.dirname(applyFilePatterns('domain', 'modelFile', config, { ...templateVars }, basePath).filePath);
+      const referencedTypes = new Set(parsedMethods.flatMap(parsed => parsed.referencedTypes));
+      const knownModels = [
+        ...(blueprintModelTypes.get(domainName) || []),
+        ...findExportedTypes(path.resolve(process.cwd(), modelsDir))
+      ];
+      const modelReferences = knownModels
+        .filter((reference, index) => knownModels.findIndex(other => other.localName === reference.localName) === index)
+        .filter(reference => referencedTypes.has(reference.localName));
+      const absolutePortFile = path.resolve(process.cwd(), portFileInfo.filePath);
+
+      blueprintPorts.set(`${domainName}/${portInterfaceName}`, { file: portFileInfo.filePath, methods: parsedMethods, models: modelReferences });
+
+      planned.push({
+        kind: 'port',
+        schematic: 'port',
+        domain: domainName,
+        label: portInterfaceName,
+        primaryFile: portFileInfo.filePath,
+        options: {
+          name: portName,
+          domain: domainName,
+          adapterType,
+          fileNameCase,
+          portFilePath: portFileInfo.filePath,
+          portFileName: portFileInfo.fileName,
+          ...(adapterFileInfo && { adapterFilePath: adapterFileInfo.filePath, adapterFileName: adapterFileInfo.fileName }),
+          portMethods: parsedMethods.map(parsed => parsed.method.signature),
+          portImports: renderTypeImports(modelReferences, absolutePortFile),
+          adapterMethods: toAdapterMethodStubs(parsedMethods.map(parsed => parsed.method)),
+          adapterImports: adapterFileInfo
+            ? renderTypeImports([typeReference(portInterfaceName, portFileInfo.filePath), ...modelReferences], path.resolve(process.cwd(), adapterFileInfo.filePath))
+            : []
+        }
+      });
+    });
+
+    (domain.adapters || []).forEach(adapter => {
+      const adapterType = adapter.type || 'repository';
+      const portName = toPascalCase(adapter.port.replace(/Port$/, ''));
+      const portInterfaceName = `${portName}Port`;
+      const adapterName = `${toPascalCase(adapter.name)}${toPascalCase(adapterType)}Adapter`;
+      const templateVars = { ...templateVarsFor(adapter.name, domainName), adapterType };
+      const adapterFileInfo = applyFilePatterns('adapter', 'adapterFile', config, { ...templateVars, name: adapterName }, basePath);
+      const absoluteAdapterFile = path.resolve(process.cwd(), adapterFileInfo.filePath);
+
+      // Stub the methods of a port from the blueprint, or of the one already in the domain
+      let portMethods: AdapterMethodStub[];
+      let portProperties: string[] = [];
+      let typeImports: string[];
+      const blueprintPort = blueprintPorts.get(`${domainName}/${portInterfaceName}`);
+      if (blueprintPort) {
+        portMethods = toAdapterMethodStubs(blueprintPort.methods.map(parsed => parsed.method));
+        typeImports = renderTypeImports([typeReference(portInterfaceName, blueprintPort.file), ...blueprintPort.models], absoluteAdapterFile);
+      } else {
+        const portFile = applyFilePatterns('port', 'portFile', config, { ...templateVarsFor(portName, domainName), adapterType, name: portInterfaceName }, basePath).filePath;
+        if (!fs.existsSync(portFile)) {
+          throw new Error(`${where}, adapter ${adapterName}: port ${portInterfaceName} is neither in the blueprint nor in ${portFile}`);
+        }
+        const parsed = parsePortFile(path.resolve(process.cwd(), portFile), portInterfaceName);
+        portMethods = toAdapterMethodStubs(parsed.methods);
+        portProperties = toAdapterPropertyStubs(parsed.properties);
+        typeImports = renderTypeImports([typeReference(parsed.interfaceName, portFile), ...parsed.references], absoluteAdapterFile);
+      }
+
+      planned.push({
+        kind: 'adapter',
+        schematic: 'adapter',
+        domain: domainName,
+        label: adapterName,
+        primaryFile: adapterFileInfo.filePath,
+        options: {
+          name: adapter.name,
+          domain: domainName,
+          port: portInterfaceName,
+          adapterType,
+          fileNameCase,
+          adapterFilePath: adapterFileInfo.filePath,
+          adapterFileName: adapterFileInfo.fileName,
+          portName: portInterfaceName,
+          portMethods,
+          portProperties,
+          typeImports
+        }
+      });
+    });
+
+    (domain.services || []).forEach(service => {
+      const serviceName = toPascalCase(service.name.replace(/Service$/, ''));
+      const templateVars = templateVarsFor(serviceName, domainName);
+      const serviceFileInfo = applyFilePatterns('service', 'serviceFile', config, {
+        ...templateVars,
+        serviceName: `${serviceName}Service`
+      }, basePath);
+
+      // Import the model of the same name when the blueprint declares it or the domain already has it
+      const modelFile = applyFilePatterns('domain', 'modelFile', config, { ...templateVars }, basePath).filePath;
+      const hasModel = (domain.models || []).some(model => toPascalCase(model.name) === serviceName) || fs.existsSync(modelFile);
+
+      planned.push({
+        kind: 'service',
+        schematic: 'service',
+        domain: domainName,
+        label: `${serviceName}Service`,
+        primaryFile: serviceFileInfo.filePath,
+        options: {
+          name: serviceName,
+          domain: domainName,
+          fileNameCase,
+          serviceFilePath: serviceFileInfo.filePath,
+          serviceFileName: serviceFileInfo.fileName,
+          modelImportPath: hasModel ? toImportPath(serviceFileInfo.filePath, modelFile) : null
+        }
+      });
+    });
+
+    (domain.handlers || []).forEach(handler => {
+      const trigger = handler.trigger || 'http';
+      if (!BLUEPRINT_TRIGGERS.includes(trigger)) {
+        throw new Error(`${where}, handler ${handler.name}: unknown trigger "${trigger}". Supported triggers: ${BLUEPRINT_TRIGGERS.join(', ')}`);
+      }
+
+      // The handler calls a service of its own domain, declared in the blueprint or already there
+      let serviceName: string | undefined;
+      let serviceFile: string | undefined;
+      if (handler.service) {
+        serviceName = `${toPascalCase(handler.service.replace(/Service$/, ''))}Service`;
+        const declared = (domain.services || []).some(service => `${toPascalCase(service.name.replace(/Service$/, ''))}Service` === serviceName);
+        serviceFile = applyFilePatterns('service', 'serviceFile', config, {
+          ...templateVarsFor(serviceName.replace(/Service$/, ''), domainName),
+          serviceName
+        }, basePath).filePath;
+        if (!declared && !fs.existsSync(serviceFile)) {
+          throw new Error(`${where}, handler ${handler.name}: service ${serviceName} is neither in the blueprint nor in ${serviceFile}`);
+        }
+      }
+
+      const templateVars = { ...templateVarsFor(handler.name, serviceName ? domainName : ''), serviceName: serviceName || '' };
+      const handlerFileInfo = applyFilePatterns('handler', 'handlerFile', config, { ...templateVars }, basePath);
+      const schemaFileInfo = applyFilePatterns('handler', 'schemaFile', config, { ...templateVars }, basePath);
+      const dtoFileInfo = applyFilePatterns('handler', 'dtoFile', config, { ...templateVars }, basePath);
+
+      planned.push({
+        kind: 'handler',
+        schematic: 'handler',
+        domain: domainName,
+        label: toDasherize(handler.name),
+        primaryFile: handlerFileInfo.filePath,
+        options: {
+          name: handler.name,
+          schema: !!handler.schema,
+          noValidation: !handler.schema,
+          ...(serviceName && serviceFile && {
+            serviceDomain: domainName,
+            serviceName,
+            serviceImportPath: toImportPath(handlerFileInfo.filePath, serviceFile)
+          }),
+          trigger,
+          createRequestDto: !!handler.requestDto,
+          // Event handlers return no HTTP response, so they never get a response DTO
+          createResponseDto: trigger === 'http' && !!handler.responseDto,
+          fileNameCase,
+          handlerFilePath: handlerFileInfo.filePath,
+          handlerFileName: handlerFileInfo.fileName,
+          schemaFilePath: schemaFileInfo.filePath,
+          schemaFileName: schemaFileInfo.fileName,
+          dtoFilePath: dtoFileInfo.filePath,
+          dtoFileName: dtoFileInfo.fileName,
+          dtoImportPath: toImportPath(handlerFileInfo.filePath, dtoFileInfo.filePath)
+        }
+      });
+    });
+
+    (domain.plugins || []).forEach(component => {
+      plugins = plugins || loadPlugins(config);
+      const pluginSchematic = findPluginSchematic(component.schematic, plugins);
+      if (!pluginSchematic) {
+        throw new Error(`${where}, ${component.name}: no plugin declares the schematic "${component.schematic}"`);
+      }
+
+      planned.push({
+        kind: 'plugin',
+        schematic: pluginSchematic.name,
+        collection: pluginSchematic.collectionPath,
+        domain: domainName,
+        label: component.name,
+        primaryFile: component.file ? path.join(basePath, component.file) : '',
+        options: {
+          name: component.name,
+          domain: domainName,
+          fileNameCase,
+          ...(component.options || {})
+        }
+      });
+    });
+  });
+
+  // Two components of a blueprint cannot generate the same file
+  const seen = new Map<string, BlueprintStep>();
+  planned.filter(step => step.primaryFile).forEach(step => {
+    const other = seen.get(path.normalize(step.primaryFile));
+    if (other) {
+      throw new Error(`${other.kind} ${other.label} and ${step.kind} ${step.label} both generate ${step.primaryFile}`);
+    }
+    seen.set(path.normalize(step.primaryFile), step);
+  });
+
+  const ordered = COMPONENT_ORDER.flatMap(kind => planned.filter(step => step.kind === kind));
+  const exists = (step: BlueprintStep) => !!step.primaryFile && fs.existsSync(step.primaryFile);
+  return {
+    steps: ordered.filter(step => !exists(step)),
+    existing: ordered.filter(exists)
+  };
+}
@@ -1,52 +1,11 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { parseDocument } from 'yaml';
+import { validateConfig, configIssueAt, jsonSyntaxIssue, yamlSyntaxIssues, ConfigValidationError } from './configSchema';
+import { CONFIG_PRESETS, DEFAULT_LAYOUT, PRESET_PREFIX } from './configPresets';
 
-// Default configuration
-const defaultConfig: CliConfig = {
-  basePath: 'src',
-  fileNameCase: 'pascal' as const,
-  filePatterns: {
-    handler: {
-      handlerFile: '{{dashName}}.handler.ts',
-      schemaFile: '{{pascalName}}Schema.ts',
-      dtoFile: '{{dashName}}.dto.ts'
-    },
-    domain: {
-      modelFile: '{{pascalName}}.ts',
-      serviceFile: '{{pascalName}}Service.ts',
-      portFile: '{{pascalName}}{{adapterType}}Port.ts',
-      adapterFile: '{{pascalName}}{{adapterType}}Adapter.ts'
-    },
-    service: {
-      serviceFile: '{{pascalName}}Service.ts'
-    },
-    port: {
-      portFile: '{{pascalName}}Port.ts',
-      adapterFile: '{{pascalName}}Adapter.ts'
-    }
-  },
-  directories: {
-    handler: {
-      base: 'handlers',
-      schema: 'handlers/schemas'
-    },
-    domain: {
-      base: '{{domainName}}',
-      model: '{{domainName}}/models',
-      service: '{{domainName}}/services',
-      port: '{{domainName}}/ports'
-    },
-    adapter: {
-      base: 'infra/{{adapterType}}'
-    },
-    service: {
-      base: '{{domainName}}/services'
-    },
-    port: {
-      base: '{{domainName}}/ports'
-    }
-  }
-};
+// Default configuration: the layout of the vss:default preset
+export const defaultConfig: CliConfig = DEFAULT_LAYOUT;
 
 export interface ConfigFilePatterns {
   [key: string]: {
@@ -65,6 +24,56 @@ export interface CliConfig {
   filePatterns: ConfigFilePatterns;
   directories: ConfigDirectories;
   fileNameCase: 'pascal' | 'camel' | 'kebab' | 'snake';
+  /**
+   * Route of each handler for export:openapi, keyed by camelCase handler name,
+   * e.g. { "listUsers": "GET /users" }. Takes precedence over @route annotations.
+   */
+  routes?: Record<string, string>;
+  /**
+   * Directory holding the project's own templates, one subdirectory per component,
+   * checked before the built-in templates. Defaults to `.vss/templates`.
+   */
+  templatesDir?: string;
+  /**
+   * Schematic collections to load next to the built-in one: npm packages
+   * installed in the project, or directories starting with ./
+   */
+  plugins?: string[];
+  /**
+   * Dependency rules arch:lint checks
+   */
+  architecture?: ArchitectureConfig;
+}
+
+/**
+ * A layer that may not import other layers, e.g. { from: 'domain', disallow: ['infra'] }
+ */
+export interface ArchitectureRule {
+  /**
+   * Layer the rule applies to: model, service, port, adapter, handler,
+   * domain (models, services and ports) or infra (adapters)
+   */
+  from: string;
+  /**
+   * Layers it may not import
+   */
+  disallow: string[];
+  /**
+   * Defaults to error, which makes arch:lint fail
+   */
+  severity?: 'error' | 'warning';
+}
+
+export interface ArchitectureConfig {
+  /**
+   * Replace the default hexagonal rules
+   */
+  rules?: ArchitectureRule[];
+  /**
+   * How imports between the models, services and ports of different domains are
+   * reported. Defaults to error.
+   */
+  crossDomain?: 'error' | 'warning' | 'off';
 }
 
 /**
@@ -96,12 +105,29 @@ function extractTemplateVars(pattern: string): string[] {
   return matches;
 }
 
+/**
+ * Where loadConfig reports the files it uses and the problems it finds
+ */
+type ConfigLogger = Pick<Console, 'log' | 'warn'>;
+
+/**
+ * Logger for the quiet option of loadConfig
+ */
+function configLogger(quiet: LoadConfigOptions['quiet']): ConfigLogger {
+  const ignore = () => {};
+  return {
+    log: quiet ? ignore : (...args: unknown[]) => console.log(...args),
+    warn: quiet === 'all' ? ignore : (...args: unknown[]) => console.warn(...args)
+  };
+}
+
 /**
  * Validates that file patterns are consistent with the chosen fileNameCase
  * @param config The configuration object to validate
+ * @param logger Where the inconsistencies are reported
  * @returns True if consistent, false if inconsistencies found
  */
-function validateFileNameCaseConsistency(config: CliConfig): boolean {
+function validateFileNameCaseConsistency(config: CliConfig, logger: ConfigLogger): boolean {
   if (!config.fileNameCase) {
     return true; // Nothing to validate if not specified
   }
@@ -119,13 +145,13 @@ function validateFileNameCaseConsistency(config: CliConfig): boolean {
       );
       
       if (caseVars.length > 0 && !caseVars.includes(recommendedVar)) {
-        console.warn(`⚠️  Warning: ${componentType}.${fileType}: "${pattern}" does not use {{${recommendedVar}}}, which is recommended for fileNameCase: "${config.fileNameCase}"`);
+        logger.warn(`⚠️  Warning: ${componentType}.${fileType}: "${pattern}" does not use {{${recommendedVar}}}, which is recommended for fileNameCase: "${config.fileNameCase}"`);
         
         // Show which case-specific variable is being used instead
         caseVars.forEach(v => {
           if (v !== recommendedVar && Object.values(caseToVariableMap).includes(v)) {
             const usedCase = Object.entries(caseToVariableMap).find(([_, value]) => value === v)?.[0];
-            console.warn(`   - Using {{${v}}} which is for fileNameCase: "${usedCase}"`);
+            logger.warn(`   - Using {{${v}}} which is for fileNameCase: "${usedCase}"`);
           }
         });
         
@@ -136,66 +162,390 @@ function validateFileNameCaseConsistency(config: CliConfig): boolean {
   });
   
   if (warnings > 0) {
-    console.warn(`⚠️  ${warnings} inconsistencies found between fileNameCase "${config.fileNameCase}" and template variables.`);
-    console.warn(`   - Recommended template variable for fileNameCase "${config.fileNameCase}" is {{${recommendedVar}}}.`);
+    logger.warn(`⚠️  ${warnings} inconsistencies found between fileNameCase "${config.fileNameCase}" and template variables.`);
+    logger.warn(`   - Recommended template variable for fileNameCase "${config.fileNameCase}" is {{${recommendedVar}}}.`);
   }
   
   return isConsistent;
 }
 
+export interface LoadConfigOptions {
+  /**
+   * Throw a ConfigValidationError when the config file is broken or has unknown keys,
+   * component types or variables, instead of warning and using what can be used.
+   * Defaults to true when the CI environment variable is set.
+   */
+  strict?: boolean;
+  /**
+   * Leave out the steps of the lookup, such as the files found and used, and only print
+   * the warnings about the config. With 'all' the warnings are left out too, for callers
+   * that report the problems themselves or whose config is loaded again by the real run.
+   */
+  quiet?: boolean | 'all';
+}
+
 /**
- * Load configuration from vss-api.config.json, with fallback to defaults
- * @param basePath Base path where to look for the config file
- * @param useAbsolutePath If true, basePath is treated as absolute, otherwise as relative to CWD
+ * Tell whether the CLI runs in a CI pipeline, where config problems must fail the build
  */
-export function loadConfig(basePath: string = '.', useAbsolutePath: boolean = false): CliConfig {
-  // If basePath is absolute and useAbsolutePath is true, use it directly
-  // Otherwise, resolve it relative to CWD
-  const configPath = useAbsolutePath && path.isAbsolute(basePath)
-    ? path.join(basePath, 'vss-api.config.json')
-    : path.join(process.cwd(), basePath, 'vss-api.config.json');
-  
-  let userConfig: Partial<CliConfig> = {};
-  
-  console.log(`Looking for config at: ${configPath}`);
-  
+function isCI(): boolean {
+  return !!process.env.CI && process.env.CI !== 'false' && process.env.CI !== '0';
+}
+
+/**
+ * Config files looked for in the project directory. When several are present they
+ * are all merged, later files in this list winning over earlier ones.
+ */
+export const CONFIG_FILES = [
+  'vss-api.config.json',
+  'vss-api.config.yaml',
+  'vss-api.config.yml',
+  'vss-api.config.js',
+  'vss-api.config.cjs',
+  'vss-api.config.ts'
+];
+
+/**
+ * Key of package.json that can hold the config, merged before the config files
+ */
+export const PACKAGE_JSON_KEY = 'vssApi';
+
+/**
+ * A place the config was read from
+ */
+interface ConfigSource {
+  /**
+   * Absolute path of the file, e.g. vss-api.config.ts or package.json
+   */
+  file: string;
+  config: unknown;
+  /**
+   * Source of the file, for the positions of the problems found in it
+   */
+  text?: string;
+  /**
+   * Location of the config in the file, e.g. `['vssApi']` in package.json
+   */
+  at?: string[];
+}
+
+/**
+ * List the config files of a directory, package.json included when it has a config key
+ *
+ * @param configDir Absolute path of the directory
+ * @returns Absolute paths, in the order they are merged
+ */
+export function findConfigFiles(configDir: string): string[] {
+  const files: string[] = [];
+  const packageJsonPath = path.join(configDir, 'package.json');
+  if (fs.existsSync(packageJsonPath)) {
+    try {
+      if (PACKAGE_JSON_KEY in fs.readJsonSync(packageJsonPath)) {
+        files.push(packageJsonPath);
+      }
+    } catch {
+      // Not ours to report: a broken package.json has no config key
+    }
+  }
+  CONFIG_FILES.forEach(fileName => {
+    const filePath = path.join(configDir, fileName);
+    if (fs.existsSync(filePath)) {
+      files.push(filePath);
+    }
+  });
+  return files;
+}
+
+/**
+ * Find the directory of the nearest config, walking up from a directory
+ *
+ * @param startDir Absolute path of the directory the search starts from
+ * @returns The directory, or undefined if neither it nor its parents have a config
+ */
+export function findConfigDir(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  while (true) {
+    if (findConfigFiles(dir).length > 0) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load a config module. TypeScript files are compiled on the fly by ts-node.
+ */
+function requireConfigModule(filePath: string): unknown {
+  if (filePath.endsWith('.ts') && !require.extensions['.ts']) {
+    // Only transpile: a type error in the config must not stop the CLI
+    require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+  }
+  delete require.cache[require.resolve(filePath)];
+  const loaded = require(filePath);
+  return loaded && loaded.__esModule && 'default' in loaded ? loaded.default : loaded;
+}
+
+/**
+ * Read the config held by a file, whatever its format.
+ * Throws a ConfigValidationError if the file cannot be parsed or loaded.
+ */
+function readConfigSource(filePath: string, displayPath: string, logger: ConfigLogger): ConfigSource {
+  const extension = path.extname(filePath);
+
+  if (extension === '.js' || extension === '.cjs' || extension === '.ts') {
+    try {
+      return { file: filePath, config: requireConfigModule(filePath) };
+    } catch (error: any) {
+      throw new ConfigValidationError(displayPath, [{ path: '', message: `Could not load the config: ${String(error.message).trim()}`, line: 0, column: 0 }]);
+    }
+  }
+
+  const text = fs.readFileSync(filePath, 'utf8');
+  logger.log(`Config content: ${text}`);
+
+  if (extension === '.yaml' || extension === '.yml') {
+    const document = parseDocument(text);
+    if (document.errors.length > 0) {
+      throw new ConfigValidationError(displayPath, yamlSyntaxIssues(document.errors));
+    }
+    return { file: filePath, config: document.toJS(), text };
+  }
+
+  let parsed: any;
   try {
-    if (fs.existsSync(configPath)) {
-      console.log(`Found config file at: ${configPath}`);
-      const configContent = fs.readFileSync(configPath, 'utf8');
-      console.log(`Config content: ${configContent}`);
-      
-      const rawConfig = JSON.parse(configContent);
-      
-      // Ensure fileNameCase is valid if present
-      if (rawConfig.fileNameCase) {
-        const validValues = ['pascal', 'camel', 'kebab', 'snake'];
-        if (validValues.includes(rawConfig.fileNameCase)) {
-          userConfig.fileNameCase = rawConfig.fileNameCase as 'pascal' | 'camel' | 'kebab' | 'snake';
-          console.log(`Using fileNameCase from config: ${userConfig.fileNameCase}`);
-        }
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    throw new ConfigValidationError(displayPath, [jsonSyntaxIssue(text, error)]);
+  }
+  if (path.basename(filePath) === 'package.json') {
+    return { file: filePath, config: parsed[PACKAGE_JSON_KEY], text, at: [PACKAGE_JSON_KEY] };
+  }
+  return { file: filePath, config: parsed, text };
+}
+
+/**
+ * Config files an `extends` entry points to: a config file, a directory holding
+ * config files, or an npm package (its main file, or a file inside it)
+ *
+ * @param base The `extends` entry
+ * @param fromDir Directory of the config that extends it
+ */
+function resolveExtends(base: string, fromDir: string): string[] {
+  if (base.startsWith('.') || path.isAbsolute(base)) {
+    const basePath = path.resolve(fromDir, base);
+    if (!fs.existsSync(basePath)) {
+      throw new Error(`not found at ${basePath}`);
+    }
+    if (!fs.statSync(basePath).isDirectory()) {
+      return [basePath];
+    }
+    const files = findConfigFiles(basePath);
+    if (files.length === 0) {
+      throw new Error(`no config file in ${basePath}`);
+    }
+    return files;
+  }
+
+  try {
+    return [require.resolve(base, { paths: [fromDir] })];
+  } catch {
+    throw new Error(`not installed. Run npm install ${base} --save-dev, or use a path starting with ./`);
+  }
+}
+
+/**
+ * Settings from one place, in the order they are merged
+ */
+interface ConfigLayer {
+  /**
+   * Where the settings come from: a config file relative to the current directory, or a preset such as `vss:default`
+   */
+  origin: string;
+  config: Partial<CliConfig>;
+}
+
+/**
+ * Read the settings of a config file, after those of the configs it extends.
+ * In strict mode throws a ConfigValidationError for the first file with problems;
+ * otherwise warns and leaves that file out.
+ *
+ * @param configPath Absolute path of the file
+ * @param strict See LoadConfigOptions
+ * @param chain Files that extend this one, to detect cycles
+ * @returns The settings of the presets and files it extends, then its own
+ */
+function readConfigFile(configPath: string, strict: boolean, logger: ConfigLogger, chain: string[] = []): ConfigLayer[] {
+  const displayPath = path.relative(process.cwd(), configPath) || configPath;
+  const layers: ConfigLayer[] = [];
+  try {
+    if (chain.includes(configPath)) {
+      const cycle = [...chain, configPath].map(file => path.relative(process.cwd(), file) || file).join(' -> ');
+      throw new ConfigValidationError(displayPath, [{ path: 'extends', message: `The config extends itself: ${cycle}`, line: 0, column: 0 }]);
+    }
+
+    logger.log(`Found config file at: ${configPath}`);
+    const source = readConfigSource(configPath, displayPath, logger);
+
+    const issues = validateConfig(source.config, source.text, source.at);
+    if (issues.length > 0) {
+      const validationError = new ConfigValidationError(displayPath, issues);
+      if (strict) {
+        throw validationError;
       }
-      
-      // Copy the rest of the config
-      if (rawConfig.basePath) userConfig.basePath = rawConfig.basePath;
-      if (rawConfig.filePatterns) userConfig.filePatterns = rawConfig.filePatterns;
-      if (rawConfig.directories) userConfig.directories = rawConfig.directories;
-      
-      console.log('🔧 Using configuration from vss-api.config.json');
-    } else {
-      console.log(`Config file not found at: ${configPath}`);
+      logger.warn(`⚠️  ${validationError.message}`);
+    }
+    if (!isObject(source.config)) {
+      return layers;
     }
+
+    const rawConfig = source.config as Record<string, unknown>;
+    const bases = typeof rawConfig.extends === 'string' ? [rawConfig.extends] : Array.isArray(rawConfig.extends) ? rawConfig.extends : [];
+    bases.forEach((base, index) => {
+      if (typeof base !== 'string') return;
+      if (base.startsWith(PRESET_PREFIX)) {
+        // An unknown preset is reported by validateConfig
+        const preset = CONFIG_PRESETS[base.slice(PRESET_PREFIX.length)];
+        if (preset) {
+          layers.push({ origin: base, config: preset.config });
+          logger.log(`🔧 Using preset ${base}`);
+        }
+        return;
+      }
+      let baseFiles: string[];
+      try {
+        baseFiles = resolveExtends(base, path.dirname(configPath));
+      } catch (error: any) {
+        const at = Array.isArray(rawConfig.extends) ? ['extends', String(index)] : ['extends'];
+        throw new ConfigValidationError(displayPath, [configIssueAt(at, `Cannot extend "${base}": ${error.message}`, source.text, source.at)]);
+      }
+      baseFiles.forEach(baseFile => {
+        layers.push(...readConfigFile(baseFile, strict, logger, [...chain, configPath]));
+      });
+    });
+
+    layers.push({ origin: displayPath, config: pickConfig(rawConfig, logger) });
+    logger.log(`🔧 Using configuration from ${displayPath}`);
   } catch (error) {
-    console.warn('⚠️ Error loading configuration file, using defaults:', error);
+    if (strict && error instanceof ConfigValidationError) {
+      throw error;
+    }
+    logger.warn(`⚠️ Error loading ${displayPath}, ignoring it:`, error instanceof ConfigValidationError ? error.message : error);
+    return [];
   }
+  return layers;
+}
+
+/**
+ * Settings the CLI uses from a config, checked against the schema
+ */
+function pickConfig(rawConfig: any, logger: ConfigLogger): Partial<CliConfig> {
+  const userConfig: Partial<CliConfig> = {};
+
+  // Ensure fileNameCase is valid if present
+  if (rawConfig.fileNameCase) {
+    const validValues = ['pascal', 'camel', 'kebab', 'snake'];
+    if (validValues.includes(rawConfig.fileNameCase)) {
+      userConfig.fileNameCase = rawConfig.fileNameCase as 'pascal' | 'camel' | 'kebab' | 'snake';
+      logger.log(`Using fileNameCase from config: ${userConfig.fileNameCase}`);
+    }
+  }
+
+  // Copy the rest of the config
+  if (rawConfig.basePath) userConfig.basePath = rawConfig.basePath;
+  if (rawConfig.filePatterns) userConfig.filePatterns = rawConfig.filePatterns;
+  if (rawConfig.directories) userConfig.directories = rawConfig.directories;
+  if (rawConfig.routes) userConfig.routes = rawConfig.routes;
+  if (rawConfig.templatesDir) userConfig.templatesDir = rawConfig.templatesDir;
+  if (rawConfig.plugins) userConfig.plugins = rawConfig.plugins;
+  if (rawConfig.architecture) userConfig.architecture = rawConfig.architecture;
+
+  return userConfig;
+}
 
-  // Deep merge default and user config
-  const finalConfig = deepMerge(defaultConfig, userConfig);
+/**
+ * A loaded config, with where each of its settings comes from
+ */
+export interface ResolvedConfig {
+  config: CliConfig;
+  /**
+   * Origin of each setting, keyed by its location such as `directories.handler.base`:
+   * `default`, a preset such as `vss:clean-architecture`, or a config file relative to the current directory
+   */
+  sources: Record<string, string>;
+  /**
+   * Where the settings come from, in the order they were merged; `default` first
+   */
+  origins: string[];
+}
+
+/**
+ * Locations of the values of a config, e.g. `directories.handler.base`. Lists such as
+ * `plugins` are one value, as a list from a config replaces the one it overrides.
+ */
+function settingPaths(config: Record<string, any>, prefix = ''): string[] {
+  return Object.entries(config).flatMap(([key, value]) =>
+    isObject(value) ? settingPaths(value, `${prefix}${key}.`) : [`${prefix}${key}`]
+  );
+}
+
+/**
+ * Load configuration like loadConfig, and tell where each setting comes from
+ * @param basePath Base path where the search for config files starts, walking up
+ * @param useAbsolutePath If true, basePath is treated as absolute, otherwise as relative to CWD
+ * @param options See LoadConfigOptions
+ * @throws ConfigValidationError in strict mode, listing the problems of a config file with their positions
+ */
+export function loadResolvedConfig(basePath: string = '.', useAbsolutePath: boolean = false, options: LoadConfigOptions = {}): ResolvedConfig {
+  const strict = options.strict ?? isCI();
+  const logger = configLogger(options.quiet);
+  // If basePath is absolute and useAbsolutePath is true, use it directly
+  // Otherwise, resolve it relative to CWD
+  const startDir = useAbsolutePath && path.isAbsolute(basePath)
+    ? basePath
+    : path.join(process.cwd(), basePath);
+  
+  logger.log(`Looking for config from: ${startDir}`);
+
+  const configDir = findConfigDir(startDir);
+  if (!configDir) {
+    logger.log(`Config file not found in ${startDir} or its parents`);
+  }
+
+  const layers: ConfigLayer[] = [
+    { origin: 'default', config: defaultConfig },
+    ...(configDir ? findConfigFiles(configDir) : []).flatMap(configPath => readConfigFile(configPath, strict, logger))
+  ];
+
+  // Deep merge default and user config, later layers winning
+  let finalConfig = defaultConfig;
+  const sources: Record<string, string> = {};
+  layers.forEach(layer => {
+    finalConfig = deepMerge(finalConfig, layer.config);
+    settingPaths(layer.config).forEach(setting => {
+      sources[setting] = layer.origin;
+    });
+  });
 
   // Validate file name case consistency
-  validateFileNameCaseConsistency(finalConfig);
+  validateFileNameCaseConsistency(finalConfig, logger);
+
+  return { config: finalConfig, sources, origins: layers.map(layer => layer.origin) };
+}
 
-  return finalConfig;
+/**
+ * Load configuration from the config files of the nearest directory that has any
+ * (vss-api.config.json, .yaml, .js, .cjs, .ts and the vssApi key of package.json),
+ * and from the configs they extend, with fallback to defaults
+ * @param basePath Base path where the search for config files starts, walking up
+ * @param useAbsolutePath If true, basePath is treated as absolute, otherwise as relative to CWD
+ * @param options See LoadConfigOptions
+ * @throws ConfigValidationError in strict mode, listing the problems of a config file with their positions
+ */
+export function loadConfig(basePath: string = '.', useAbsolutePath: boolean = false, options: LoadConfigOptions = {}): CliConfig {
+  return loadResolvedConfig(basePath, useAbsolutePath, options).config;
 }
 
 /**
@@ -0,0 +1,169 @@
+import type { CliConfig } from './configLoader';
+
+/**
+ * Prefix of the built-in presets in `extends`, e.g. `vss:clean-architecture`
+ */
+export const PRESET_PREFIX = 'vss:';
+
+/**
+ * A named layout a config can extend
+ */
+export interface ConfigPreset {
+  description: string;
+  /**
+   * Settings of the preset, merged over the defaults
+   */
+  config: Partial<CliConfig>;
+}
+
+/**
+ * Layout of projects without a config: handlers in handlers/, one directory per domain
+ */
+export const DEFAULT_LAYOUT: CliConfig = {
+  basePath: 'src',
+  fileNameCase: 'pascal' as const,
+  filePatterns: {
+    handler: {
+      handlerFile: '{{dashName}}.handler.ts',
+      schemaFile: '{{pascalName}}Schema.ts',
+      dtoFile: '{{dashName}}.dto.ts'
+    },
+    domain: {
+      modelFile: '{{pascalName}}.ts',
+      serviceFile: '{{pascalName}}Service.ts',
+      portFile: '{{pascalName}}{{adapterType}}Port.ts',
+      adapterFile: '{{pascalName}}{{adapterType}}Adapter.ts',
+      schemaFile: '{{pascalName}}Schema.ts'
+    },
+    service: {
+      serviceFile: '{{pascalName}}Service.ts'
+    },
+    port: {
+      portFile: '{{pascalName}}Port.ts',
+      adapterFile: '{{pascalName}}Adapter.ts'
+    }
+  },
+  directories: {
+    handler: {
+      base: 'handlers',
+      schema: 'handlers/schemas'
+    },
+    domain: {
+      base: '{{domainName}}',
+      model: '{{domainName}}/models',
+      service: '{{domainName}}/services',
+      port: '{{domainName}}/ports',
+      schema: '{{domainName}}/schemas'
+    },
+    adapter: {
+      base: 'infra/{{adapterType}}'
+    },
+    service: {
+      base: '{{domainName}}/services'
+    },
+    port: {
+      base: '{{domainName}}/ports'
+    }
+  }
+};
+
+/**
+ * Built-in presets, by name without the `vss:` prefix
+ */
+export const CONFIG_PRESETS: Record<string, ConfigPreset> = {
+  default: {
+    description: 'Handlers in handlers/, one directory per domain with models, services and ports',
+    config: DEFAULT_LAYOUT
+  },
+  'clean-architecture': {
+    description: 'Entities and use cases in core/, handlers and adapters in adapters/primary and adapters/secondary',
+    config: {
+      fileNameCase: 'pascal',
+      filePatterns: {
+        handler: {
+          handlerFile: '{{pascalName}}Controller.ts',
+          dtoFile: '{{pascalName}}Dto.ts'
+        },
+        domain: {
+          modelFile: '{{pascalName}}Entity.ts',
+          serviceFile: '{{pascalName}}UseCase.ts'
+        },
+        service: {
+          serviceFile: '{{pascalName}}UseCase.ts'
+        }
+      },
+      directories: {
+        handler: {
+          base: 'adapters/primary',
+          schema: 'adapters/primary/schemas'
+        },
+        domain: {
+          base: 'core/domain/{{domainName}}',
+          model: 'core/domain/{{domainName}}/entities',
+          service: 'core/domain/{{domainName}}/use-cases',
+          port: 'core/ports/output',
+          schema: 'core/domain/{{domainName}}/schemas'
+        },
+        adapter: {
+          base: 'adapters/secondary/{{adapterType}}'
+        },
+        service: {
+          base: 'core/domain/{{domainName}}/use-cases'
+        },
+        port: {
+          base: 'core/ports/output'
+        }
+      }
+    }
+  },
+  'feature-sliced': {
+    description: 'One kebab-case directory per feature holding its handlers, model, service, ports and adapters',
+    config: {
+      fileNameCase: 'kebab',
+      filePatterns: {
+        handler: {
+          handlerFile: '{{dashName}}.handler.ts',
+          schemaFile: '{{dashName}}.schema.ts',
+          dtoFile: '{{dashName}}.dto.ts'
+        },
+        domain: {
+          modelFile: '{{dashName}}.model.ts',
+          serviceFile: '{{dashName}}.service.ts',
+          portFile: '{{dashName}}-{{adapterType}}.port.ts',
+          adapterFile: '{{dashName}}-{{adapterType}}.adapter.ts',
+          schemaFile: '{{dashName}}.schema.ts'
+        },
+        service: {
+          serviceFile: '{{dashName}}.service.ts'
+        },
+        port: {
+          portFile: '{{dashName}}.port.ts',
+          adapterFile: '{{dashName}}.adapter.ts'
+        }
+      },
+      directories: {
+        handler: {
+          base: 'features/{{domainName}}/handlers',
+          schema: 'features/{{domainName}}/handlers'
+        },
+        domain: {
+          base: 'features/{{domainName}}',
+          model: 'features/{{domainName}}',
+          service: 'features/{{domainName}}',
+          port: 'features/{{domainName}}',
+          schema: 'features/{{domainName}}',
+          adapter: 'features/{{domainName}}'
+        },
+        adapter: {
+          base: 'features/{{domainName}}'
+        },
+        service: {
+          base: 'features/{{domainName}}'
+        },
+        port: {
+          base: 'features/{{domainName}}'
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,399 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { parseDocument, LineCounter, isMap, isPair, isScalar, Document, YAMLError } from 'yaml';
+import { CONFIG_PRESETS, PRESET_PREFIX } from './configPresets';
+import type { ComponentKind } from './projectIndex';
+
+/**
+ * JSON Schema of vss-api.config.json, shipped at the root of the package
+ */
+export const CONFIG_SCHEMA_FILE = 'vss-api.config.schema.json';
+
+/**
+ * Copy of the schema in a project, relative to the project root, next to the generation manifest
+ */
+export const CONFIG_SCHEMA_PATH = path.join('.vss', CONFIG_SCHEMA_FILE);
+
+/**
+ * Value of `$schema` in the config files the CLI writes, pointing at the copy of the schema in the project
+ */
+export const CONFIG_SCHEMA_REF = `./.vss/${CONFIG_SCHEMA_FILE}`;
+
+/**
+ * Copy the schema shipped with the CLI into a project, where `CONFIG_SCHEMA_REF` points
+ *
+ * @param projectDir Directory of the config file
+ */
+export async function writeConfigSchema(projectDir: string): Promise<void> {
+  await fs.copy(path.join(__dirname, '..', '..', CONFIG_SCHEMA_FILE), path.join(projectDir, CONFIG_SCHEMA_PATH));
+}
+
+/**
+ * Keys of the config file
+ */
+const CONFIG_KEYS = ['$schema', 'extends', 'basePath', 'fileNameCase', 'filePatterns', 'directories', 'routes', 'templatesDir', 'plugins', 'architecture'];
+
+const FILE_NAME_CASES = ['pascal', 'camel', 'kebab', 'snake'];
+
+/**
+ * Files each component type has a name pattern for
+ */
+export const FILE_PATTERN_KEYS: Record<string, string[]> = {
+  handler: ['handlerFile', 'schemaFile', 'dtoFile'],
+  domain: ['modelFile', 'serviceFile', 'portFile', 'adapterFile', 'schemaFile'],
+  service: ['serviceFile'],
+  port: ['portFile', 'adapterFile'],
+  adapter: ['adapterFile']
+};
+
+/**
+ * Directories each component type can be placed in
+ */
+export const DIRECTORY_KEYS: Record<string, string[]> = {
+  handler: ['base', 'schema'],
+  domain: ['base', 'model', 'service', 'port', 'schema', 'adapter'],
+  service: ['base'],
+  port: ['base'],
+  adapter: ['base']
+};
+
+/**
+ * Layers architecture rules can name: a component kind, or a group of them
+ */
+export const ARCHITECTURE_LAYERS: Record<string, ComponentKind[]> = {
+  model: ['model'],
+  service: ['service'],
+  port: ['port'],
+  adapter: ['adapter'],
+  handler: ['handler'],
+  domain: ['model', 'service', 'port'],
+  infra: ['adapter']
+};
+
+const ARCHITECTURE_SEVERITIES = ['error', 'warning'];
+
+/**
+ * Variables file patterns and directories can use
+ */
+export const TEMPLATE_VARIABLES = ['name', 'pascalName', 'camelName', 'dashName', 'snakeName', 'domainName', 'serviceName', 'adapterType'];
+
+/**
+ * A problem found in a config file
+ */
+export interface ConfigIssue {
+  /**
+   * Location of the value, e.g. `filePatterns.handler.handlerFile`
+   */
+  path: string;
+  message: string;
+  /**
+   * 1-based position in the file; 0 when it is not known
+   */
+  line: number;
+  column: number;
+}
+
+/**
+ * Thrown by `loadConfig` in strict mode when the config file has problems
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly filePath: string, public readonly issues: ConfigIssue[]) {
+    super(formatConfigIssues(filePath, issues));
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Number of single-character edits between two strings, for "did you mean" suggestions
+ */
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]!;
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]!;
+      previous[j] = Math.min(above + 1, previous[j - 1]! + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Message for an unknown name, suggesting the closest known one when it looks like a typo
+ */
+function unknownName(kind: string, name: string, known: string[]): string {
+  const closest = known
+    .map(candidate => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  const suggestion = closest && closest.distance <= Math.max(2, Math.floor(closest.candidate.length / 3))
+    ? ` Did you mean "${closest.candidate}"?`
+    : ` Expected one of: ${known.join(', ')}`;
+  return `Unknown ${kind} "${name}".${suggestion}`;
+}
+
+/**
+ * Finds the line and column of values in the source of a config file
+ */
+class SourcePositions {
+  private readonly document?: Document.Parsed;
+  private readonly lineCounter = new LineCounter();
+
+  constructor(text?: string) {
+    if (text !== undefined) {
+      // JSON is YAML, so one parser gives positions for both formats
+      this.document = parseDocument(text, { lineCounter: this.lineCounter, uniqueKeys: false });
+    }
+  }
+
+  /**
+   * Position of the value at a path, or of its key when `key` is set
+   */
+  of(path: string[], key = false): { line: number; column: number } {
+    let node: unknown = this.document?.contents;
+    let offset: number | undefined;
+    for (const segment of path) {
+      if (!isMap(node)) break;
+      const pair = node.items.find(item => isPair(item) && isScalar(item.key) && String(item.key.value) === segment);
+      if (!pair) break;
+      offset = (key && segment === path[path.length - 1] ? (pair.key as any) : (pair.value as any) || pair.key)?.range?.[0];
+      node = pair.value;
+    }
+    if (offset === undefined) {
+      return { line: 0, column: 0 };
+    }
+    const { line, col } = this.lineCounter.linePos(offset);
+    return { line, column: col };
+  }
+}
+
+/**
+ * Check the config file content against the schema: unknown keys, component types,
+ * files and `{{variables}}`, and values of the wrong type.
+ *
+ * @param config Parsed config file content
+ * @param text Source of the config file, for positions
+ * @param at Location of the config in the source, e.g. `['vssApi']` in package.json
+ * @returns The problems found, in file order
+ */
+export function validateConfig(config: unknown, text?: string, at: string[] = []): ConfigIssue[] {
+  const positions = new SourcePositions(text);
+  const issues: ConfigIssue[] = [];
+  const report = (path: string[], message: string, key = false) => {
+    issues.push({ path: path.join('.'), message, ...positions.of([...at, ...path], key) });
+  };
+
+  const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+  const checkString = (path: string[], value: unknown) => {
+    if (typeof value !== 'string') {
+      report(path, `Expected a string, got ${JSON.stringify(value)}`);
+      return false;
+    }
+    return true;
+  };
+
+  const checkTemplate = (path: string[], value: unknown) => {
+    if (!checkString(path, value)) return;
+    for (const match of (value as string).matchAll(/\{\{([^}]*)\}\}/g)) {
+      const variable = match[1]!;
+      if (!TEMPLATE_VARIABLES.includes(variable)) {
+        report(path, unknownName('variable', `{{${variable}}}`, TEMPLATE_VARIABLES.map(known => `{{${known}}}`)));
+      }
+    }
+  };
+
+  const checkExtends = (path: string[], value: unknown) => {
+    if (!checkString(path, value)) return;
+    const base = value as string;
+    const presets = Object.keys(CONFIG_PRESETS).map(name => `${PRESET_PREFIX}${name}`);
+    if (base.startsWith(PRESET_PREFIX) && !presets.includes(base)) {
+      report(path, unknownName('preset', base, presets));
+    }
+  };
+
+  const checkLayer = (path: string[], value: unknown) => {
+    if (checkString(path, value) && !Object.keys(ARCHITECTURE_LAYERS).includes(value as string)) {
+      report(path, unknownName('layer', value as string, Object.keys(ARCHITECTURE_LAYERS)));
+    }
+  };
+
+  const checkArchitecture = (value: unknown) => {
+    if (!isPlainObject(value)) {
+      report(['architecture'], 'Expected an object with rules and crossDomain');
+      return;
+    }
+    Object.entries(value).forEach(([key, setting]) => {
+      const path = ['architecture', key];
+      if (key === 'crossDomain') {
+        if (![...ARCHITECTURE_SEVERITIES, 'off'].includes(setting as string)) {
+          report(path, `Invalid crossDomain ${JSON.stringify(setting)}. Expected one of: error, warning, off`);
+        }
+      } else if (key === 'rules') {
+        if (!Array.isArray(setting)) {
+          report(path, 'Expected a list of rules, e.g. [{ "from": "domain", "disallow": ["infra"] }]');
+          return;
+        }
+        setting.forEach((rule, index) => {
+          const rulePath = [...path, String(index)];
+          if (!isPlainObject(rule)) {
+            report(rulePath, 'Expected a rule with from and disallow, e.g. { "from": "domain", "disallow": ["infra"] }');
+            return;
+          }
+          if (!('from' in rule)) report(rulePath, 'Missing "from": the layer the rule applies to');
+          if (!('disallow' in rule)) report(rulePath, 'Missing "disallow": the layers it may not import');
+          Object.entries(rule).forEach(([ruleKey, ruleValue]) => {
+            const keyPath = [...rulePath, ruleKey];
+            if (ruleKey === 'from') {
+              checkLayer(keyPath, ruleValue);
+            } else if (ruleKey === 'disallow') {
+              if (Array.isArray(ruleValue)) {
+                ruleValue.forEach((layer, layerIndex) => checkLayer([...keyPath, String(layerIndex)], layer));
+              } else {
+                report(keyPath, 'Expected a list of layers');
+              }
+            } else if (ruleKey === 'severity') {
+              if (!ARCHITECTURE_SEVERITIES.includes(ruleValue as string)) {
+                report(keyPath, `Invalid severity ${JSON.stringify(ruleValue)}. Expected one of: ${ARCHITECTURE_SEVERITIES.join(', ')}`);
+              }
+            } else {
+              report(keyPath, unknownName('rule key', ruleKey, ['from', 'disallow', 'severity']), true);
+            }
+          });
+        });
+      } else {
+        report(path, unknownName('architecture key', key, ['rules', 'crossDomain']), true);
+      }
+    });
+  };
+
+  const checkComponents = (section: 'filePatterns' | 'directories', value: unknown, keysByComponent: Record<string, string[]>) => {
+    if (!isPlainObject(value)) {
+      report([section], 'Expected an object with one entry per component type');
+      return;
+    }
+    Object.entries(value).forEach(([componentType, entries]) => {
+      const componentKeys = keysByComponent[componentType];
+      if (!componentKeys) {
+        report([section, componentType], unknownName('component type', componentType, Object.keys(keysByComponent)), true);
+        return;
+      }
+      if (!isPlainObject(entries)) {
+        report([section, componentType], `Expected an object with any of: ${componentKeys.join(', ')}`);
+        return;
+      }
+      Object.entries(entries).forEach(([key, pattern]) => {
+        if (!componentKeys.includes(key)) {
+          report([section, componentType, key], unknownName(`${componentType} ${section === 'filePatterns' ? 'file' : 'directory'}`, key, componentKeys), true);
+          return;
+        }
+        checkTemplate([section, componentType, key], pattern);
+      });
+    });
+  };
+
+  if (!isPlainObject(config)) {
+    report([], 'The config must be an object');
+    return issues;
+  }
+
+  Object.entries(config).forEach(([key, value]) => {
+    switch (key) {
+      case '$schema':
+      case 'basePath':
+      case 'templatesDir':
+        checkString([key], value);
+        break;
+      case 'fileNameCase':
+        if (!FILE_NAME_CASES.includes(value as string)) {
+          report([key], `Invalid fileNameCase ${JSON.stringify(value)}. Expected one of: ${FILE_NAME_CASES.join(', ')}`);
+        }
+        break;
+      case 'filePatterns':
+        checkComponents(key, value, FILE_PATTERN_KEYS);
+        break;
+      case 'directories':
+        checkComponents(key, value, DIRECTORY_KEYS);
+        break;
+      case 'routes':
+        if (!isPlainObject(value)) {
+          report([key], 'Expected an object of handler names and routes, e.g. { "listUsers": "GET /users" }');
+        } else {
+          Object.entries(value).forEach(([handler, route]) => checkString([key, handler], route));
+        }
+        break;
+      case 'extends':
+        if (Array.isArray(value)) {
+          value.forEach((base, index) => checkExtends([key, String(index)], base));
+        } else {
+          checkExtends([key], value);
+        }
+        break;
+      case 'architecture':
+        checkArchitecture(value);
+        break;
+      case 'plugins':
+        if (!Array.isArray(value)) {
+          report([key], 'Expected a list of npm packages or directories');
+        } else {
+          value.forEach((plugin, index) => checkString([key, String(index)], plugin));
+        }
+        break;
+      default:
+        report([key], unknownName('key', key, CONFIG_KEYS), true);
+    }
+  });
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * A problem found at a location of a config file
+ *
+ * @param path Location of the value, e.g. `['extends']`
+ * @param message What is wrong
+ * @param text Source of the config file, for the position
+ * @param at Location of the config in the source, e.g. `['vssApi']` in package.json
+ */
+export function configIssueAt(path: string[], message: string, text?: string, at: string[] = []): ConfigIssue {
+  return { path: path.join('.'), message, ...new SourcePositions(text).of([...at, ...path]) };
+}
+
+/**
+ * Position of a JSON.parse error, from the offset in its message
+ */
+export function jsonSyntaxIssue(text: string, error: Error): ConfigIssue {
+  const offset = Number(/at position (\d+)/.exec(error.message)?.[1]);
+  const issue: ConfigIssue = { path: '', message: `Invalid JSON: ${error.message.replace(/ in JSON at position \d+.*$/, '')}`, line: 0, column: 0 };
+  if (!Number.isNaN(offset)) {
+    const before = text.slice(0, offset).split('\n');
+    issue.line = before.length;
+    issue.column = before[before.length - 1]!.length + 1;
+  }
+  return issue;
+}
+
+/**
+ * Positions of the syntax errors of a YAML file
+ */
+export function yamlSyntaxIssues(errors: YAMLError[]): ConfigIssue[] {
+  return errors.map(error => ({
+    path: '',
+    message: `Invalid YAML: ${error.message.split('\n')[0]!.replace(/ at line \d+, column \d+:?$/, '')}`,
+    line: error.linePos?.[0].line ?? 0,
+    column: error.linePos?.[0].col ?? 0
+  }));
+}
+
+/**
+ * Report of config problems, one `file:line:column` line each, as editors and CI logs link them
+ */
+export function formatConfigIssues(filePath: string, issues: ConfigIssue[]): string {
+  const lines = issues.map(issue => {
+    const location = issue.line > 0 ? `${filePath}:${issue.line}:${issue.column}` : filePath;
+    return `${location} - ${issue.message}${issue.path ? ` (${issue.path})` : ''}`;
+  });
+  return `${issues.length} problem(s) in ${filePath}:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,96 @@
+import inquirer from 'inquirer';
+import * as path from 'path';
+import { createTwoFilesPatch } from 'diff';
+
+/**
+ * What a generator does when a file it creates already exists:
+ * - `error`: stop the run before anything is written (default)
+ * - `skip`: keep the existing file
+ * - `overwrite`: replace the existing file
+ * - `rename`: write the new content next to it, e.g. `create-user.generated.handler.ts`
+ * - `prompt`: show a diff and ask for each file
+ */
+export type ConflictStrategy = 'error' | 'skip' | 'overwrite' | 'rename' | 'prompt';
+
+/**
+ * Values accepted by `--on-conflict`
+ */
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ['skip', 'overwrite', 'rename', 'prompt'];
+
+/**
+ * Path the `rename` strategy writes to: `.generated` goes before the extension,
+ * followed by a counter when that name is taken too
+ *
+ * @param filePath Path of the existing file
+ * @param isTaken Tells whether a candidate path is already used
+ */
+export function renamedFilePath(filePath: string, isTaken: (candidate: string) => boolean): string {
+  const dir = path.posix.dirname(filePath);
+  const base = path.posix.basename(filePath);
+  // Keep compound extensions such as .handler.ts or .dto.ts together
+  const extensionStart = base.indexOf('.', 1);
+  const stem = extensionStart === -1 ? base : base.slice(0, extensionStart);
+  const extension = extensionStart === -1 ? '' : base.slice(extensionStart);
+
+  for (let attempt = 1; ; attempt++) {
+    const suffix = attempt === 1 ? '.generated' : `.generated-${attempt}`;
+    const candidate = path.posix.join(dir, `${stem}${suffix}${extension}`);
+    if (!isTaken(candidate)) return candidate;
+  }
+}
+
+/**
+ * Coloured unified diff between the existing content of a file and the generated one
+ */
+export function formatFileDiff(filePath: string, existingContent: string, generatedContent: string): string {
+  const patch = createTwoFilesPatch(`${filePath} (existing)`, `${filePath} (generated)`, existingContent, generatedContent);
+  return patch
+    .split('\n')
+    .filter(line => !line.startsWith('====='))
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return `\x1b[1m${line}\x1b[0m`;
+      if (line.startsWith('+')) return `\x1b[32m${line}\x1b[0m`;
+      if (line.startsWith('-')) return `\x1b[31m${line}\x1b[0m`;
+      if (line.startsWith('@@')) return `\x1b[36m${line}\x1b[0m`;
+      return line;
+    })
+    .join('\n');
+}
+
+/**
+ * Show the diff of a conflicting file and ask what to do with it
+ *
+ * @param unmodified Whether the file is still what the generator last wrote, which makes overwriting the default
+ */
+export async function promptConflictResolution(
+  filePath: string,
+  existingContent: string,
+  generatedContent: string,
+  unmodified = false
+): Promise<Exclude<ConflictStrategy, 'error' | 'prompt'>> {
+  console.log(`\n\x1b[33m⚠️  ${filePath} already exists${unmodified ? ' and is unmodified since it was generated' : ''}:\x1b[0m\n`);
+  console.log(formatFileDiff(filePath, existingContent, generatedContent));
+
+  const { resolution } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'resolution',
+      message: `What should be done with ${filePath}?`,
+      choices: [
+        { name: 'Keep the existing file', value: 'skip' },
+        { name: 'Overwrite it with the generated file', value: 'overwrite' },
+        { name: 'Write the generated file next to it (.generated)', value: 'rename' }
+      ],
+      default: unmodified ? 'overwrite' : 'skip'
+    }
+  ]);
+  return resolution;
+}
+
+/**
+ * Tell whether a schematic run failed because a generated file already exists: a
+ * `FileAlreadyExistException`, or a `MergeConflictException` when the existing file differs
+ */
+export function isFileConflictError(error: any): boolean {
+  return !!error && typeof error.message === 'string' && /already exist|merge conflicted/.test(error.message);
+}
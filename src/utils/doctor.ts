@@ -0,0 +1,247 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { CliConfig, CONFIG_FILES, findConfigDir, findConfigFiles, loadConfig } from './configLoader';
+import { ConfigValidationError } from './configSchema';
+import { toPascalCase } from './fileUtils';
+import { componentsOf, dependenciesOf, dependentsOf, indexProject } from './projectIndex';
+import { installedVersion, templatePackages, TemplatePackage } from './projectDependencies';
+
+/**
+ * Groups of checks, in the order they are reported
+ */
+export const DOCTOR_SECTIONS = ['Dependencies', 'TypeScript', 'Configuration', 'Components'] as const;
+
+/**
+ * Result of one check. Errors break the build of generated code; warnings are worth a look.
+ */
+export interface DoctorCheck {
+  section: typeof DOCTOR_SECTIONS[number];
+  status: 'ok' | 'warning' | 'error';
+  message: string;
+  /**
+   * What to do about it, for the fix list
+   */
+  fix?: string;
+}
+
+export interface DoctorReport {
+  checks: DoctorCheck[];
+  /**
+   * Commands that install the missing packages, as program and arguments
+   */
+  installCommands: string[][];
+}
+
+/**
+ * Package manager of a project, from the lock file in its directory or above it
+ */
+function packageManagerOf(rootDir: string): 'npm' | 'pnpm' | 'yarn' {
+  let dir = path.resolve(rootDir);
+  while (true) {
+    if (fs.existsSync(path.join(dir, 'pnpm-lock.yaml'))) return 'pnpm';
+    if (fs.existsSync(path.join(dir, 'yarn.lock'))) return 'yarn';
+    if (fs.existsSync(path.join(dir, 'package-lock.json'))) return 'npm';
+    const parent = path.dirname(dir);
+    if (parent === dir) return 'npm';
+    dir = parent;
+  }
+}
+
+/**
+ * The command adding packages to package.json and installing them, or installing the
+ * packages package.json already declares when none are given
+ */
+function installCommand(rootDir: string, packages: TemplatePackage[] = [], dev: boolean = false): string[] {
+  const packageManager = packageManagerOf(rootDir);
+  if (packages.length === 0) {
+    return [packageManager, 'install'];
+  }
+  return [
+    packageManager,
+    packageManager === 'npm' ? 'install' : 'add',
+    ...(dev ? ['-D'] : []),
+    ...packages.map(templatePackage => `${templatePackage.name}@${templatePackage.version}`)
+  ];
+}
+
+/**
+ * The packages the templates import: declared in package.json and installed
+ */
+function checkDependencies(config: CliConfig, rootDir: string): DoctorReport {
+  const checks: DoctorCheck[] = [];
+  const packageJsonPath = path.join(rootDir, 'package.json');
+  const packageJson = fs.existsSync(packageJsonPath) ? fs.readJsonSync(packageJsonPath, { throws: false }) || {} : undefined;
+  if (!packageJson) {
+    checks.push({
+      section: 'Dependencies',
+      status: 'error',
+      message: `No package.json in ${rootDir}`,
+      fix: 'Run npm init -y, or vss-api-cli init to start a new project'
+    });
+  }
+  const declared = { ...packageJson?.peerDependencies, ...packageJson?.devDependencies, ...packageJson?.dependencies };
+
+  const packages = templatePackages(config).map(templatePackage => ({
+    templatePackage,
+    declared: !!declared[templatePackage.name],
+    version: installedVersion(templatePackage.name, rootDir)
+  }));
+  const missing = packages.filter(entry => !entry.declared).map(entry => entry.templatePackage);
+  const installCommands = [false, true]
+    .map(dev => missing.filter(templatePackage => templatePackage.dev === dev))
+    .filter(group => group.length > 0)
+    .map(group => installCommand(rootDir, group, group[0]!.dev));
+  // Adding packages also installs the ones package.json already declares
+  if (installCommands.length === 0 && packages.some(entry => !entry.version)) {
+    installCommands.push(installCommand(rootDir));
+  }
+
+  packages.forEach(({ templatePackage, declared, version }) => {
+    const neededBy = `needed by ${templatePackage.templates.join(', ')}`;
+    if (!declared) {
+      const command = installCommands.find(command => command.some(arg => arg.startsWith(`${templatePackage.name}@`)))!;
+      checks.push({ section: 'Dependencies', status: 'error', message: `${templatePackage.name} is not in package.json (${neededBy})`, fix: `Run ${command.join(' ')}` });
+    } else if (!version) {
+      checks.push({ section: 'Dependencies', status: 'error', message: `${templatePackage.name} is in package.json but not installed (${neededBy})`, fix: `Run ${installCommands[0]!.join(' ')}` });
+    } else {
+      checks.push({ section: 'Dependencies', status: 'ok', message: `${templatePackage.name} ${version}` });
+    }
+  });
+
+  return { checks, installCommands };
+}
+
+/**
+ * The compiler options the generated code is written for
+ */
+function checkTypeScript(rootDir: string): DoctorCheck[] {
+  const tsconfigPath = path.join(rootDir, 'tsconfig.json');
+  if (!fs.existsSync(tsconfigPath)) {
+    return [{
+      section: 'TypeScript',
+      status: 'error',
+      message: `No tsconfig.json in ${rootDir}`,
+      fix: 'Create tsconfig.json with "strict": true and "esModuleInterop": true in its compilerOptions'
+    }];
+  }
+
+  const { config, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  if (error) {
+    return [{
+      section: 'TypeScript',
+      status: 'error',
+      message: `tsconfig.json cannot be read: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`,
+      fix: 'Fix the syntax of tsconfig.json'
+    }];
+  }
+  // Options inherited through "extends" count too
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, rootDir, undefined, tsconfigPath);
+
+  return [
+    options.esModuleInterop
+      ? { section: 'TypeScript', status: 'ok', message: 'esModuleInterop is enabled' }
+      : {
+        section: 'TypeScript',
+        status: 'error',
+        message: 'esModuleInterop is not enabled, so the default imports of the generated handlers do not compile',
+        fix: 'Set "esModuleInterop": true in the compilerOptions of tsconfig.json'
+      },
+    options.strict
+      ? { section: 'TypeScript', status: 'ok', message: 'strict is enabled' }
+      : {
+        section: 'TypeScript',
+        status: 'warning',
+        message: 'strict is not enabled, so the types of the generated code are not fully checked',
+        fix: 'Set "strict": true in the compilerOptions of tsconfig.json'
+      }
+  ];
+}
+
+/**
+ * The config files, with the strict checks of validate-config --strict
+ */
+function checkConfiguration(rootDir: string): DoctorCheck[] {
+  const configDir = findConfigDir(rootDir);
+  if (!configDir) {
+    return [{
+      section: 'Configuration',
+      status: 'warning',
+      message: `No config file (looked for ${CONFIG_FILES.join(', ')}); the defaults are used`,
+      fix: 'Run vss-api-cli config init'
+    }];
+  }
+
+  const configFiles = findConfigFiles(configDir).map(configFile => path.relative(rootDir, configFile) || configFile);
+  try {
+    loadConfig(configDir, true, { strict: true, quiet: 'all' });
+  } catch (error: any) {
+    if (error instanceof ConfigValidationError) {
+      return error.issues.map(issue => ({
+        section: 'Configuration',
+        status: 'error',
+        message: `${path.relative(rootDir, error.filePath) || error.filePath}:${issue.line}:${issue.column} - ${issue.message} (${issue.path})`,
+        fix: 'Fix the problems of the config file, listed by vss-api-cli validate-config --strict'
+      }));
+    }
+    return [{ section: 'Configuration', status: 'error', message: error.message, fix: 'Fix the config file' }];
+  }
+  return configFiles.map(configFile => ({ section: 'Configuration', status: 'ok', message: `${configFile} matches the config schema` }));
+}
+
+/**
+ * Ports without an adapter, and adapters that implement no port
+ */
+function checkComponents(config: CliConfig, rootDir: string): DoctorCheck[] {
+  const index = indexProject(config, rootDir);
+  const checks: DoctorCheck[] = [];
+
+  componentsOf(index, 'port').forEach(port => {
+    if (dependentsOf(index, port, 'adapter').length === 0) {
+      const adapterName = toPascalCase(port.name.replace(/[-_.]?port$/i, ''));
+      checks.push({
+        section: 'Components',
+        status: 'warning',
+        message: `Port ${port.name} has no adapter (${port.filePath})`,
+        fix: `Run vss-api-cli create:adapter ${adapterName}${port.domain ? ` -d ${port.domain}` : ''} --port ${port.name}, or delete the port`
+      });
+    }
+  });
+  componentsOf(index, 'adapter').forEach(adapter => {
+    if (dependenciesOf(index, adapter, 'port').length === 0) {
+      checks.push({
+        section: 'Components',
+        status: 'warning',
+        message: `Adapter ${adapter.name} implements no port (${adapter.filePath})`,
+        fix: `Make ${adapter.name} implement a port, or delete it`
+      });
+    }
+  });
+
+  if (checks.length === 0) {
+    checks.push({ section: 'Components', status: 'ok', message: `${index.components.length} component(s), every port has an adapter and every adapter a port` });
+  }
+  return checks;
+}
+
+/**
+ * Check a project against what the generated code needs: the packages the templates
+ * import, the compiler options it is written for, a valid config, and ports and
+ * adapters that are not linked to each other
+ *
+ * @param rootDir Project root, with its package.json and tsconfig.json
+ * @param config Project config; loaded without strict checks when not given
+ */
+export function runDoctor(rootDir: string = process.cwd(), config: CliConfig = loadConfig(rootDir, true, { strict: false, quiet: 'all' })): DoctorReport {
+  const root = path.resolve(rootDir);
+  const dependencies = checkDependencies(config, root);
+  return {
+    checks: [
+      ...dependencies.checks,
+      ...checkTypeScript(root),
+      ...checkConfiguration(root),
+      ...checkComponents(config, root)
+    ],
+    installCommands: dependencies.installCommands
+  };
+}
@@ -2,50 +2,81 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import inquirer from 'inquirer';
 import { runSchematic } from '../schematics-cli'; // Assuming schematics-cli exists
+import { CliConfig, loadConfig } from './configLoader';
+import { ConfigValidationError } from './configSchema';
+import { toPascalCase } from './fileUtils';
+import { componentsOf, findDomains, indexProject } from './projectIndex';
 
 /**
- * Finds existing domain directories within the 'src' folder.
+ * Config of the project at basePath, without the log output and warnings of loadConfig
+ */
+function loadProjectConfig(basePath: string): CliConfig {
+    return loadConfig(basePath, false, { quiet: 'all' });
+}
+
+/**
+ * Finds existing domains, wherever the config places them.
  */
 export async function findExistingDomains(basePath: string = '.'): Promise<string[]> {
-    const srcPath = path.join(basePath, 'src');
     try {
-        const entries = await fs.readdir(srcPath, { withFileTypes: true });
-        return entries
-            .filter(dirent => dirent.isDirectory() && dirent.name !== 'infra' && dirent.name !== 'handlers' && dirent.name !== 'shared' && dirent.name !== 'config') // Exclude common non-domain folders
-            .map(dirent => dirent.name);
+        return findDomains(loadProjectConfig(basePath), basePath);
     } catch (error) {
-        // If src directory doesn't exist or other error, return empty array
+        // A broken config stops the command; a project that cannot be read has no domains
+        if (error instanceof ConfigValidationError) throw error;
         return [];
     }
 }
 
 /**
- * Finds existing services within domain directories.
- * Returns an array of objects { domain: string, service: string }.
+ * Finds existing services within domains, matching the service file patterns and directories of the config.
+ * `service` is the class the file exports and `filePath` the file, relative to the current directory.
  */
-export async function findExistingServices(basePath: string = '.'): Promise<{ domain: string, service: string, name: string }[]> {
-    const domains = await findExistingDomains(basePath);
-    const services: { domain: string, service: string, name: string }[] = [];
-    const srcPath = path.join(basePath, 'src');
+export async function findExistingServices(basePath: string = '.'): Promise<{ domain: string, service: string, name: string, filePath: string }[]> {
+    try {
+        const index = indexProject(loadProjectConfig(basePath), basePath);
+        return componentsOf(index, 'service').map(component => {
+            const filePath = path.join(basePath, component.filePath);
+            const exportedClass = /export\s+(?:default\s+)?class\s+(\w+)/.exec(fs.readFileSync(filePath, 'utf8'))?.[1];
+            const service = exportedClass || toPascalCase(component.name);
+            const domain = component.domain || '';
+            return { domain, service, name: `${service} (domain: ${domain || 'none'})`, filePath };
+        });
+    } catch (error) {
+        if (error instanceof ConfigValidationError) throw error;
+        console.warn('Could not read the services of the project:', error);
+        return [];
+    }
+}
 
-    for (const domain of domains) {
-        const servicesPath = path.join(srcPath, domain, 'services');
-        try {
-            if (await fs.pathExists(servicesPath)) {
-                const files = await fs.readdir(servicesPath);
-                files.forEach(file => {
-                    if (file.endsWith('Service.ts') && !file.endsWith('.template')) {
-                        const serviceName = file.replace('.ts', ''); // e.g., UserService
-                        services.push({ domain, service: serviceName, name: `${serviceName} (domain: ${domain})` });
-                    }
-                });
-            }
-        } catch (error) {
-            // Ignore errors for individual domains (e.g., permission issues)
-            console.warn(`Could not read services in domain '${domain}':`, error);
-        }
+/**
+ * Finds the ports of a domain, by file name without extension (e.g. PaymentPort).
+ */
+export async function findExistingPorts(domain: string, basePath: string = '.'): Promise<string[]> {
+    try {
+        const index = indexProject(loadProjectConfig(basePath), basePath);
+        return componentsOf(index, 'port', domain).map(component => component.name);
+    } catch (error) {
+        if (error instanceof ConfigValidationError) throw error;
+        console.warn(`Warning: Could not read the ports of domain '${domain}'. ${(error as Error).message}`);
+        return [];
+    }
+}
+
+/**
+ * Finds the file that declares a port of a domain, relative to the current directory.
+ * The name is compared without case and separators, so PaymentPort finds payment.port.ts.
+ * Returns null if the domain has no such port.
+ */
+export async function findPortFile(domain: string, portName: string, basePath: string = '.'): Promise<string | null> {
+    const normalize = (name: string) => name.toLowerCase().replace(/[-_.]/g, '');
+    try {
+        const index = indexProject(loadProjectConfig(basePath), basePath);
+        const port = componentsOf(index, 'port', domain).find(component => normalize(component.name) === normalize(portName));
+        return port ? path.join(basePath, port.filePath) : null;
+    } catch (error) {
+        if (error instanceof ConfigValidationError) throw error;
+        return null;
     }
-    return services;
 }
 
 /**
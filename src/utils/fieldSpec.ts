@@ -0,0 +1,108 @@
+/**
+ * A model field parsed from a --fields spec, with its TypeScript and Zod types
+ */
+export interface ModelField {
+  name: string;
+  optional: boolean;
+  tsType: string;
+  zodType: string;
+}
+
+/**
+ * Scalar field types supported in a --fields spec
+ */
+const SCALAR_TYPES: Record<string, { tsType: string, zodType: string }> = {
+  string: { tsType: 'string', zodType: 'z.string()' },
+  number: { tsType: 'number', zodType: 'z.number()' },
+  int: { tsType: 'number', zodType: 'z.number().int()' },
+  boolean: { tsType: 'boolean', zodType: 'z.boolean()' },
+  uuid: { tsType: 'string', zodType: 'z.string().uuid()' },
+  email: { tsType: 'string', zodType: 'z.string().email()' },
+  url: { tsType: 'string', zodType: 'z.string().url()' },
+  date: { tsType: 'Date', zodType: 'z.coerce.date()' },
+  json: { tsType: 'unknown', zodType: 'z.unknown()' }
+};
+
+/**
+ * Names of every field type accepted in a --fields spec, for help and error messages
+ */
+export const SUPPORTED_FIELD_TYPES = [...Object.keys(SCALAR_TYPES), 'enum(a|b)', '<type>[]'];
+
+/**
+ * Split a spec on commas that are not inside parentheses
+ */
+function splitFields(spec: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of spec) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(part => part.trim()).filter(part => part !== '');
+}
+
+/**
+ * Resolve a field type (without array suffix) to its TypeScript and Zod types
+ */
+function resolveType(type: string, field: string): { tsType: string, zodType: string } {
+  const enumMatch = type.match(/^enum\((.+)\)$/);
+  if (enumMatch) {
+    const values = enumMatch[1]!.split('|').map(value => value.trim()).filter(value => value !== '');
+    if (values.length === 0) {
+      throw new Error(`Field "${field}": enum needs at least one value, e.g. enum(active|blocked)`);
+    }
+    return {
+      tsType: values.map(value => `'${value}'`).join(' | '),
+      zodType: `z.enum([${values.map(value => `'${value}'`).join(', ')}])`
+    };
+  }
+
+  const scalar = SCALAR_TYPES[type];
+  if (!scalar) {
+    throw new Error(`Field "${field}": unknown type "${type}". Supported types: ${SUPPORTED_FIELD_TYPES.join(', ')}`);
+  }
+  return scalar;
+}
+
+/**
+ * Parse a --fields spec such as
+ * `id:uuid,email:string,age?:number,status:enum(active|blocked),tags:string[]`.
+ * Throws an Error describing the first invalid field.
+ */
+export function parseFieldSpec(spec: string): ModelField[] {
+  const seen = new Set<string>();
+
+  return splitFields(spec).map(field => {
+    const match = field.match(/^([A-Za-z_$][\w$]*)(\?)?\s*:\s*(.+)$/);
+    if (!match) {
+      throw new Error(`Field "${field}": expected name:type or name?:type`);
+    }
+
+    const [, name, optionalMark, rawType] = match as unknown as [string, string, string | undefined, string];
+    if (seen.has(name)) {
+      throw new Error(`Field "${name}" is defined more than once`);
+    }
+    seen.add(name);
+
+    const isArray = rawType.trim().endsWith('[]');
+    const baseType = isArray ? rawType.trim().slice(0, -2).trim() : rawType.trim();
+    const { tsType, zodType } = resolveType(baseType, field);
+
+    return {
+      name,
+      optional: !!optionalMark,
+      tsType: isArray ? (tsType.includes('|') ? `(${tsType})[]` : `${tsType}[]`) : tsType,
+      zodType: isArray ? `z.array(${zodType})` : zodType
+    };
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * What a schematic run does with one file:
+ * - `create` / `update`: the file is written
+ * - `unchanged`: the file exists with the generated content and is left alone
+ * - `overwrite`, `skip`, `rename`, `prompt`: the file exists and the conflict strategy applies
+ * - `conflict`: the file exists and no conflict strategy was given, so the run stops
+ */
+export type PlannedAction = 'create' | 'update' | 'unchanged' | 'overwrite' | 'skip' | 'rename' | 'prompt' | 'conflict';
+
+/**
+ * A file a schematic run writes, or would write in a dry run
+ */
+export interface PlannedFile {
+  /**
+   * Path relative to the output directory, with forward slashes. For `rename` this is the new path.
+   */
+  path: string;
+  action: PlannedAction;
+  size: number;
+  /**
+   * For `rename`: the existing file the generated one is written next to
+   */
+  existingPath?: string;
+  /**
+   * For existing files: still exactly what the generator last wrote, according to the generation manifest
+   */
+  unmodified?: boolean;
+}
+
+interface PreviewNode {
+  name: string;
+  children: Map<string, PreviewNode>;
+  file?: PlannedFile;
+}
+
+/**
+ * Label of a file in the tree, coloured by what happens to it
+ */
+function formatFile(name: string, file: PlannedFile): string {
+  switch (file.action) {
+    case 'update':
+      return `\x1b[32m${name}\x1b[0m \x1b[90m(updated)\x1b[0m`;
+    case 'unchanged':
+      return `\x1b[90m${name} (unchanged)\x1b[0m`;
+    case 'overwrite':
+      return `\x1b[33m${name}\x1b[0m \x1b[90m(overwrites the existing file)\x1b[0m`;
+    case 'skip':
+      return `\x1b[90m${name} (exists, kept)\x1b[0m`;
+    case 'rename':
+      return `\x1b[32m${name}\x1b[0m \x1b[90m(next to the existing ${file.existingPath?.split('/').pop()})\x1b[0m`;
+    case 'prompt':
+      return `\x1b[33m${name}\x1b[0m \x1b[90m(exists${file.unmodified ? ', unmodified since generated' : ''}, you will be asked)\x1b[0m`;
+    case 'conflict':
+      return `\x1b[31m${name} (already exists${file.unmodified ? ', unmodified since generated' : ''})\x1b[0m`;
+    default:
+      return `\x1b[32m${name}\x1b[0m`;
+  }
+}
+
+/**
+ * Merge directories that hold a single directory, so `src/handlers/` shows on one line
+ */
+function collapse(node: PreviewNode): PreviewNode {
+  let current = node;
+  while (!current.file && current.children.size === 1) {
+    const [child] = current.children.values();
+    if (!child || child.file) break;
+    current = { name: current.name ? `${current.name}/${child.name}` : child.name, children: child.children };
+  }
+  current.children = new Map([...current.children].map(([key, child]) => [key, collapse(child)]));
+  return current;
+}
+
+function renderChildren(node: PreviewNode, indent: string): string {
+  // Directories first, then files, each in name order
+  const children = [...node.children.values()].sort((a, b) =>
+    Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name)
+  );
+
+  return children.map((child, index) => {
+    const last = index === children.length - 1;
+    const branch = last ? '└── ' : '├── ';
+    if (child.file) {
+      return `${indent}${branch}${formatFile(child.name, child.file)}\n`;
+    }
+    return `${indent}${branch}\x1b[36m${child.name}/\x1b[0m\n${renderChildren(child, indent + (last ? '    ' : '│   '))}`;
+  }).join('');
+}
+
+/**
+ * Draw the files of a (dry) schematic run as a tree, with what happens to each of them
+ *
+ * @param files Files reported by the run
+ * @param outputPath Output directory the paths are relative to; shown as the root of the tree
+ */
+export function renderFilePreview(files: PlannedFile[], outputPath: string = '.'): string {
+  if (files.length === 0) {
+    return `\n\x1b[33mNo files to write.\x1b[0m\n`;
+  }
+
+  const root: PreviewNode = { name: '', children: new Map() };
+  files.forEach(file => {
+    const segments = file.path.split('/');
+    let node = root;
+    segments.forEach((segment, index) => {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { name: segment, children: new Map() };
+        node.children.set(segment, child);
+      }
+      if (index === segments.length - 1) child.file = file;
+      node = child;
+    });
+  });
+
+  // The output directory and the directories every file shares head the tree
+  const tree = collapse(root);
+  const rootDir = [outputPath === '.' ? '' : outputPath.replace(/\/$/, ''), tree.name].filter(Boolean).join('/');
+
+  let preview = `\n\x1b[1mFiles to be created:\x1b[0m\n`;
+  if (rootDir) {
+    preview += `\x1b[36m${rootDir}/\x1b[0m\n`;
+  }
+  preview += renderChildren(tree, '');
+
+  const conflicts = files.filter(file => file.action === 'conflict').length;
+  if (conflicts > 0) {
+    preview += `\n\x1b[33m⚠️  ${conflicts} file(s) already exist. Use --force to overwrite them or --on-conflict to choose what happens to them.\x1b[0m\n`;
+  }
+
+  return preview;
+}
+
+/**
+ * Files of a preview that already exist and would stop the run
+ */
+export function getConflicts(files: PlannedFile[]): PlannedFile[] {
+  return files.filter(file => file.action === 'conflict');
+}
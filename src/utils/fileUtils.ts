@@ -112,28 +112,16 @@ export function applyFileNameCase(name: string, casing: 'pascal' | 'camel' | 'ke
 }
 
 /**
- * Process and generate file paths based on configuration
+ * Directory and file name templates of a file type, from the config or the built-in defaults,
+ * e.g. `{{domainName}}/services` and `{{pascalName}}Service.ts`
  * @param componentType The type of component (handler, domain, service, etc.)
  * @param fileType The type of file (e.g. handlerFile, modelFile, etc.)
  * @param config The loaded configuration
- * @param templateVars The variables to replace in the templates
  */
-export function applyFilePatterns(
-    componentType: string, 
-    fileType: string,
-    config: any, 
-    templateVars: Record<string, string>,
-    basePath: string = '.'
-): { filePath: string, fileName: string } {
-    // Get the file pattern for this component type and file
+export function filePatternTemplates(componentType: string, fileType: string, config: any): { directory: string, fileName: string } {
     const filePatterns = config.filePatterns?.[componentType] || {};
     const directories = config.directories?.[componentType] || {};
-    
-    // Ensure all case format variables are available
-    if (!templateVars.snakeName && templateVars.name) {
-        templateVars.snakeName = toSnakeCase(templateVars.name);
-    }
-    
+
     // Get the file pattern or use a default
     let filePattern: string;
     switch (fileType) {
@@ -173,13 +161,14 @@ export function applyFilePatterns(
             dirPath = directories.schema || 'handlers/schemas';
             break;
         case 'serviceFile':
-            dirPath = directories.service || '{{domainName}}/services';
+            // create:service reads directories.service.base, create:domain directories.domain.service
+            dirPath = (componentType === 'service' ? directories.base : directories.service) || '{{domainName}}/services';
             break;
         case 'modelFile':
             dirPath = directories.model || '{{domainName}}/models';
             break;
         case 'portFile':
-            dirPath = directories.port || '{{domainName}}/ports';
+            dirPath = (componentType === 'port' ? directories.base : directories.port) || '{{domainName}}/ports';
             break;
         case 'adapterFile':
             if (componentType === 'adapter') {
@@ -191,6 +180,30 @@ export function applyFilePatterns(
         default:
             dirPath = directories.base || `${componentType}s`;
     }
+
+    return { directory: dirPath, fileName: filePattern };
+}
+
+/**
+ * Process and generate file paths based on configuration
+ * @param componentType The type of component (handler, domain, service, etc.)
+ * @param fileType The type of file (e.g. handlerFile, modelFile, etc.)
+ * @param config The loaded configuration
+ * @param templateVars The variables to replace in the templates
+ */
+export function applyFilePatterns(
+    componentType: string, 
+    fileType: string,
+    config: any, 
+    templateVars: Record<string, string>,
+    basePath: string = '.'
+): { filePath: string, fileName: string } {
+    // Ensure all case format variables are available
+    if (!templateVars.snakeName && templateVars.name) {
+        templateVars.snakeName = toSnakeCase(templateVars.name);
+    }
+
+    const { directory: dirPath, fileName: filePattern } = filePatternTemplates(componentType, fileType, config);
     
     // Apply template variables to directory path
     const processedDirPath = dirPath.replace(/\{\{([^}]+)\}\}/g, (_, key) => templateVars[key] || '');
@@ -221,12 +234,30 @@ export function applyFilePatterns(
     };
 }
 
+/**
+ * Build a relative import specifier from one generated file to another
+ * @param fromFile The file that will contain the import
+ * @param toFile The file being imported
+ */
+export function toImportPath(fromFile: string, toFile: string): string {
+    const relativePath = path.relative(path.dirname(fromFile), toFile)
+        .split(path.sep).join('/')
+        .replace(/\.ts$/, '');
+    return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+}
+
 /**
  * Display text content with pagination
  * @param content The text content to display
  * @param linesPerPage Number of lines to show per page
  */
 export async function displayWithPagination(content: string, linesPerPage: number = 20): Promise<void> {
+    // Without a terminal to read keys from (CI, pipes), print everything at once
+    if (!process.stdin.isTTY) {
+        console.log(content);
+        return;
+    }
+
     const lines = content.split('\n');
     let currentPage = 0;
     const totalPages = Math.ceil(lines.length / linesPerPage);
@@ -0,0 +1,136 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Location of the generation manifest, relative to the project root
+ */
+export const MANIFEST_PATH = path.join('.vss', 'manifest.json');
+
+/**
+ * A file written by a schematic run, with the hash of the content it was generated with
+ */
+export interface ManifestFile {
+  /**
+   * Path relative to the project root, with forward slashes
+   */
+  path: string;
+  hash: string;
+}
+
+/**
+ * One schematic run
+ */
+export interface ManifestEntry {
+  schematic: string;
+  options: Record<string, unknown>;
+  generatedAt: string;
+  files: ManifestFile[];
+}
+
+export interface Manifest {
+  version: 1;
+  entries: ManifestEntry[];
+}
+
+/**
+ * How a file compares with the content the generator last wrote to it
+ */
+export type GeneratedFileStatus = 'untracked' | 'unmodified' | 'modified' | 'missing';
+
+/**
+ * SHA-256 of a file content, as stored in the manifest
+ */
+export function hashContent(content: string | Buffer): string {
+  return `sha256-${createHash('sha256').update(content).digest('hex')}`;
+}
+
+/**
+ * Normalise a file path to the manifest form: relative to the root, forward slashes
+ */
+function toManifestPath(rootDir: string, filePath: string): string {
+  const absolutePath = path.resolve(rootDir, filePath);
+  return path.relative(path.resolve(rootDir), absolutePath).split(path.sep).join('/');
+}
+
+/**
+ * Read the manifest of a project. A missing or unreadable manifest is treated as empty.
+ *
+ * @param rootDir Project root containing the .vss directory
+ */
+export function loadManifest(rootDir: string = '.'): Manifest {
+  const manifestPath = path.join(rootDir, MANIFEST_PATH);
+  if (!fs.existsSync(manifestPath)) {
+    return { version: 1, entries: [] };
+  }
+
+  try {
+    const manifest = fs.readJsonSync(manifestPath);
+    return { version: 1, entries: Array.isArray(manifest.entries) ? manifest.entries : [] };
+  } catch (error: any) {
+    console.warn(`⚠️ Could not read ${manifestPath}, starting a new manifest: ${error.message}`);
+    return { version: 1, entries: [] };
+  }
+}
+
+/**
+ * Append a schematic run to the project's manifest
+ *
+ * @param rootDir Project root containing the .vss directory
+ * @param schematic Name of the schematic that ran
+ * @param options Options the schematic ran with; the injected `_config` is left out
+ * @param files Files the run created or updated, with their content, absolute or relative to rootDir
+ */
+export function recordGeneration(
+  rootDir: string,
+  schematic: string,
+  options: Record<string, unknown>,
+  files: { path: string, content: string | Buffer }[]
+): ManifestEntry {
+  const { _config, ...recordedOptions } = options;
+  const entry: ManifestEntry = {
+    schematic,
+    options: recordedOptions,
+    generatedAt: new Date().toISOString(),
+    files: files.map(file => ({ path: toManifestPath(rootDir, file.path), hash: hashContent(file.content) }))
+  };
+
+  const manifest = loadManifest(rootDir);
+  manifest.entries.push(entry);
+
+  const manifestPath = path.join(rootDir, MANIFEST_PATH);
+  fs.ensureDirSync(path.dirname(manifestPath));
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+
+  return entry;
+}
+
+/**
+ * Latest generated hash of every file in the manifest, keyed by manifest path
+ */
+export function getGeneratedHashes(manifest: Manifest): Map<string, string> {
+  const hashes = new Map<string, string>();
+  manifest.entries.forEach(entry => {
+    entry.files.forEach(file => hashes.set(file.path, file.hash));
+  });
+  return hashes;
+}
+
+/**
+ * Tell whether a file is still the generator's output: `unmodified` when its content matches
+ * the last generated hash, `modified` when a developer changed it, `missing` when it was
+ * deleted, and `untracked` when no run generated it.
+ *
+ * @param rootDir Project root containing the .vss directory
+ * @param filePath File path, absolute or relative to rootDir
+ * @param manifest Manifest to check against (loaded from rootDir when omitted)
+ */
+export function getGeneratedFileStatus(rootDir: string, filePath: string, manifest?: Manifest): GeneratedFileStatus {
+  const generatedHash = getGeneratedHashes(manifest || loadManifest(rootDir)).get(toManifestPath(rootDir, filePath));
+  if (!generatedHash) return 'untracked';
+
+  const absolutePath = path.resolve(rootDir, filePath);
+  if (!fs.existsSync(absolutePath)) return 'missing';
+
+  return hashContent(fs.readFileSync(absolutePath)) === generatedHash ? 'unmodified' : 'modified';
+}
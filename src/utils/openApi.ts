@@ -0,0 +1,620 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { parse as parseYaml } from 'yaml';
+import { toCamelCase } from './fileUtils';
+import { parseZodSchemas, JsonSchema } from './zodSchemaParser';
+
+/**
+ * A field of a generated Zod DTO object
+ */
+export interface DtoField {
+  name: string;
+  optional: boolean;
+  zodType: string;
+}
+
+/**
+ * An OpenAPI operation with its request and response bodies converted to DTO fields
+ */
+export interface OpenApiOperation {
+  operationId: string;
+  method: string;
+  path: string;
+  tag: string;
+  summary?: string;
+  requestFields: DtoField[] | null;
+  /**
+   * The request fields include path or query parameters, read from the event next to the body
+   */
+  requestHasParameters: boolean;
+  responseFields: DtoField[] | null;
+  responseIsList: boolean;
+  /**
+   * Bodies that are not objects (or arrays of objects) and were left as a commented DTO
+   */
+  warnings: string[];
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Nesting depth after which schemas are rendered as z.unknown()
+ */
+const MAX_SCHEMA_DEPTH = 8;
+
+/**
+ * Read an OpenAPI 3 document from a JSON or YAML file.
+ * Throws an Error if the file cannot be parsed or is not OpenAPI 3.
+ */
+export function loadOpenApiDocument(filePath: string): any {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`OpenAPI document not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  let document: any;
+  try {
+    document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error: any) {
+    throw new Error(`Could not parse ${filePath}: ${error.message}`);
+  }
+
+  if (!document || typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    throw new Error(`${filePath} is not an OpenAPI 3 document (missing or unsupported "openapi" version)`);
+  }
+  return document;
+}
+
+/**
+ * Follow a local $ref such as `#/components/schemas/User`
+ */
+function resolveRef(document: any, value: any): any {
+  let current = value;
+  const seen = new Set<string>();
+
+  while (current && typeof current.$ref === 'string') {
+    const ref: string = current.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) {
+      return {};
+    }
+    seen.add(ref);
+    current = ref.slice(2).split('/')
+      .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((node: any, segment) => node?.[segment], document);
+  }
+  return current || {};
+}
+
+/**
+ * Render a property key, quoting it when it is not a valid identifier
+ */
+function renderKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Render a JavaScript literal for an enum or const value
+ */
+function renderLiteral(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+/**
+ * Convert a JSON Schema (OpenAPI flavour) into the source of an equivalent Zod expression.
+ * A $ref that refers back to a schema being expanded (a recursive schema) becomes z.unknown().
+ */
+export function schemaToZod(document: any, schema: any, depth: number = 0, refs: string[] = []): string {
+  if (depth > MAX_SCHEMA_DEPTH) return 'z.unknown()';
+  if (schema && typeof schema.$ref === 'string') {
+    if (refs.includes(schema.$ref)) return 'z.unknown()';
+    refs = [...refs, schema.$ref];
+  }
+
+  const resolved = resolveRef(document, schema);
+  const types: string[] = Array.isArray(resolved.type) ? resolved.type : resolved.type ? [resolved.type] : [];
+  const nullable = resolved.nullable === true || types.includes('null');
+  const zod = renderSchema(document, resolved, types.filter(type => type !== 'null'), depth, refs);
+
+  return nullable ? `${zod}.nullable()` : zod;
+}
+
+function renderSchema(document: any, schema: any, types: string[], depth: number, refs: string[]): string {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const values = schema.enum.filter((value: unknown) => value !== null);
+    if (values.every((value: unknown) => typeof value === 'string')) {
+      return `z.enum([${values.map(renderLiteral).join(', ')}])`;
+    }
+    return values.length === 1
+      ? `z.literal(${renderLiteral(values[0])})`
+      : `z.union([${values.map((value: unknown) => `z.literal(${renderLiteral(value)})`).join(', ')}])`;
+  }
+  if (schema.const !== undefined) {
+    return `z.literal(${renderLiteral(schema.const)})`;
+  }
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    const options: string[] = variants.map((variant: any) => schemaToZod(document, variant, depth + 1, refs));
+    return options.length === 1 ? options[0]! : `z.union([${options.join(', ')}])`;
+  }
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    return schema.allOf
+      .map((part: any) => schemaToZod(document, part, depth + 1, refs))
+      .reduce((left: string, right: string) => `${left}.and(${right})`);
+  }
+
+  const type = types[0] || (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+  switch (type) {
+    case 'string': {
+      let zod = 'z.string()';
+      if (schema.format === 'uuid') zod += '.uuid()';
+      else if (schema.format === 'email') zod += '.email()';
+      else if (schema.format === 'uri' || schema.format === 'url') zod += '.url()';
+      else if (schema.format === 'date-time') zod += '.datetime()';
+      else if (schema.format === 'date') zod += '.date()';
+      if (typeof schema.minLength === 'number') zod += `.min(${schema.minLength})`;
+      if (typeof schema.maxLength === 'number') zod += `.max(${schema.maxLength})`;
+      if (typeof schema.pattern === 'string') zod += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
+      return zod;
+    }
+    case 'integer':
+    case 'number': {
+      let zod = type === 'integer' ? 'z.number().int()' : 'z.number()';
+      if (typeof schema.minimum === 'number') zod += `.min(${schema.minimum})`;
+      if (typeof schema.maximum === 'number') zod += `.max(${schema.maximum})`;
+      return zod;
+    }
+    case 'boolean':
+      return 'z.boolean()';
+    case 'array':
+      return `z.array(${schema.items ? schemaToZod(document, schema.items, depth + 1, refs) : 'z.unknown()'})`;
+    case 'object': {
+      const fields = objectFields(document, schema, depth + 1, refs);
+      if (fields.length === 0) {
+        const values = schema.additionalProperties && typeof schema.additionalProperties === 'object'
+          ? schemaToZod(document, schema.additionalProperties, depth + 1, refs)
+          : 'z.unknown()';
+        return `z.record(${values})`;
+      }
+      return `z.object({ ${fields.map(field => `${field.name}: ${field.zodType}${field.optional ? '.optional()' : ''}`).join(', ')} })`;
+    }
+    default:
+      return 'z.unknown()';
+  }
+}
+
+/**
+ * Convert the properties of an object schema into DTO fields
+ */
+function objectFields(document: any, schema: any, depth: number, refs: string[] = []): DtoField[] {
+  const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+
+  return Object.entries(schema.properties || {}).map(([name, property]) => ({
+    name: renderKey(name),
+    optional: !required.includes(name),
+    zodType: schemaToZod(document, property, depth, refs)
+  }));
+}
+
+/**
+ * Resolve the JSON schema of a request body or response, preferring application/json content
+ */
+function jsonContentSchema(document: any, body: any): any | null {
+  const content = resolveRef(document, body).content;
+  if (!content) return null;
+
+  const mediaType = Object.keys(content).find(type => type === 'application/json')
+    || Object.keys(content).find(type => type.includes('json'));
+  return mediaType ? content[mediaType].schema || null : null;
+}
+
+/**
+ * Merge fields of the same name: the last type wins, and a field is required when any
+ * of its occurrences, or the required list of the schema combining them, requires it
+ */
+function mergeFields(fields: DtoField[], required: string[]): DtoField[] {
+  const merged = new Map<string, DtoField>();
+  fields.forEach(field => {
+    const previous = merged.get(field.name);
+    merged.set(field.name, { ...field, optional: field.optional && (!previous || previous.optional) });
+  });
+  return [...merged.values()].map(field => ({
+    ...field,
+    optional: field.optional && !required.some(name => renderKey(name) === field.name)
+  }));
+}
+
+/**
+ * Fields of an object body. The members of an allOf are merged; the variants of a
+ * oneOf/anyOf are combined, each field only required when every variant requires it.
+ *
+ * @returns The fields, or null when the schema or one of its members is not an object
+ */
+function bodyObjectFields(document: any, schema: any, refs: string[]): DtoField[] | null {
+  if (schema && typeof schema.$ref === 'string') {
+    if (refs.includes(schema.$ref)) return null;
+    refs = [...refs, schema.$ref];
+  }
+  const resolved = resolveRef(document, schema);
+  const isObject = resolved.type === 'object' || !!resolved.properties;
+  const ownFields = isObject ? objectFields(document, resolved, 1, refs) : [];
+  const required: string[] = Array.isArray(resolved.required) ? resolved.required : [];
+
+  if (Array.isArray(resolved.allOf) && resolved.allOf.length > 0) {
+    // Members such as `{ required: [...] }` only constrain the fields of the others
+    const members = resolved.allOf.map((member: any) => {
+      const resolvedMember = resolveRef(document, member);
+      const constrainsOnly = !resolvedMember.type && !resolvedMember.properties && !resolvedMember.items
+        && !resolvedMember.allOf && !resolvedMember.oneOf && !resolvedMember.anyOf;
+      return constrainsOnly ? [] : bodyObjectFields(document, member, refs);
+    });
+    if (members.some((fields: DtoField[] | null) => fields === null)) return null;
+    const memberRequired = resolved.allOf.flatMap((member: any) => resolveRef(document, member).required || []);
+    return mergeFields([...members.flat(), ...ownFields], [...required, ...memberRequired]);
+  }
+
+  const variants = resolved.oneOf || resolved.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    const members: Array<DtoField[] | null> = variants.map((variant: any) => bodyObjectFields(document, variant, refs));
+    if (members.some(fields => fields === null)) return null;
+    const names = [...new Set(members.flatMap(fields => fields!.map(field => field.name)))];
+    const variantFields = names.map(name => {
+      const occurrences = members.map(fields => fields!.find(field => field.name === name));
+      const zodTypes = [...new Set(occurrences.filter((field): field is DtoField => !!field).map(field => field.zodType))];
+      return {
+        name,
+        optional: occurrences.some(field => !field || field.optional),
+        zodType: zodTypes.length === 1 ? zodTypes[0]! : `z.union([${zodTypes.join(', ')}])`
+      };
+    });
+    return mergeFields([...variantFields, ...ownFields], required);
+  }
+
+  return isObject ? ownFields : null;
+}
+
+/**
+ * Turn a body schema into top-level DTO fields. Arrays of objects become list DTOs;
+ * anything else is reported so the DTO can be filled in by hand.
+ */
+function bodyToFields(document: any, schema: any, label: string, warnings: string[]): { fields: DtoField[], isList: boolean } {
+  const resolved = resolveRef(document, schema);
+  if (resolved.type === 'array' || (!resolved.type && resolved.items)) {
+    const refs = typeof schema.$ref === 'string' ? [schema.$ref] : [];
+    const fields = bodyObjectFields(document, resolved.items, refs);
+    if (fields) {
+      return { fields, isList: true };
+    }
+  } else {
+    const fields = bodyObjectFields(document, schema, []);
+    if (fields) {
+      return { fields, isList: false };
+    }
+  }
+
+  warnings.push(`${label} body is not an object schema; its DTO was left for you to fill in`);
+  return { fields: [], isList: false };
+}
+
+/**
+ * Zod type of a path or query parameter. Their values arrive as strings, so numbers
+ * are coerced and booleans read from "true" and "false".
+ */
+function parameterToZod(document: any, schema: any): string {
+  const zodType = schema ? schemaToZod(document, schema, 1) : 'z.string()';
+  if (zodType.startsWith('z.number()')) {
+    return zodType.replace(/^z\.number\(\)/, 'z.coerce.number()');
+  }
+  if (zodType === 'z.boolean()') {
+    return `z.enum(['true', 'false']).transform(value => value === 'true')`;
+  }
+  return zodType;
+}
+
+/**
+ * DTO fields of the path and query parameters of an operation, including the ones its
+ * path declares for every operation. Path parameters are always required.
+ */
+function parameterFields(document: any, pathItem: any, operation: any): DtoField[] {
+  const parameters = new Map<string, any>();
+  [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach(parameter => {
+    const resolved = resolveRef(document, parameter);
+    if (resolved.in === 'path' || resolved.in === 'query') {
+      // An operation parameter overrides the path parameter of the same name and location
+      parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+    }
+  });
+
+  return [...parameters.values()].map(parameter => ({
+    name: renderKey(parameter.name),
+    optional: parameter.in !== 'path' && !parameter.required,
+    zodType: parameterToZod(document, parameter.schema)
+  }));
+}
+
+/**
+ * Build an operation id from the method and path when the spec does not declare one,
+ * e.g. `GET /users/{id}` becomes `getUsersById`
+ */
+function fallbackOperationId(method: string, routePath: string): string {
+  const words = routePath.split('/')
+    .filter(segment => segment !== '')
+    .map(segment => segment.startsWith('{') ? `by-${segment.slice(1, -1)}` : segment);
+  return toCamelCase([method, ...words].join('-').replace(/[^A-Za-z0-9-_]/g, '-').replace(/-+/g, '-'));
+}
+
+/**
+ * List every operation of an OpenAPI 3 document with its request and success response
+ * bodies converted to DTO fields. The request fields also hold the path and query
+ * parameters; a body field of the same name wins. Operations without a tag are grouped
+ * under `default`.
+ */
+export function extractOperations(document: any): OpenApiOperation[] {
+  const operations: OpenApiOperation[] = [];
+
+  Object.entries<any>(document.paths || {}).forEach(([routePath, pathItem]) => {
+    HTTP_METHODS.filter(method => pathItem?.[method]).forEach(method => {
+      const operation = pathItem[method];
+      const operationId = toCamelCase(operation.operationId || fallbackOperationId(method, routePath));
+      const warnings: string[] = [];
+
+      const requestSchema = operation.requestBody ? jsonContentSchema(document, operation.requestBody) : null;
+      const request = requestSchema ? bodyToFields(document, requestSchema, 'Request', warnings) : null;
+      if (request?.isList) {
+        warnings.push('Request body is a list; its DTO was left for you to fill in');
+        request.fields = [];
+      }
+      const parameters = parameterFields(document, pathItem, operation)
+        .filter(parameter => !request?.fields.some(field => field.name === parameter.name));
+
+      // Use the first 2xx response that has a JSON body
+      const successStatus = Object.keys(operation.responses || {})
+        .filter(status => /^2/.test(status))
+        .sort()
+        .find(status => jsonContentSchema(document, operation.responses[status]));
+      const responseSchema = successStatus ? jsonContentSchema(document, operation.responses[successStatus]) : null;
+      const response = responseSchema ? bodyToFields(document, responseSchema, 'Response', warnings) : null;
+
+      operations.push({
+        operationId,
+        method: method.toUpperCase(),
+        path: routePath,
+        tag: (operation.tags && operation.tags[0]) || 'default',
+        summary: operation.summary,
+        requestFields: request || parameters.length > 0 ? [...parameters, ...(request?.fields || [])] : null,
+        requestHasParameters: parameters.length > 0,
+        responseFields: response ? response.fields : null,
+        responseIsList: !!response?.isList,
+        warnings
+      });
+    });
+  });
+
+  return operations;
+}
+
+/**
+ * A DTO schema a handler imports
+ */
+export interface HandlerDto {
+  name: string;
+  filePath: string;
+}
+
+/**
+ * A handler found by scanning the handler directory, with its route and DTOs
+ */
+export interface HandlerRoute {
+  /**
+   * camelCase handler name, used as the operationId
+   */
+  name: string;
+  filePath: string;
+  method: string;
+  path: string;
+  summary?: string;
+  /**
+   * Sub-folder of the handler directory the handler lives in, used as the tag
+   */
+  tag?: string;
+  /**
+   * First 2xx status code the handler returns (200 when none is found)
+   */
+  status: number;
+  requestDto?: HandlerDto;
+  responseDto?: HandlerDto;
+}
+
+/**
+ * List files under a directory, recursively
+ */
+function listFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+  });
+}
+
+/**
+ * Parse a route such as `GET /users/{id}` into its method and path
+ */
+function parseRoute(route: string): { method: string, path: string } | null {
+  const match = route.trim().match(/^([A-Za-z]+)\s+(\/\S*)$/);
+  if (!match || !HTTP_METHODS.includes(match[1]!.toLowerCase())) return null;
+  return { method: match[1]!.toUpperCase(), path: match[2]! };
+}
+
+/**
+ * Read the `@route METHOD /path` annotation of a handler and the summary line of its doc comment
+ */
+function readRouteAnnotation(content: string): { method: string, path: string, summary?: string } | null {
+  const comment = content.match(/\/\*\*((?:(?!\*\/)[\s\S])*@route\s[^\n]*(?:(?!\*\/)[\s\S])*)\*\//);
+  if (!comment) return null;
+
+  const lines = comment[1]!.split('\n').map(line => line.replace(/^\s*\*\s?/, '').trim());
+  const routeLine = lines.find(line => line.startsWith('@route'));
+  const route = routeLine ? parseRoute(routeLine.replace(/^@route\s+/, '')) : null;
+  if (!route) return null;
+
+  // The generated "Handles GET /users" line is not a real summary
+  const summary = lines.find(line => line !== '' && !line.startsWith('@'));
+  const isGenerated = summary === `Handles ${route.method} ${route.path}`;
+  return { ...route, ...(summary && !isGenerated ? { summary } : {}) };
+}
+
+/**
+ * Find the request and response DTOs a handler imports from a relative module
+ */
+function findHandlerDtos(filePath: string, content: string): { requestDto?: HandlerDto, responseDto?: HandlerDto } {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+  const dtos: { requestDto?: HandlerDto, responseDto?: HandlerDto } = {};
+
+  sourceFile.statements.forEach(statement => {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) return;
+    const specifier = statement.moduleSpecifier.text;
+    const bindings = statement.importClause?.namedBindings;
+    if (!specifier.startsWith('.') || !bindings || !ts.isNamedImports(bindings)) return;
+
+    const modulePath = path.resolve(path.dirname(filePath), specifier);
+    const dtoFile = [`${modulePath}.ts`, path.join(modulePath, 'index.ts'), modulePath].find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+    if (!dtoFile) return;
+
+    bindings.elements.forEach(element => {
+      const name = (element.propertyName || element.name).text;
+      if (name.endsWith('RequestDto')) dtos.requestDto = { name, filePath: dtoFile };
+      if (name.endsWith('ResponseDto')) dtos.responseDto = { name, filePath: dtoFile };
+    });
+  });
+
+  return dtos;
+}
+
+/**
+ * Scan a handler directory for handler files and resolve the route of each one, from the
+ * route map first and then from its @route annotation.
+ *
+ * @param handlerDir Directory containing the handlers (searched recursively)
+ * @param handlerSuffix File name ending that marks a handler, e.g. `.handler.ts`
+ * @param routeMap Routes keyed by camelCase handler name, e.g. { listUsers: 'GET /users' }
+ * @returns The routed handlers, and the files of handlers without a route
+ */
+export function findHandlerRoutes(
+  handlerDir: string,
+  handlerSuffix: string,
+  routeMap: Record<string, string> = {}
+): { routes: HandlerRoute[], unrouted: string[], warnings: string[] } {
+  const routes: HandlerRoute[] = [];
+  const unrouted: string[] = [];
+  const warnings: string[] = [];
+
+  listFiles(handlerDir)
+    .filter(filePath => path.basename(filePath).endsWith(handlerSuffix))
+    .sort()
+    .forEach(filePath => {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const name = toCamelCase(path.basename(filePath).slice(0, -handlerSuffix.length));
+      const annotation = readRouteAnnotation(content);
+
+      let route: { method: string, path: string, summary?: string } | null = annotation;
+      if (routeMap[name]) {
+        route = parseRoute(routeMap[name]!);
+        if (!route) {
+          warnings.push(`Route "${routeMap[name]}" for ${name} in the config is not "METHOD /path"`);
+          route = annotation;
+        } else if (annotation?.summary) {
+          route.summary = annotation.summary;
+        }
+      }
+      if (!route) {
+        unrouted.push(filePath);
+        return;
+      }
+
+      const folder = path.relative(handlerDir, path.dirname(filePath)).split(path.sep)[0];
+      const status = content.match(/statusCode:\s*(2\d\d)\b/);
+
+      routes.push({
+        name,
+        filePath,
+        ...route,
+        ...(folder ? { tag: folder } : {}),
+        status: status ? Number(status[1]) : 200,
+        ...findHandlerDtos(filePath, content)
+      });
+    });
+
+  return { routes, unrouted, warnings };
+}
+
+/**
+ * Build an OpenAPI 3.1 document from routed handlers. DTO schemas are converted from
+ * their Zod source and shared through components.schemas.
+ */
+export function buildOpenApiDocument(
+  routes: HandlerRoute[],
+  info: { title: string, version: string }
+): { document: any, warnings: string[] } {
+  const warnings: string[] = [];
+  const paths: Record<string, Record<string, any>> = {};
+  const schemas: Record<string, JsonSchema> = {};
+
+  const schemaRef = (dto: HandlerDto): JsonSchema | null => {
+    if (!schemas[dto.name]) {
+      const parsed = parseZodSchemas(dto.filePath, [dto.name]);
+      parsed.warnings.forEach(warning => warnings.push(`${dto.name}: ${warning}`));
+      if (!parsed.schemas[dto.name]) {
+        warnings.push(`${dto.name} is not declared in ${dto.filePath}`);
+        return null;
+      }
+      schemas[dto.name] = parsed.schemas[dto.name]!;
+    }
+    return { $ref: `#/components/schemas/${dto.name}` };
+  };
+
+  routes.forEach(route => {
+    const method = route.method.toLowerCase();
+    const pathItem = paths[route.path] || (paths[route.path] = {});
+    if (pathItem[method]) {
+      warnings.push(`${route.name}: ${route.method} ${route.path} is already served by ${pathItem[method].operationId}; skipped`);
+      return;
+    }
+
+    const parameters = [...route.path.matchAll(/\{([^}]+)\}/g)].map(match => ({
+      name: match[1]!.replace(/\+$/, ''),
+      in: 'path',
+      required: true,
+      schema: { type: 'string' }
+    }));
+
+    const requestSchema = route.requestDto ? schemaRef(route.requestDto) : null;
+    const responseSchema = route.responseDto && route.status !== 204 ? schemaRef(route.responseDto) : null;
+
+    pathItem[method] = {
+      operationId: route.name,
+      ...(route.summary ? { summary: route.summary } : {}),
+      ...(route.tag ? { tags: [route.tag] } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(requestSchema ? {
+        requestBody: { required: true, content: { 'application/json': { schema: requestSchema } } }
+      } : {}),
+      responses: {
+        [String(route.status)]: {
+          description: route.status === 204 ? 'No content' : 'Successful response',
+          ...(responseSchema ? { content: { 'application/json': { schema: responseSchema } } } : {})
+        }
+      }
+    };
+  });
+
+  return {
+    document: {
+      openapi: '3.1.0',
+      info,
+      paths,
+      ...(Object.keys(schemas).length > 0 ? { components: { schemas } } : {})
+    },
+    warnings
+  };
+}
@@ -0,0 +1,177 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { CliConfig, loadConfig } from './configLoader';
+
+/**
+ * A schematic of a plugin collection
+ */
+export interface PluginSchematic {
+  name: string;
+  description: string;
+  aliases: string[];
+  /**
+   * Entry of the `plugins` list the schematic comes from
+   */
+  plugin: string;
+  /**
+   * Absolute path of the collection.json declaring it, which is also the
+   * name the schematics engine loads the collection by
+   */
+  collectionPath: string;
+}
+
+/**
+ * A schematic collection named in the `plugins` list of the config
+ */
+export interface PluginCollection {
+  /**
+   * Entry of the `plugins` list: an npm package name or a directory
+   */
+  name: string;
+  collectionPath: string;
+  schematics: PluginSchematic[];
+}
+
+/**
+ * Tell whether a `plugins` entry is a path rather than a package name
+ */
+function isPathEntry(plugin: string): boolean {
+  return plugin.startsWith('.') || path.isAbsolute(plugin);
+}
+
+/**
+ * Collection file a directory or package declares: the `schematics` field of its
+ * package.json, or a collection.json next to it
+ */
+function collectionOfDirectory(dir: string, plugin: string): string {
+  const packageJsonPath = path.join(dir, 'package.json');
+  if (fs.existsSync(packageJsonPath)) {
+    const { schematics } = fs.readJsonSync(packageJsonPath);
+    if (typeof schematics === 'string') {
+      return path.resolve(dir, schematics);
+    }
+  }
+  const collectionPath = path.join(dir, 'collection.json');
+  if (fs.existsSync(collectionPath)) {
+    return collectionPath;
+  }
+  throw new Error(`Plugin "${plugin}" has no collection: expected a "schematics" field in its package.json or a collection.json in ${dir}`);
+}
+
+/**
+ * Find the collection.json of a `plugins` entry.
+ * Throws an Error if the package or directory cannot be found or declares no collection.
+ *
+ * @param plugin An npm package installed in the project, a directory, or a collection.json file
+ * @param rootDir Directory packages are resolved from and paths are relative to
+ */
+export function resolvePluginCollection(plugin: string, rootDir: string = process.cwd()): string {
+  if (isPathEntry(plugin)) {
+    const pluginPath = path.resolve(rootDir, plugin);
+    if (!fs.existsSync(pluginPath)) {
+      throw new Error(`Plugin "${plugin}" not found at ${pluginPath}`);
+    }
+    return fs.statSync(pluginPath).isDirectory() ? collectionOfDirectory(pluginPath, plugin) : pluginPath;
+  }
+
+  let packageJsonPath: string;
+  try {
+    packageJsonPath = require.resolve(`${plugin}/package.json`, { paths: [rootDir] });
+  } catch {
+    throw new Error(`Plugin "${plugin}" is not installed. Run npm install ${plugin} --save-dev, or use a path starting with ./`);
+  }
+  return collectionOfDirectory(path.dirname(packageJsonPath), plugin);
+}
+
+/**
+ * Load the collections of the `plugins` list of the config.
+ * Throws an Error naming the first plugin that cannot be loaded.
+ *
+ * @param config Project config
+ * @param rootDir Directory packages are resolved from and paths are relative to
+ */
+export function loadPlugins(config: Partial<CliConfig>, rootDir: string = process.cwd()): PluginCollection[] {
+  return (config.plugins || []).map(plugin => {
+    const collectionPath = resolvePluginCollection(plugin, rootDir);
+    let collection: any;
+    try {
+      collection = fs.readJsonSync(collectionPath);
+    } catch (error: any) {
+      throw new Error(`Plugin "${plugin}": could not read ${collectionPath}: ${error.message}`);
+    }
+    if (!collection || typeof collection.schematics !== 'object') {
+      throw new Error(`Plugin "${plugin}": ${collectionPath} is not a schematic collection (missing "schematics")`);
+    }
+
+    const schematics = Object.entries<any>(collection.schematics)
+      .filter(([, description]) => !description.hidden && !description.private)
+      .map(([name, description]) => ({
+        name,
+        description: description.description || '',
+        aliases: description.aliases || [],
+        plugin,
+        collectionPath
+      }));
+
+    return { name: plugin, collectionPath, schematics };
+  });
+}
+
+/**
+ * Find a plugin schematic by name or alias. `<plugin>:<schematic>` picks the
+ * schematic of one plugin when several plugins declare the same name.
+ * Throws an Error if the name is ambiguous.
+ *
+ * @returns The schematic, or undefined if no plugin declares it
+ */
+export function findPluginSchematic(name: string, plugins: PluginCollection[]): PluginSchematic | undefined {
+  const separator = name.lastIndexOf(':');
+  const pluginName = separator > 0 ? name.slice(0, separator) : undefined;
+  const schematicName = separator > 0 ? name.slice(separator + 1) : name;
+
+  const matches = plugins
+    .filter(plugin => !pluginName || plugin.name === pluginName)
+    .flatMap(plugin => plugin.schematics)
+    .filter(schematic => schematic.name === schematicName || schematic.aliases.includes(schematicName));
+
+  if (matches.length > 1) {
+    throw new Error(`Schematic "${schematicName}" is declared by several plugins (${matches.map(match => match.plugin).join(', ')}). Use <plugin>:${schematicName} to pick one.`);
+  }
+  return matches[0];
+}
+
+/**
+ * List the plugin schematics of the project in the current directory, for help output.
+ * The config is loaded without its log output; a plugin that cannot be loaded is
+ * reported instead of its schematics, and an invalid config lists nothing.
+ *
+ * @returns The help section, or an empty string when no plugin is configured
+ */
+export function describePluginSchematics(): string {
+  let config: CliConfig;
+  try {
+    config = loadConfig('.', false, { quiet: 'all' });
+  } catch {
+    // The command that runs reports the config problems
+    return '';
+  }
+
+  if (!config.plugins || config.plugins.length === 0) {
+    return '';
+  }
+
+  let section = '\n🧩 Plugin Schematics (vss-api-cli generate <schematic>):\n';
+  config.plugins.forEach(plugin => {
+    try {
+      loadPlugins({ plugins: [plugin] }).forEach(collection => {
+        collection.schematics.forEach(schematic => {
+          const aliases = schematic.aliases.length > 0 ? ` (${schematic.aliases.join(', ')})` : '';
+          section += `  • ${`${schematic.name}${aliases}`.padEnd(22)} ${schematic.description} \x1b[90m[${plugin}]\x1b[0m\n`;
+        });
+      });
+    } catch (error: any) {
+      section += `  \x1b[33m⚠️  ${error.message}\x1b[0m\n`;
+    }
+  });
+  return section;
+}
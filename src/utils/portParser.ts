@@ -0,0 +1,532 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as ts from 'typescript';
+
+/**
+ * A single parameter of a port method
+ */
+export interface PortMethodParameter {
+  name: string;
+  type: string;
+  optional: boolean;
+  rest: boolean;
+}
+
+/**
+ * A method declared by a port interface (own or inherited)
+ */
+export interface PortMethod {
+  name: string;
+  typeParameters: string;
+  parameters: PortMethodParameter[];
+  returnType: string;
+  returnsPromise: boolean;
+  /**
+   * Full signature as written in the port, e.g. `findById(id: string): Promise<User | null>`
+   */
+  signature: string;
+}
+
+/**
+ * A property declared by a port interface (own or inherited) whose type is not a function
+ */
+export interface PortProperty {
+  name: string;
+  type: string;
+  optional: boolean;
+  readonly: boolean;
+}
+
+/**
+ * A type the port's signatures depend on and where it is imported from
+ */
+export interface PortTypeReference {
+  /**
+   * Name used in the signatures (the local name in the declaring file)
+   */
+  localName: string;
+  kind: 'named' | 'default' | 'namespace';
+  /**
+   * Exported name in the module for named imports
+   */
+  importedName: string;
+  /**
+   * Package name for bare specifiers, absolute path (without extension) for relative ones
+   */
+  module: string;
+  isRelative: boolean;
+}
+
+export interface ParsedPort {
+  interfaceName: string;
+  filePath: string;
+  methods: PortMethod[];
+  properties: PortProperty[];
+  references: PortTypeReference[];
+  /**
+   * Types used by the signatures that are declared in a file but not exported
+   */
+  unresolved: string[];
+}
+
+type ImportBinding = Omit<PortTypeReference, 'localName'>;
+
+/**
+ * Remove a .ts/.d.ts/.tsx extension from a file path
+ */
+function stripTsExtension(filePath: string): string {
+  return filePath.replace(/(\.d)?\.tsx?$/, '');
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  return !!modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * Build a map of every name a source file can refer to in a type position,
+ * pointing at the module that provides it.
+ */
+function collectFileBindings(sourceFile: ts.SourceFile): { bindings: Map<string, ImportBinding>, unexported: Set<string> } {
+  const bindings = new Map<string, ImportBinding>();
+  const unexported = new Set<string>();
+  const fileDir = path.dirname(sourceFile.fileName);
+
+  sourceFile.statements.forEach(statement => {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier) && statement.importClause) {
+      const specifier = statement.moduleSpecifier.text;
+      const isRelative = specifier.startsWith('.');
+      const module = isRelative ? path.resolve(fileDir, stripTsExtension(specifier)) : specifier;
+      const clause = statement.importClause;
+
+      if (clause.name) {
+        bindings.set(clause.name.text, { kind: 'default', importedName: 'default', module, isRelative });
+      }
+      if (clause.namedBindings) {
+        if (ts.isNamespaceImport(clause.namedBindings)) {
+          bindings.set(clause.namedBindings.name.text, { kind: 'namespace', importedName: '*', module, isRelative });
+        } else {
+          clause.namedBindings.elements.forEach(element => {
+            bindings.set(element.name.text, {
+              kind: 'named',
+              importedName: (element.propertyName || element.name).text,
+              module,
+              isRelative
+            });
+          });
+        }
+      }
+      return;
+    }
+
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) ||
+        ts.isClassDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+      const name = statement.name?.text;
+      if (!name) return;
+
+      if (hasExportModifier(statement)) {
+        bindings.set(name, {
+          kind: 'named',
+          importedName: name,
+          module: stripTsExtension(sourceFile.fileName),
+          isRelative: true
+        });
+      } else {
+        unexported.add(name);
+      }
+    }
+  });
+
+  return { bindings, unexported };
+}
+
+/**
+ * Collect the leftmost identifier of every type reference inside a node
+ */
+function collectReferencedNames(node: ts.Node, names: Set<string>): void {
+  if (ts.isTypeReferenceNode(node)) {
+    let typeName: ts.EntityName = node.typeName;
+    while (ts.isQualifiedName(typeName)) {
+      typeName = typeName.left;
+    }
+    names.add(typeName.text);
+  } else if (ts.isTypeQueryNode(node)) {
+    let exprName: ts.EntityName = node.exprName;
+    while (ts.isQualifiedName(exprName)) {
+      exprName = exprName.left;
+    }
+    names.add(exprName.text);
+  } else if (ts.isExpressionWithTypeArguments(node) && ts.isIdentifier(node.expression)) {
+    names.add(node.expression.text);
+  }
+  ts.forEachChild(node, child => collectReferencedNames(child, names));
+}
+
+/**
+ * Find the port interface declaration in a source file
+ */
+function findInterface(sourceFile: ts.SourceFile, preferredName?: string): ts.InterfaceDeclaration | undefined {
+  const interfaces = sourceFile.statements.filter(ts.isInterfaceDeclaration);
+  if (preferredName) {
+    const match = interfaces.find(i => i.name.text === preferredName || i.name.text === `I${preferredName}`);
+    if (match) return match;
+  }
+  return interfaces.find(i => hasExportModifier(i) && i.name.text.endsWith('Port'))
+    || interfaces.find(i => hasExportModifier(i))
+    || interfaces[0];
+}
+
+/**
+ * Turn a method signature or function-typed property into a PortMethod
+ *
+ * @param nodeText Text of a node of the declaration: its source text, or the printed
+ *                 text of a declaration built by the type checker
+ */
+function toPortMethod(
+  name: string,
+  declaration: ts.SignatureDeclarationBase,
+  nodeText: (node: ts.Node) => string
+): PortMethod {
+  const typeParameters = declaration.typeParameters
+    ? `<${declaration.typeParameters.map(nodeText).join(', ')}>`
+    : '';
+  const parameters = declaration.parameters.map(param => ({
+    name: nodeText(param.name),
+    type: param.type ? nodeText(param.type) : 'any',
+    optional: !!param.questionToken,
+    rest: !!param.dotDotDotToken
+  }));
+  const returnType = declaration.type ? nodeText(declaration.type) : 'any';
+  const parameterList = parameters
+    .map(p => `${p.rest ? '...' : ''}${p.name}${p.optional ? '?' : ''}: ${p.type}`)
+    .join(', ');
+
+  return {
+    name,
+    typeParameters,
+    parameters,
+    returnType,
+    returnsPromise: /^Promise\s*</.test(returnType),
+    signature: `${name}${typeParameters}(${parameterList}): ${returnType}`
+  };
+}
+
+/**
+ * The call signature of a method member, or of a property whose type is a function
+ */
+function memberSignatures(member: ts.Declaration): ts.SignatureDeclarationBase[] {
+  if (ts.isMethodSignature(member)) {
+    return [member];
+  }
+  if (ts.isPropertySignature(member) && member.type && ts.isFunctionTypeNode(member.type)) {
+    return [member.type];
+  }
+  return [];
+}
+
+/**
+ * Parse a port file with the TypeScript compiler and extract every method and
+ * property of the port interface (including inherited ones) with its exact types,
+ * together with the imports those types need. Members inherited from a generic
+ * interface are typed for the type arguments the port passes to it, e.g.
+ * `findById(id: string): Promise<Order | undefined>` for `extends BasePort<Order>`.
+ *
+ * @param filePath Absolute path of the port file
+ * @param interfaceName Preferred interface name (e.g. UserRepositoryPort); `I`-prefixed
+ *                      variants are matched too
+ */
+export function parsePortFile(filePath: string, interfaceName?: string): ParsedPort {
+  const program = ts.createProgram([filePath], {
+    noEmit: true,
+    skipLibCheck: true,
+    // Keeps `| undefined` in the types the checker builds for inherited members
+    strictNullChecks: true,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.Node10
+  });
+  const sourceFile = program.getSourceFile(filePath);
+  if (!sourceFile) {
+    throw new Error(`Could not read port file: ${filePath}`);
+  }
+
+  const declaration = findInterface(sourceFile, interfaceName);
+  if (!declaration) {
+    throw new Error(`No interface found in port file: ${filePath}`);
+  }
+
+  const checker = program.getTypeChecker();
+  const portType = checker.getTypeAtLocation(declaration.name);
+
+  const printer = ts.createPrinter({ removeComments: true });
+  const printed = (node: ts.Node) => printer.printNode(ts.EmitHint.Unspecified, node, sourceFile);
+
+  const methods: PortMethod[] = [];
+  const properties: PortProperty[] = [];
+  const references = new Map<string, PortTypeReference>();
+  const unresolved = new Set<string>();
+  const bindingsByFile = new Map<string, ReturnType<typeof collectFileBindings>>();
+
+  // The port itself is always imported from its own file
+  references.set(declaration.name.text, {
+    localName: declaration.name.text,
+    kind: 'named',
+    importedName: declaration.name.text,
+    module: stripTsExtension(sourceFile.fileName),
+    isRelative: true
+  });
+
+  /**
+   * Resolve every type name used by a member against the files that can name its types
+   */
+  const addReferences = (node: ts.Node, files: ts.SourceFile[], ownTypeParameters: Set<string>) => {
+    files.forEach(file => {
+      if (!bindingsByFile.has(file.fileName)) {
+        bindingsByFile.set(file.fileName, collectFileBindings(file));
+      }
+    });
+    const names = new Set<string>();
+    collectReferencedNames(node, names);
+
+    names.forEach(name => {
+      if (ownTypeParameters.has(name) || references.has(name)) return;
+      const fileBindings = files.map(file => bindingsByFile.get(file.fileName)!);
+      const binding = fileBindings.map(({ bindings }) => bindings.get(name)).find(Boolean);
+      if (binding) {
+        references.set(name, { localName: name, ...binding });
+      } else if (fileBindings.some(({ unexported }) => unexported.has(name))) {
+        unresolved.add(name);
+      }
+      // Anything else is a global type (Promise, Record, Date, ...)
+    });
+  };
+
+  checker.getPropertiesOfType(portType).forEach(symbol => {
+    const members = symbol.getDeclarations() || [];
+    const member = members[0];
+    if (!member) return;
+    const memberFile = member.getSourceFile();
+    const isMethod = memberSignatures(member).length > 0;
+
+    // A member written in terms of the type parameters of a generic interface the port
+    // extends is built from the port's instantiation of it instead of its source text
+    const parent = member.parent;
+    if (parent !== declaration && ts.isInterfaceDeclaration(parent) && parent.typeParameters) {
+      const memberType = checker.getTypeOfSymbolAtLocation(symbol, declaration);
+      const files = [sourceFile, memberFile];
+      if (isMethod) {
+        memberType.getCallSignatures().forEach(callSignature => {
+          const signature = checker.signatureToSignatureDeclaration(callSignature, ts.SyntaxKind.MethodSignature, undefined, ts.NodeBuilderFlags.NoTruncation);
+          if (!signature) return;
+          methods.push(toPortMethod(symbol.getName(), signature, printed));
+          addReferences(signature, files, new Set((signature.typeParameters || []).map(tp => tp.name.text)));
+        });
+      } else if (ts.isPropertySignature(member)) {
+        const typeNode = checker.typeToTypeNode(checker.getNonNullableType(memberType), undefined, ts.NodeBuilderFlags.NoTruncation);
+        properties.push({
+          name: symbol.getName(),
+          type: typeNode ? printed(typeNode) : 'any',
+          optional: !!member.questionToken,
+          readonly: !!ts.getModifiers(member)?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)
+        });
+        if (typeNode) addReferences(typeNode, files, new Set());
+      }
+      return;
+    }
+
+    const sourceText = (node: ts.Node) => node.getText(memberFile);
+    if (isMethod) {
+      members.flatMap(memberSignatures).forEach(signature => {
+        methods.push(toPortMethod(symbol.getName(), signature, sourceText));
+        addReferences(signature, [memberFile], new Set((signature.typeParameters || []).map(tp => tp.name.text)));
+      });
+    } else if (ts.isPropertySignature(member)) {
+      properties.push({
+        name: symbol.getName(),
+        type: member.type ? sourceText(member.type) : 'any',
+        optional: !!member.questionToken,
+        readonly: !!ts.getModifiers(member)?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)
+      });
+      if (member.type) addReferences(member.type, [memberFile], new Set());
+    }
+  });
+
+  return {
+    interfaceName: declaration.name.text,
+    filePath,
+    methods,
+    properties,
+    references: Array.from(references.values()),
+    unresolved: Array.from(unresolved)
+  };
+}
+
+/**
+ * Render import statements for the references of a parsed port, relative to the
+ * file that will contain them.
+ *
+ * @param references Type references from parsePortFile
+ * @param targetFile Absolute path of the file the imports are written into
+ */
+export function renderTypeImports(references: PortTypeReference[], targetFile: string): string[] {
+  const targetDir = path.dirname(targetFile);
+  const modules = new Map<string, { defaultName?: string, namespaceName?: string, named: string[] }>();
+
+  references.forEach(ref => {
+    let specifier = ref.module;
+    if (ref.isRelative) {
+      specifier = path.relative(targetDir, ref.module).split(path.sep).join('/');
+      if (!specifier.startsWith('.')) {
+        specifier = `./${specifier}`;
+      }
+    }
+
+    const entry = modules.get(specifier) || { named: [] };
+    if (ref.kind === 'default') {
+      entry.defaultName = ref.localName;
+    } else if (ref.kind === 'namespace') {
+      entry.namespaceName = ref.localName;
+    } else {
+      entry.named.push(ref.importedName === ref.localName ? ref.localName : `${ref.importedName} as ${ref.localName}`);
+    }
+    modules.set(specifier, entry);
+  });
+
+  const lines: string[] = [];
+  modules.forEach((entry, specifier) => {
+    if (entry.namespaceName) {
+      lines.push(`import * as ${entry.namespaceName} from '${specifier}';`);
+    }
+    const parts: string[] = [];
+    if (entry.defaultName) parts.push(entry.defaultName);
+    if (entry.named.length > 0) parts.push(`{ ${entry.named.join(', ')} }`);
+    if (parts.length > 0) {
+      lines.push(`import ${parts.join(', ')} from '${specifier}';`);
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Method stub data passed to the adapter template
+ */
+export interface AdapterMethodStub {
+  signature: string;
+  overloads: string[];
+  isAsync: boolean;
+}
+
+/**
+ * Group port methods into adapter stubs. Overloaded methods get their overload
+ * signatures followed by a single catch-all implementation signature.
+ */
+export function toAdapterMethodStubs(methods: PortMethod[]): AdapterMethodStub[] {
+  const byName = new Map<string, PortMethod[]>();
+  methods.forEach(method => {
+    byName.set(method.name, [...(byName.get(method.name) || []), method]);
+  });
+
+  return Array.from(byName.entries()).map(([name, group]) => {
+    if (group.length === 1) {
+      const method = group[0]!;
+      return { signature: method.signature, overloads: [], isAsync: method.returnsPromise };
+    }
+    return {
+      signature: `${name}(...args: any[]): any`,
+      overloads: group.map(method => method.signature),
+      isAsync: false
+    };
+  });
+}
+
+/**
+ * Property declarations of an adapter implementing port properties. Required ones are
+ * declared as definitely assigned, so the adapter compiles before it sets them.
+ */
+export function toAdapterPropertyStubs(properties: PortProperty[]): string[] {
+  return properties.map(property =>
+    `${property.readonly ? 'readonly ' : ''}${property.name}${property.optional ? '?' : '!'}: ${property.type}`
+  );
+}
+
+/**
+ * A method signature typed by the user (e.g. on the command line)
+ */
+export interface ParsedMethodSignature {
+  method: PortMethod;
+  /**
+   * Type names the signature refers to, excluding its own type parameters
+   */
+  referencedTypes: string[];
+}
+
+/**
+ * Parse a single method signature such as
+ * `findByEmail(email: string): Promise<User | null>`.
+ * Throws an Error describing the problem when the text is not a valid signature.
+ */
+export function parseMethodSignature(text: string): ParsedMethodSignature {
+  const trimmed = text.trim().replace(/;$/, '');
+  const source = `interface __PortMethod {\n  ${trimmed};\n}`;
+
+  const { diagnostics } = ts.transpileModule(source, { reportDiagnostics: true });
+  if (diagnostics && diagnostics.length > 0) {
+    const message = ts.flattenDiagnosticMessageText(diagnostics[0]!.messageText, ' ');
+    throw new Error(`Invalid method signature "${trimmed}": ${message}`);
+  }
+
+  const sourceFile = ts.createSourceFile('method.ts', source, ts.ScriptTarget.ES2020, true);
+  const declaration = sourceFile.statements[0];
+  const members = declaration && ts.isInterfaceDeclaration(declaration) ? declaration.members : undefined;
+  if (!members || members.length !== 1) {
+    throw new Error(`Invalid method signature "${trimmed}": expected exactly one method`);
+  }
+
+  const member = members[0]!;
+  let signature: ts.SignatureDeclarationBase | undefined;
+  if (ts.isMethodSignature(member)) {
+    signature = member;
+  } else if (ts.isPropertySignature(member) && member.type && ts.isFunctionTypeNode(member.type)) {
+    signature = member.type;
+  }
+  if (!signature || !member.name) {
+    throw new Error(`Invalid method signature "${trimmed}": expected name(params): ReturnType`);
+  }
+
+  const ownTypeParameters = new Set((signature.typeParameters || []).map(tp => tp.name.text));
+  const names = new Set<string>();
+  collectReferencedNames(signature, names);
+
+  return {
+    method: toPortMethod(member.name.getText(sourceFile), signature, node => node.getText(sourceFile)),
+    referencedTypes: Array.from(names).filter(name => !ownTypeParameters.has(name))
+  };
+}
+
+/**
+ * List the exported types (classes, interfaces, type aliases, enums) of every
+ * TypeScript file in a directory, as references that can be passed to renderTypeImports.
+ */
+export function findExportedTypes(dir: string): PortTypeReference[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const references: PortTypeReference[] = [];
+  fs.readdirSync(dir)
+    .filter(file => file.endsWith('.ts') && !file.endsWith('.d.ts'))
+    .forEach(file => {
+      const filePath = path.join(dir, file);
+      const sourceFile = ts.createSourceFile(filePath, fs.readFileSync(filePath, 'utf8'), ts.ScriptTarget.ES2020, true);
+      const { bindings } = collectFileBindings(sourceFile);
+      bindings.forEach((binding, name) => {
+        // Only types declared in this file, not the ones it imports
+        if (binding.module === stripTsExtension(filePath)) {
+          references.push({ localName: name, ...binding });
+        }
+      });
+    });
+
+  return references;
+}
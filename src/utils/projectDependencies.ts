@@ -0,0 +1,120 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { CliConfig } from './configLoader';
+import { projectTemplatesDir, TEMPLATE_FILES } from '../schematics/utils/templateUtils';
+
+/**
+ * Runtime packages imported by the generated handlers
+ */
+export const RUNTIME_DEPENDENCIES: Record<string, string> = {
+  '@middy/core': '^5.5.1',
+  '@middy/event-normalizer': '^5.5.1',
+  '@middy/http-error-handler': '^5.5.1',
+  '@middy/http-json-body-parser': '^5.5.1',
+  '@middy/sqs-partial-batch-failure': '^5.3.2',
+  'zod': '^3.24.2'
+};
+
+/**
+ * Tooling packages needed to compile the generated code. The CLI is left out: it is
+ * not published to the registry, so installing it would fail the whole install.
+ */
+export const DEV_DEPENDENCIES: Record<string, string> = {
+  '@types/aws-lambda': '^8.10.147',
+  '@types/node': '^22.14.1',
+  'typescript': '^5.8.3'
+};
+
+/**
+ * Modules templates import whose types come from another package
+ */
+const TYPE_PACKAGES: Record<string, string> = {
+  'aws-lambda': '@types/aws-lambda'
+};
+
+/**
+ * A package the generated code imports
+ */
+export interface TemplatePackage {
+  name: string;
+  /**
+   * Version range to install, from the lists init uses
+   */
+  version: string;
+  /**
+   * Only needed to compile, so it belongs in devDependencies
+   */
+  dev: boolean;
+  /**
+   * Templates importing it, e.g. `handler/handler.ts.template`
+   */
+  templates: string[];
+}
+
+/**
+ * Package of a module name, e.g. `@middy/core` for `@middy/core/package.json`
+ */
+function packageOf(moduleName: string): string {
+  const segments = moduleName.split('/');
+  const name = moduleName.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0]!;
+  return TYPE_PACKAGES[name] || name;
+}
+
+/**
+ * Packages the templates import, reading the project's own version of a template
+ * when it has one, so ejected templates that import other packages are covered too
+ *
+ * @param config Project config, for its templatesDir
+ * @returns The packages, sorted by name
+ */
+export function templatePackages(config: CliConfig): TemplatePackage[] {
+  const packages = new Map<string, TemplatePackage>();
+
+  Object.entries(TEMPLATE_FILES).forEach(([component, files]) => {
+    Object.entries(files).forEach(([fileName, builtInName]) => {
+      const projectTemplate = path.join(projectTemplatesDir(component, config), fileName);
+      const templatePath = fs.existsSync(projectTemplate)
+        ? projectTemplate
+        : path.join(__dirname, '..', 'schematics', component, 'files', builtInName);
+      if (!fs.existsSync(templatePath)) return;
+
+      // Templates are not valid TypeScript until rendered, so the module names are matched
+      // directly; import paths built from template variables point into the project
+      [...fs.readFileSync(templatePath, 'utf8').matchAll(/\b(?:from|import)\s*['"]([^'"]+)['"]|\brequire\(\s*['"]([^'"]+)['"]\s*\)/g)]
+        .map(match => (match[1] || match[2])!)
+        .filter(moduleName => !moduleName.startsWith('.') && !moduleName.includes('<%') && !moduleName.startsWith('node:'))
+        .forEach(moduleName => {
+          const name = packageOf(moduleName);
+          const templatePackage = packages.get(name) || {
+            name,
+            version: RUNTIME_DEPENDENCIES[name] || DEV_DEPENDENCIES[name] || 'latest',
+            dev: Object.keys(DEV_DEPENDENCIES).includes(name) || name.startsWith('@types/'),
+            templates: []
+          };
+          templatePackage.templates = [...new Set([...templatePackage.templates, `${component}/${fileName}`])];
+          packages.set(name, templatePackage);
+        });
+    });
+  });
+
+  return [...packages.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Version of a package installed for a project, looking in the node_modules of the
+ * project and of the directories above it, where workspaces hoist packages
+ *
+ * @returns The version, or undefined when the package is not installed
+ */
+export function installedVersion(name: string, rootDir: string = process.cwd()): string | undefined {
+  let dir = path.resolve(rootDir);
+  while (true) {
+    const manifest = path.join(dir, 'node_modules', name, 'package.json');
+    if (fs.existsSync(manifest)) {
+      return fs.readJsonSync(manifest, { throws: false })?.version || 'unknown';
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
@@ -0,0 +1,315 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { CliConfig } from './configLoader';
+import { filePatternTemplates } from './fileUtils';
+
+/**
+ * Kinds of component the indexer recognizes
+ */
+export type ComponentKind = 'model' | 'service' | 'port' | 'adapter' | 'handler';
+
+/**
+ * A file of the project recognized as a component
+ */
+export interface IndexedComponent {
+  kind: ComponentKind;
+  /**
+   * File name without extension, e.g. `UserService`
+   */
+  name: string;
+  /**
+   * Path relative to the project root, with `/` separators
+   */
+  filePath: string;
+  /**
+   * Domain from the `{{domainName}}` of its directory, or of the components it is
+   * linked to when its directory has none
+   */
+  domain?: string;
+  /**
+   * Components this one imports or implements, by file path
+   */
+  uses: string[];
+}
+
+/**
+ * Components of a project, in file path order
+ */
+export interface ProjectIndex {
+  /**
+   * Absolute path the file paths are relative to
+   */
+  rootDir: string;
+  components: IndexedComponent[];
+}
+
+/**
+ * Where each kind of component can be, as component type and file type of the config,
+ * most specific first: a file takes the first kind it matches. `nested` kinds are also
+ * found in subfolders of their directory, like the handlers/<tag>/ folders of import:openapi.
+ */
+const COMPONENT_LOCATIONS: Array<{ kind: ComponentKind, componentType: string, fileType: string, nested?: boolean }> = [
+  { kind: 'handler', componentType: 'handler', fileType: 'handlerFile', nested: true },
+  { kind: 'port', componentType: 'domain', fileType: 'portFile' },
+  { kind: 'port', componentType: 'port', fileType: 'portFile' },
+  { kind: 'adapter', componentType: 'adapter', fileType: 'adapterFile' },
+  { kind: 'adapter', componentType: 'domain', fileType: 'adapterFile' },
+  { kind: 'adapter', componentType: 'port', fileType: 'adapterFile' },
+  { kind: 'service', componentType: 'domain', fileType: 'serviceFile' },
+  { kind: 'service', componentType: 'service', fileType: 'serviceFile' },
+  { kind: 'model', componentType: 'domain', fileType: 'modelFile' }
+];
+
+/**
+ * A file name compared without case and separators, since fileNameCase turns
+ * `{{pascalName}}Service.ts` into `user-service.ts` or `user_service.ts`
+ */
+function normalizeFileName(fileName: string): string {
+  return fileName.replace(/\.ts$/, '').toLowerCase().replace(/[-_.]/g, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regular expressions matching the paths a component type and file type resolve to
+ *
+ * @param nested Also match the subfolders of the directory
+ * @returns `directory` matches the directory relative to basePath and captures the domain;
+ * `fileName` matches the normalized file name
+ */
+function locationMatchers(componentType: string, fileType: string, config: CliConfig, nested: boolean = false): { directory: RegExp, fileName: RegExp } {
+  const templates = filePatternTemplates(componentType, fileType, config);
+
+  // Files generated without a domain have an empty {{domainName}}, so its directory level is optional
+  let domainCaptured = false;
+  const directory = path.posix.normalize(templates.directory).replace(/^\.$/, '').replace(/^\/+|\/+$/g, '')
+    .split(/(\/?\{\{[^}]*\}\}\/?)/)
+    .map(part => {
+      const variable = /^(\/?)\{\{(.*)\}\}(\/?)$/.exec(part);
+      if (!variable) {
+        return escapeRegExp(part);
+      }
+      const [, before, name, after] = variable;
+      if (name !== 'domainName') {
+        return `${before}[^/]+${after}`;
+      }
+      const pattern = domainCaptured ? '\\k<domain>' : '(?<domain>[^/]+)';
+      domainCaptured = true;
+      return before && after ? `(?:/${pattern})?/` : `(?:${before}${pattern}${after})?`;
+    })
+    .join('');
+
+  const fileName = normalizeFileName(templates.fileName)
+    .split(/(\{\{[^}]*\}\})/)
+    .map(part => part === '{{adaptertype}}' ? '.*?' : /^\{\{.*\}\}$/.test(part) ? '.+?' : escapeRegExp(part))
+    .join('');
+
+  const subfolders = nested ? (directory ? '(?:/.+)?' : '.*') : '';
+  return { directory: new RegExp(`^${directory}${subfolders}$`), fileName: new RegExp(`^${fileName}$`) };
+}
+
+/**
+ * TypeScript files under a directory, skipping node_modules, hidden directories,
+ * declarations and tests
+ */
+function listSourceFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name === 'node_modules' || entry.name.startsWith('.') ? [] : listSourceFiles(entryPath);
+    }
+    return /\.ts$/.test(entry.name) && !/\.(d|test|spec)\.ts$/.test(entry.name) ? [entryPath] : [];
+  });
+}
+
+/**
+ * A relative import of a source file
+ */
+export interface ImportReference {
+  /**
+   * Module name as written, e.g. `../ports/UserRepositoryPort`
+   */
+  specifier: string;
+  /**
+   * Absolute path of the imported file
+   */
+  target: string;
+  /**
+   * 1-based position of the module name
+   */
+  line: number;
+  column: number;
+}
+
+/**
+ * Files a source file imports with relative paths, leaving out the ones that do not exist
+ *
+ * @param filePath Absolute path of the source file
+ * @param content Source of the file
+ */
+export function relativeImports(filePath: string, content: string): ImportReference[] {
+  return ts.preProcessFile(content, true, true).importedFiles
+    .filter(imported => imported.fileName.startsWith('.'))
+    .flatMap(imported => {
+      const resolved = path.resolve(path.dirname(filePath), imported.fileName);
+      const target = [resolved, `${resolved}.ts`, path.join(resolved, 'index.ts')]
+        .find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+      if (!target) {
+        return [];
+      }
+      const before = content.slice(0, imported.pos).split('\n');
+      return [{ specifier: imported.fileName, target, line: before.length, column: before[before.length - 1]!.length + 1 }];
+    });
+}
+
+/**
+ * Interfaces a file exports, and the ones its classes implement
+ */
+function interfaceNames(content: string): { exported: string[], implemented: string[] } {
+  const exported = [...content.matchAll(/export\s+interface\s+(\w+)/g)].map(match => match[1]!);
+  const implemented = [...content.matchAll(/class\s+\w+[^{]*?\bimplements\s+([^{]+)\{/g)]
+    .flatMap(match => match[1]!.split(','))
+    .map(name => name.trim().replace(/<.*$/, '').split('.').pop()!)
+    .filter(Boolean);
+  return { exported, implemented };
+}
+
+/**
+ * Index the models, services, ports, adapters and handlers of a project, by matching
+ * its files against the directories and file patterns of the config.
+ *
+ * A component uses the components it imports; an adapter also uses the port whose
+ * interface it implements. A component whose directory has no `{{domainName}}` takes
+ * the domain of the first component it uses that has one.
+ *
+ * @param config Project config
+ * @param rootDir Project root basePath is relative to
+ */
+export function indexProject(config: CliConfig, rootDir: string = process.cwd()): ProjectIndex {
+  const root = path.resolve(rootDir);
+  const baseDir = path.resolve(root, config.basePath || '.');
+  const matchers = COMPONENT_LOCATIONS.map(location => ({
+    kind: location.kind,
+    ...locationMatchers(location.componentType, location.fileType, config, location.nested)
+  }));
+  const toRelative = (filePath: string) => path.relative(root, filePath).split(path.sep).join('/');
+
+  const sources = new Map<string, { component: IndexedComponent, imports: string[], interfaces: ReturnType<typeof interfaceNames> }>();
+  listSourceFiles(baseDir).sort().forEach(filePath => {
+    const directory = path.relative(baseDir, path.dirname(filePath)).split(path.sep).join('/');
+    const fileName = normalizeFileName(path.basename(filePath));
+    for (const matcher of matchers) {
+      const directoryMatch = matcher.directory.exec(directory);
+      if (!directoryMatch || !matcher.fileName.test(fileName)) continue;
+
+      const content = fs.readFileSync(filePath, 'utf8');
+      sources.set(toRelative(filePath), {
+        component: {
+          kind: matcher.kind,
+          name: path.basename(filePath, '.ts'),
+          filePath: toRelative(filePath),
+          ...(directoryMatch.groups?.domain && { domain: directoryMatch.groups.domain }),
+          uses: []
+        },
+        imports: relativeImports(filePath, content).map(reference => toRelative(reference.target)),
+        interfaces: interfaceNames(content)
+      });
+      break;
+    }
+  });
+
+  const ports = [...sources.values()].filter(source => source.component.kind === 'port');
+  sources.forEach(source => {
+    const implemented = source.component.kind === 'adapter'
+      ? ports.filter(port => port.interfaces.exported.some(name => source.interfaces.implemented.includes(name))).map(port => port.component.filePath)
+      : [];
+    source.component.uses = [...new Set([...source.imports, ...implemented])]
+      .filter(filePath => filePath !== source.component.filePath && sources.has(filePath));
+  });
+
+  // Domains follow the links, so an adapter in infra/ belongs to the domain of its port
+  const components = [...sources.values()].map(source => source.component);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    components.filter(component => !component.domain).forEach(component => {
+      const domain = component.uses.map(filePath => sources.get(filePath)!.component.domain).find(Boolean);
+      if (domain) {
+        component.domain = domain;
+        changed = true;
+      }
+    });
+  }
+
+  return { rootDir: root, components };
+}
+
+/**
+ * Folders that hold no domain even where `directories.domain.base` would allow one
+ */
+const NON_DOMAIN_DIRECTORIES = ['infra', 'handlers', 'shared', 'config', 'templates', 'commands', 'utils', 'middlewares'];
+
+/**
+ * Find the domains of a project: those of its indexed components, and the folders
+ * `directories.domain.base` points to, e.g. each folder of core/domain for
+ * `core/domain/{{domainName}}`, so a domain shows up before it has any file
+ *
+ * @param config Project config
+ * @param rootDir Project root basePath is relative to
+ * @returns Domain names, sorted
+ */
+export function findDomains(config: CliConfig, rootDir: string = process.cwd(), index: ProjectIndex = indexProject(config, rootDir)): string[] {
+  const domains = new Set(indexedDomains(index));
+
+  const [prefix] = (config.directories.domain?.base || '{{domainName}}').split('{{domainName}}') as [string];
+  const domainsDir = path.resolve(rootDir, config.basePath || '.', prefix);
+  if (!prefix.includes('{{') && fs.existsSync(domainsDir)) {
+    // Folders other components are configured in, e.g. handlers and infra next to the domains
+    const reserved = COMPONENT_LOCATIONS
+      .map(location => path.posix.normalize(filePatternTemplates(location.componentType, location.fileType, config).directory))
+      .filter(directory => directory.startsWith(path.posix.normalize(prefix || '.').replace(/^\.$/, '')))
+      .map(directory => directory.slice(prefix.length).split('/')[0]!)
+      .filter(segment => !segment.includes('{{'));
+
+    fs.readdirSync(domainsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules')
+      .filter(entry => !NON_DOMAIN_DIRECTORIES.includes(entry.name) && !reserved.includes(entry.name))
+      .forEach(entry => domains.add(entry.name));
+  }
+
+  return [...domains].sort();
+}
+
+/**
+ * Domains of the indexed components, sorted
+ */
+export function indexedDomains(index: ProjectIndex): string[] {
+  return [...new Set(index.components.map(component => component.domain).filter((domain): domain is string => !!domain))].sort();
+}
+
+/**
+ * Components of a kind, optionally of one domain
+ */
+export function componentsOf(index: ProjectIndex, kind: ComponentKind, domain?: string): IndexedComponent[] {
+  return index.components.filter(component => component.kind === kind && (domain === undefined || component.domain === domain));
+}
+
+/**
+ * Components of a kind that a component uses, e.g. the services of a handler
+ */
+export function dependenciesOf(index: ProjectIndex, component: IndexedComponent, kind: ComponentKind): IndexedComponent[] {
+  return index.components.filter(other => other.kind === kind && component.uses.includes(other.filePath));
+}
+
+/**
+ * Components of a kind that use a component, e.g. the adapters implementing a port
+ */
+export function dependentsOf(index: ProjectIndex, component: IndexedComponent, kind: ComponentKind): IndexedComponent[] {
+  return index.components.filter(other => other.kind === kind && other.uses.includes(component.filePath));
+}
@@ -0,0 +1,164 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { parse } from 'yaml';
+
+/**
+ * A package of an npm, yarn or pnpm workspace
+ */
+export interface WorkspacePackage {
+  /**
+   * Name in its package.json, or its directory name when it has none
+   */
+  name: string;
+  /**
+   * Absolute path of the package directory
+   */
+  dir: string;
+}
+
+/**
+ * Package directory patterns of a workspace root: the `workspaces` field of package.json
+ * (npm and yarn), or the `packages` list of pnpm-workspace.yaml
+ *
+ * @returns The patterns, or undefined if the directory is not a workspace root
+ */
+function workspacePatterns(dir: string): string[] | undefined {
+  const pnpmWorkspacePath = path.join(dir, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmWorkspacePath)) {
+    const { packages } = parse(fs.readFileSync(pnpmWorkspacePath, 'utf8')) || {};
+    return Array.isArray(packages) ? packages : [];
+  }
+
+  const packageJsonPath = path.join(dir, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) {
+    return undefined;
+  }
+  try {
+    const { workspaces } = fs.readJsonSync(packageJsonPath);
+    if (Array.isArray(workspaces)) return workspaces;
+    // Yarn also accepts { packages: [...], nohoist: [...] }
+    if (workspaces && Array.isArray(workspaces.packages)) return workspaces.packages;
+  } catch {
+    // A broken package.json does not declare a workspace
+  }
+  return undefined;
+}
+
+/**
+ * Find the root of the workspace a directory belongs to, walking up
+ *
+ * @param startDir Directory the search starts from
+ * @returns The workspace root, or undefined outside a workspace
+ */
+export function findWorkspaceRoot(startDir: string = process.cwd()): string | undefined {
+  let dir = path.resolve(startDir);
+  while (true) {
+    if (workspacePatterns(dir)) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Regular expression for one segment of a package pattern, e.g. `api-*`
+ */
+function segmentPattern(segment: string): RegExp {
+  const escaped = segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Directories under `dir` matching the segments of a package pattern.
+ * `*` matches one directory level and `**` any number of them.
+ */
+function expandPattern(dir: string, segments: string[]): string[] {
+  if (segments.length === 0) {
+    return [dir];
+  }
+  const [segment, ...rest] = segments as [string, ...string[]];
+  if (segment === '' || segment === '.') {
+    return expandPattern(dir, rest);
+  }
+  if (!segment.includes('*') && !segment.includes('?')) {
+    const next = path.join(dir, segment);
+    return fs.existsSync(next) && fs.statSync(next).isDirectory() ? expandPattern(next, rest) : [];
+  }
+
+  const subdirs = fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+    .map(entry => entry.name);
+
+  if (segment === '**') {
+    return [
+      ...expandPattern(dir, rest),
+      ...subdirs.flatMap(name => expandPattern(path.join(dir, name), segments))
+    ];
+  }
+  const matcher = segmentPattern(segment);
+  return subdirs.filter(name => matcher.test(name)).flatMap(name => expandPattern(path.join(dir, name), rest));
+}
+
+/**
+ * List the packages of a workspace, in the order of its patterns
+ *
+ * @param rootDir The workspace root
+ */
+export function listWorkspacePackages(rootDir: string): WorkspacePackage[] {
+  const patterns = workspacePatterns(rootDir) || [];
+  const excluded = new Set(
+    patterns.filter(pattern => pattern.startsWith('!')).flatMap(pattern => expandPattern(rootDir, pattern.slice(1).split('/')))
+  );
+
+  const dirs = new Set(
+    patterns
+      .filter(pattern => !pattern.startsWith('!'))
+      .flatMap(pattern => expandPattern(rootDir, pattern.split('/')))
+      .filter(dir => !excluded.has(dir) && fs.existsSync(path.join(dir, 'package.json')))
+  );
+
+  return [...dirs].map(dir => {
+    let name = path.basename(dir);
+    try {
+      name = fs.readJsonSync(path.join(dir, 'package.json')).name || name;
+    } catch {
+      // Keep the directory name
+    }
+    return { name, dir };
+  });
+}
+
+/**
+ * Find a workspace package by its package name, its name without the scope
+ * (`api` for `@acme/api`), or its directory relative to the workspace root.
+ * Throws an Error if there is no workspace, no such package, or several match.
+ *
+ * @param project The name given to --project
+ * @param startDir Directory the workspace root is searched from
+ * @returns Absolute path of the package directory
+ */
+export function resolveWorkspaceProject(project: string, startDir: string = process.cwd()): string {
+  const rootDir = findWorkspaceRoot(startDir);
+  if (!rootDir) {
+    throw new Error(`--project ${project}: no workspace found. Declare "workspaces" in the root package.json or use pnpm-workspace.yaml.`);
+  }
+
+  const packages = listWorkspacePackages(rootDir);
+  const byName = packages.filter(pkg => pkg.name === project);
+  const matches = byName.length > 0
+    ? byName
+    : packages.filter(pkg => pkg.name.replace(/^@[^/]+\//, '') === project || path.relative(rootDir, pkg.dir) === path.normalize(project));
+
+  if (matches.length > 1) {
+    throw new Error(`--project ${project} matches several packages (${matches.map(pkg => pkg.name).join(', ')}). Use the full package name.`);
+  }
+  if (matches.length === 0) {
+    const available = packages.map(pkg => pkg.name).join(', ') || 'none';
+    throw new Error(`--project ${project}: no such package in the workspace at ${rootDir}. Available: ${available}`);
+  }
+  return matches[0]!.dir;
+}
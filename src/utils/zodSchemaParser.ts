@@ -0,0 +1,279 @@
+import * as fs from 'fs-extra';
+import * as ts from 'typescript';
+
+/**
+ * JSON Schema (OpenAPI 3.1 dialect) produced from a Zod expression
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Result of converting one Zod expression; `optional` marks object properties
+ * that must not be listed as required
+ */
+interface ConvertedSchema {
+  schema: JsonSchema;
+  optional: boolean;
+}
+
+/**
+ * Zod string refinements that map to a JSON Schema format
+ */
+const STRING_FORMATS: Record<string, string> = {
+  uuid: 'uuid',
+  email: 'email',
+  url: 'uri',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  ip: 'ip',
+  cuid: 'cuid'
+};
+
+/**
+ * Read the value of a literal expression (string, number, boolean, null or negative number)
+ */
+function literalValue(node: ts.Expression): unknown {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return -Number(node.operand.text);
+  }
+  return undefined;
+}
+
+/**
+ * Mark a schema as also accepting null
+ */
+function makeNullable(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === 'string') {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+/**
+ * State shared while converting the schemas of one file
+ */
+interface ConversionContext {
+  sourceFile: ts.SourceFile;
+  /**
+   * Initializers of the file's top-level consts, so schemas can refer to each other
+   */
+  declarations: Map<string, ts.Expression>;
+  warnings: string[];
+}
+
+function unsupported(context: ConversionContext, node: ts.Node): ConvertedSchema {
+  context.warnings.push(`Unsupported Zod expression "${node.getText(context.sourceFile).slice(0, 60)}"; typed as any`);
+  return { schema: {}, optional: false };
+}
+
+/**
+ * Convert a Zod expression. Identifiers are followed to other consts of the same file;
+ * `seen` holds the consts being expanded so recursive schemas stop.
+ */
+function convertExpression(context: ConversionContext, node: ts.Expression, seen: string[]): ConvertedSchema {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) {
+    return convertExpression(context, node.expression, seen);
+  }
+
+  // A schema declared elsewhere in the file
+  if (ts.isIdentifier(node)) {
+    const declaration = context.declarations.get(node.text);
+    if (!declaration || seen.includes(node.text)) return unsupported(context, node);
+    return convertExpression(context, declaration, [...seen, node.text]);
+  }
+
+  if (!ts.isCallExpression(node)) return unsupported(context, node);
+
+  const callee = node.expression;
+  if (!ts.isPropertyAccessExpression(callee)) return unsupported(context, node);
+  const method = callee.name.text;
+  const target = callee.expression;
+
+  // z.<type>(...) or z.coerce.<type>(...)
+  const isZodRoot = (ts.isIdentifier(target) && target.text === 'z')
+    || (ts.isPropertyAccessExpression(target) && ts.isIdentifier(target.expression)
+      && target.expression.text === 'z' && target.name.text === 'coerce');
+  if (isZodRoot) {
+    return convertType(context, method, node.arguments, seen, node);
+  }
+
+  // <schema>.<modifier>(...)
+  return applyModifier(context, convertExpression(context, target, seen), method, node.arguments, seen);
+}
+
+/**
+ * Convert a `z.<type>(...)` call
+ */
+function convertType(
+  context: ConversionContext,
+  method: string,
+  args: ts.NodeArray<ts.Expression>,
+  seen: string[],
+  node: ts.Node
+): ConvertedSchema {
+  const convert = (expression: ts.Expression) => convertExpression(context, expression, seen).schema;
+  const wrap = (schema: JsonSchema): ConvertedSchema => ({ schema, optional: false });
+  const [first, second] = args;
+
+  switch (method) {
+    case 'string': return wrap({ type: 'string' });
+    case 'number': return wrap({ type: 'number' });
+    case 'bigint': return wrap({ type: 'integer' });
+    case 'boolean': return wrap({ type: 'boolean' });
+    case 'date': return wrap({ type: 'string', format: 'date-time' });
+    case 'null': return wrap({ type: 'null' });
+    case 'any':
+    case 'unknown': return wrap({});
+    case 'literal': {
+      const value = first ? literalValue(first) : undefined;
+      return value === undefined ? unsupported(context, node) : wrap({ const: value });
+    }
+    case 'enum':
+      if (!first || !ts.isArrayLiteralExpression(first)) return unsupported(context, node);
+      return wrap({ type: 'string', enum: first.elements.map(element => literalValue(element)) });
+    case 'array':
+      return wrap({ type: 'array', items: first ? convert(first) : {} });
+    case 'object':
+      if (!first || !ts.isObjectLiteralExpression(first)) return unsupported(context, node);
+      return wrap(convertShape(context, first, seen));
+    case 'record': {
+      const values = second || first;
+      return wrap({ type: 'object', additionalProperties: values ? convert(values) : {} });
+    }
+    case 'union':
+    case 'discriminatedUnion': {
+      const options = method === 'union' ? first : second;
+      if (!options || !ts.isArrayLiteralExpression(options)) return unsupported(context, node);
+      return wrap({ anyOf: options.elements.map(convert) });
+    }
+    case 'intersection':
+      return wrap({ allOf: args.map(convert) });
+    case 'tuple':
+      if (!first || !ts.isArrayLiteralExpression(first)) return unsupported(context, node);
+      return wrap({ type: 'array', prefixItems: first.elements.map(convert) });
+    case 'optional':
+      return first ? { schema: convert(first), optional: true } : unsupported(context, node);
+    case 'nullable':
+      return first ? wrap(makeNullable(convert(first))) : unsupported(context, node);
+    default:
+      return unsupported(context, node);
+  }
+}
+
+/**
+ * Convert the shape of a `z.object({...})` call; properties that are not optional are required
+ */
+function convertShape(context: ConversionContext, shape: ts.ObjectLiteralExpression, seen: string[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  shape.properties.forEach(property => {
+    if (!ts.isPropertyAssignment(property)) return;
+    const name = ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name)
+      ? property.name.text
+      : property.name.getText(context.sourceFile);
+    const converted = convertExpression(context, property.initializer, seen);
+    properties[name] = converted.schema;
+    if (!converted.optional) required.push(name);
+  });
+
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+/**
+ * Apply a chained method such as `.optional()`, `.min(1)` or `.email()` to a converted schema
+ */
+function applyModifier(
+  context: ConversionContext,
+  base: ConvertedSchema,
+  method: string,
+  args: ts.NodeArray<ts.Expression>,
+  seen: string[]
+): ConvertedSchema {
+  const { schema, optional } = base;
+  const [first] = args;
+  const value = first ? literalValue(first) : undefined;
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  switch (method) {
+    case 'optional':
+      return { schema, optional: true };
+    case 'nullable':
+      return { schema: makeNullable(schema), optional };
+    case 'nullish':
+      return { schema: makeNullable(schema), optional: true };
+    case 'default':
+      return { schema: value === undefined ? schema : { ...schema, default: value }, optional: true };
+    case 'describe':
+      return { schema: typeof value === 'string' ? { ...schema, description: value } : schema, optional };
+    case 'int':
+      return { schema: { ...schema, type: 'integer' }, optional };
+    case 'positive':
+      return { schema: { ...schema, exclusiveMinimum: 0 }, optional };
+    case 'nonnegative':
+      return { schema: { ...schema, minimum: 0 }, optional };
+    case 'min':
+    case 'max':
+    case 'length': {
+      if (typeof value !== 'number') return base;
+      const [minKey, maxKey] = type === 'string' ? ['minLength', 'maxLength'] : type === 'array' ? ['minItems', 'maxItems'] : ['minimum', 'maximum'];
+      if (method === 'length') return { schema: { ...schema, [minKey]: value, [maxKey]: value }, optional };
+      return { schema: { ...schema, [method === 'min' ? minKey : maxKey]: value }, optional };
+    }
+    case 'regex':
+      if (first && ts.isRegularExpressionLiteral(first)) {
+        return { schema: { ...schema, pattern: first.text.slice(1, first.text.lastIndexOf('/')) }, optional };
+      }
+      if (first && ts.isNewExpression(first) && first.arguments?.[0] && ts.isStringLiteral(first.arguments[0])) {
+        return { schema: { ...schema, pattern: first.arguments[0].text }, optional };
+      }
+      return base;
+    case 'array':
+      return { schema: { type: 'array', items: schema }, optional: false };
+    case 'and':
+      return first ? { schema: { allOf: [schema, convertExpression(context, first, seen).schema] }, optional } : base;
+    case 'or':
+      return first ? { schema: { anyOf: [schema, convertExpression(context, first, seen).schema] }, optional } : base;
+    default: {
+      const format = STRING_FORMATS[method];
+      // Refinements, transforms and the like do not change the shape
+      return format ? { schema: { ...schema, format }, optional } : base;
+    }
+  }
+}
+
+/**
+ * Convert Zod schemas declared in a TypeScript file into JSON Schema by reading the source,
+ * without running it. Schemas it cannot read become unconstrained and are reported in `warnings`.
+ * Names that are not declared in the file are left out of the result.
+ *
+ * @param filePath Path of the file declaring the schemas (e.g. a handler DTO file)
+ * @param names Names of the schema consts to convert
+ */
+export function parseZodSchemas(filePath: string, names: string[]): { schemas: Record<string, JsonSchema>, warnings: string[] } {
+  const sourceFile = ts.createSourceFile(filePath, fs.readFileSync(filePath, 'utf-8'), ts.ScriptTarget.Latest, true);
+  const context: ConversionContext = { sourceFile, declarations: new Map(), warnings: [] };
+
+  sourceFile.statements.filter(ts.isVariableStatement).forEach(statement => {
+    statement.declarationList.declarations.forEach(declaration => {
+      if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+        context.declarations.set(declaration.name.text, declaration.initializer);
+      }
+    });
+  });
+
+  const schemas: Record<string, JsonSchema> = {};
+  names.forEach(name => {
+    const declaration = context.declarations.get(name);
+    if (declaration) {
+      schemas[name] = convertExpression(context, declaration, [name]).schema;
+    }
+  });
+
+  return { schemas, warnings: context.warnings };
+}
@@ -0,0 +1,99 @@
+#!/bin/bash
+
+# Checks that the code blueprint apply generates compiles, with the default layout and
+# with the clean-architecture preset. Run `npm run build` first; the generated projects
+# install their packages from the npm registry.
+
+# Exit immediately if a command exits with a non-zero status.
+set -e
+
+# --- Configuration ---
+CLI="$(cd "$(dirname "$0")" && pwd)/dist/index.js"
+TIMESTAMP=$(date +%s)
+TEST_ROOT="test-outcome/blueprint-compile-${TIMESTAMP}"
+FAILURES=0
+
+print_header() {
+  echo ""
+  echo "=================================================="
+  echo " $1"
+  echo "=================================================="
+}
+
+# A blueprint using every kind of component: a service with and without a model of the
+# same name, and HTTP and SQS handlers calling services, with and without DTOs
+write_blueprint() {
+  cat > vss-blueprint.yaml << 'EOF'
+domains:
+  - name: user
+    models:
+      - name: User
+        fields: "id:uuid,email:email,name?:string"
+        schema: true
+    ports:
+      - name: UserRepository
+        adapterType: repository
+        methods:
+          - "findByEmail(email: string): Promise<User | null>"
+          - "save(user: User): Promise<void>"
+    adapters:
+      - name: UserDynamo
+        port: UserRepository
+    services:
+      - name: User
+    handlers:
+      - name: createUser
+        service: User
+        requestDto: true
+        responseDto: true
+      - name: userCreatedNotifier
+        trigger: sqs
+        service: User
+        requestDto: true
+  - name: billing
+    services:
+      - name: Invoice
+    handlers:
+      - name: payInvoice
+        service: Invoice
+      - name: getInvoice
+        service: Invoice
+        responseDto: true
+EOF
+}
+
+# Generate a project, apply the blueprint to it and compile it
+# $1: project name, $2: config the project extends, empty for the default layout
+check_scenario() {
+  local project=$1
+  local preset=$2
+  print_header "Blueprint in ${project}${preset:+ (extends ${preset})}"
+
+  node "$CLI" init "$project" --no-domain -y
+  cd "$project"
+  if [[ -n "$preset" ]]; then
+    echo "{ \"extends\": \"${preset}\" }" > vss-api.config.json
+  fi
+  npm install --no-audit --no-fund
+  write_blueprint
+  node "$CLI" blueprint apply -y
+
+  if npx --no-install tsc --noEmit; then
+    echo "✅ PASS: ${project} compiles"
+  else
+    echo "❌ FAIL: ${project} does not compile"
+    FAILURES=$((FAILURES + 1))
+  fi
+  cd ..
+}
+
+# --- Test Execution ---
+mkdir -p "$TEST_ROOT"
+cd "$TEST_ROOT"
+
+check_scenario default-layout ""
+check_scenario clean-architecture "vss:clean-architecture"
+
+print_header "Blueprint Compile Tests Finished"
+echo "Generated projects in: $(pwd)"
+exit $FAILURES
@@ -0,0 +1,70 @@
+#!/bin/bash
+
+# Imports the example OpenAPI documents into a new project and checks the DTOs they
+# produce, and that the project compiles. Run `npm run build` first; the generated
+# project installs its packages from the npm registry.
+
+# Exit immediately if a command exits with a non-zero status.
+set -e
+
+# --- Configuration ---
+REPO_DIR="$(cd "$(dirname "$0")" && pwd)"
+CLI="${REPO_DIR}/dist/index.js"
+TIMESTAMP=$(date +%s)
+TEST_ROOT="test-outcome/openapi-import-${TIMESTAMP}"
+FAILURES=0
+
+print_header() {
+  echo ""
+  echo "=================================================="
+  echo " $1"
+  echo "=================================================="
+}
+
+# $1: file, $2: line it must contain, $3: description
+check_contains() {
+  if grep -qF -- "$2" "$1"; then
+    echo "✅ PASS: $3"
+  else
+    echo "❌ FAIL: $3 - \"$2\" not found in $1"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+# --- Test Execution ---
+mkdir -p "$TEST_ROOT"
+cd "$TEST_ROOT"
+
+print_header "Importing examples/openapi/composed-bodies.yaml"
+node "$CLI" init composed-bodies --no-domain -y
+cd composed-bodies
+npm install --no-audit --no-fund
+node "$CLI" import:openapi "${REPO_DIR}/examples/openapi/composed-bodies.yaml" -y
+
+print_header "Checking the DTOs"
+# allOf members are merged, with the required list of a member that only constrains the others
+check_contains src/handlers/schemas/users/create-user.dto.ts "  email: z.string().email()," "allOf request keeps the required fields of its members"
+check_contains src/handlers/schemas/users/create-user.dto.ts "  name: z.string()," "allOf request applies the required list of a constraint-only member"
+check_contains src/handlers/schemas/users/create-user.dto.ts "  id: z.string().uuid()," "allOf response of \$refs merges the fields of every member"
+check_contains src/handlers/schemas/users/list-users.dto.ts "export const ListUsersResponseDto = z.array(z.object({" "array of allOf items is a list DTO"
+# oneOf/anyOf variants are combined, fields only required when every variant requires them
+check_contains src/handlers/schemas/payments/create-payment.dto.ts "  amount: z.union([z.number(), z.number().int()])," "oneOf field required by every variant stays required"
+check_contains src/handlers/schemas/payments/create-payment.dto.ts "  iban: z.string().optional()," "oneOf field of one variant is optional"
+# Path and query parameters are request fields, validated with the body
+check_contains src/handlers/schemas/users/get-user.dto.ts "  userId: z.string().uuid()," "path parameter of the path item is a required field"
+check_contains src/handlers/schemas/users/get-user.dto.ts "  orderLimit: z.coerce.number().int().optional()," "integer query parameter is coerced"
+check_contains src/handlers/schemas/users/get-user.dto.ts "  includeOrders: z.enum(['true', 'false']).transform(value => value === 'true').optional()," "boolean query parameter is read from its text"
+check_contains src/handlers/schemas/users/update-user.dto.ts "  email: z.string().email()," "body fields follow the path parameters"
+check_contains src/handlers/users/update-user.handler.ts "      ...event.pathParameters," "handler validates the path parameters"
+
+print_header "Compiling the project"
+if npx --no-install tsc --noEmit; then
+  echo "✅ PASS: the imported handlers compile"
+else
+  echo "❌ FAIL: the imported handlers do not compile"
+  FAILURES=$((FAILURES + 1))
+fi
+
+print_header "OpenAPI Import Tests Finished"
+echo "Generated project in: $(pwd)"
+exit $FAILURES